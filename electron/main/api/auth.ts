@@ -0,0 +1,136 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import crypto from 'node:crypto'
+import type { ApiScope, ApiToken } from '../../../src/shared/types'
+
+// Scopes granted by each scope (admin ⊃ queue-add, skip ⊃ read)
+const IMPLIED_SCOPES: Record<ApiScope, ApiScope[]> = {
+  read: ['read'],
+  'queue-add': ['read', 'queue-add'],
+  skip: ['read', 'skip'],
+  admin: ['read', 'queue-add', 'skip', 'admin'],
+}
+
+export const API_SCOPES = Object.keys(IMPLIED_SCOPES) as ApiScope[]
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && API_SCOPES.includes(value as ApiScope)
+}
+
+export function hasScope(token: ApiToken, scope: ApiScope): boolean {
+  return token.scopes.some(s => IMPLIED_SCOPES[s]?.includes(scope))
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(24).toString('base64url')
+}
+
+// Constant-time compare so the token can't be guessed byte by byte
+function secretsEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB)
+}
+
+export type TokenStore = ReturnType<typeof createTokenStore>
+
+/**
+ * Bearer tokens for the Skill API, persisted as JSON (normally
+ * `{userData}/api-tokens.json`). A host token with the admin scope is
+ * created on first use so the app is never left without a way in; it is the
+ * only token flagged `host`.
+ */
+export function createTokenStore(filePath: string) {
+  let tokens: ApiToken[] = load()
+
+  function load(): ApiToken[] {
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      if (Array.isArray(data?.tokens)) {
+        return data.tokens.filter((t: ApiToken) =>
+          typeof t?.token === 'string' && Array.isArray(t.scopes) && t.scopes.every(isApiScope)
+        )
+      }
+    } catch {
+      // Missing or corrupt file: start fresh
+    }
+    return []
+  }
+
+  function save() {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, JSON.stringify({ tokens }, null, 2), { encoding: 'utf-8', mode: 0o600 })
+  }
+
+  function create(name: string, scopes: ApiScope[], host = false): ApiToken {
+    const token: ApiToken = {
+      id: crypto.randomUUID(),
+      name,
+      token: generateSecret(),
+      scopes: scopes.filter(isApiScope),
+      createdAt: Date.now(),
+      ...(host ? { host: true } : {}),
+    }
+    tokens = [...tokens, token]
+    save()
+    return token
+  }
+
+  if (tokens.length === 0) {
+    create('Host', ['admin'], true)
+  } else if (!tokens.some(t => t.host)) {
+    // Files from before the host flag: the host token is the first-use one
+    const first = tokens.find(t => t.name === 'Host' && t.scopes.includes('admin'))
+    if (first) {
+      tokens = tokens.map(t => (t === first ? { ...t, host: true } : t))
+      save()
+    }
+  }
+
+  return {
+    list(): ApiToken[] {
+      return tokens
+    },
+
+    create: (name: string, scopes: ApiScope[]) => create(name, scopes),
+
+    /** Replace a token's secret; the old secret stops working immediately */
+    rotate(id: string): ApiToken | null {
+      const existing = tokens.find(t => t.id === id)
+      if (!existing) return null
+      const rotated = { ...existing, token: generateSecret() }
+      tokens = tokens.map(t => (t.id === id ? rotated : t))
+      save()
+      return rotated
+    },
+
+    setScopes(id: string, scopes: ApiScope[]): ApiToken | null {
+      const existing = tokens.find(t => t.id === id)
+      if (!existing) return null
+      const updated = { ...existing, scopes: scopes.filter(isApiScope) }
+      tokens = tokens.map(t => (t.id === id ? updated : t))
+      save()
+      return updated
+    },
+
+    revoke(id: string): boolean {
+      const next = tokens.filter(t => t.id !== id)
+      if (next.length === tokens.length) return false
+      tokens = next
+      save()
+      return true
+    },
+
+    /** Resolve a raw token secret (e.g. an `access_token` query param) */
+    verify(secret: string | null | undefined): ApiToken | null {
+      if (!secret) return null
+      return tokens.find(t => secretsEqual(t.token, secret)) ?? null
+    },
+
+    /** Resolve an `Authorization: Bearer <token>` header to its token */
+    authenticate(authorization: string | undefined): ApiToken | null {
+      const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+      return match ? this.verify(match[1]) : null
+    },
+  }
+}
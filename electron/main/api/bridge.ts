@@ -0,0 +1,59 @@
+import { randomUUID } from 'node:crypto'
+
+export class RendererTimeoutError extends Error {
+  constructor(channel: string) {
+    super(`Control window did not answer ${channel}`)
+    this.name = 'RendererTimeoutError'
+  }
+}
+
+interface Pending {
+  resolve: (result: unknown) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+export type RendererBridge = ReturnType<typeof createRendererBridge>
+
+/**
+ * Request/response over one-way IPC: the control window owns the stores, so
+ * routes that need an answer (a created playlist's ID, say) send a request
+ * with an ID and wait for the renderer to reply on `api-response`.
+ */
+export function createRendererBridge(
+  send: (channel: string, requestId: string, ...args: unknown[]) => boolean,
+  timeoutMs = 3000
+) {
+  const pending = new Map<string, Pending>()
+
+  return {
+    /** Rejects with `RendererTimeoutError` if nobody answers in time */
+    request<T>(channel: string, ...args: unknown[]): Promise<T> {
+      const requestId = randomUUID()
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pending.delete(requestId)
+          reject(new RendererTimeoutError(channel))
+        }, timeoutMs)
+        pending.set(requestId, { resolve: resolve as (result: unknown) => void, timer })
+        if (!send(channel, requestId, ...args)) {
+          clearTimeout(timer)
+          pending.delete(requestId)
+          reject(new RendererTimeoutError(channel))
+        }
+      })
+    },
+
+    /** Settle a request; unknown or late IDs are ignored */
+    respond(requestId: string, result: unknown) {
+      const entry = pending.get(requestId)
+      if (!entry) return
+      clearTimeout(entry.timer)
+      pending.delete(requestId)
+      entry.resolve(result)
+    },
+
+    get pendingCount() {
+      return pending.size
+    },
+  }
+}
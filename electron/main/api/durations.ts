@@ -0,0 +1,61 @@
+import type { Song } from '../../../src/shared/types'
+
+export type DurationBackfill = ReturnType<typeof createDurationBackfill>
+
+// Wait before looking up a video again after a lookup failed (offline, rate limited)
+const RETRY_MS = 60_000
+
+interface DurationBackfillOptions {
+  /** Length of a video in seconds, or 0 if it can't be found; throws if the lookup failed */
+  fetchDuration: (videoId: string) => Promise<number>
+  /** Called once per video whose duration was found */
+  onDuration: (videoId: string, duration: number) => void
+}
+
+/**
+ * Looks up durations for queued songs that arrived without one (webview
+ * clicks, videoId-only API adds). Each video is looked up once; found
+ * durations are cached for songs queued again later. A failed lookup is
+ * tried again after RETRY_MS.
+ */
+export function createDurationBackfill({ fetchDuration, onDuration }: DurationBackfillOptions) {
+  const known = new Map<string, number>()
+  const pending = new Set<string>()
+  // Videos whose last lookup failed, with when to try again
+  const retryAt = new Map<string, number>()
+
+  async function lookUp(videoId: string) {
+    pending.add(videoId)
+    let duration: number
+    try {
+      duration = await fetchDuration(videoId)
+    } catch {
+      pending.delete(videoId)
+      retryAt.set(videoId, Date.now() + RETRY_MS)
+      return
+    }
+    pending.delete(videoId)
+    retryAt.delete(videoId)
+    // Remember misses too (as 0), so a video YouTube won't describe isn't retried forever
+    known.set(videoId, duration)
+    if (duration > 0) onDuration(videoId, duration)
+  }
+
+  return {
+    /** Start lookups for songs without a duration; resolves when they finish */
+    backfill(songs: Song[]): Promise<void> {
+      const lookups: Promise<void>[] = []
+      for (const song of songs) {
+        if (song.duration > 0 || pending.has(song.videoId)) continue
+        const cached = known.get(song.videoId)
+        if (cached === undefined) {
+          if ((retryAt.get(song.videoId) ?? 0) > Date.now()) continue
+          lookups.push(lookUp(song.videoId))
+        } else if (cached > 0) {
+          onDuration(song.videoId, cached)
+        }
+      }
+      return Promise.all(lookups).then(() => undefined)
+    },
+  }
+}
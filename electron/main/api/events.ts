@@ -0,0 +1,149 @@
+import type http from 'node:http'
+import type { KtvEvent, KtvEventType, PlaybackState, PlaybackStateEvent, Song } from '../../../src/shared/types'
+
+export const KTV_EVENT_TYPES: KtvEventType[] = [
+  'song-started', 'song-ended', 'queue-changed', 'playback-state',
+  'volume-changed', 'display-opened', 'display-closed',
+]
+
+const HEARTBEAT_MS = 15000
+
+interface QueueSnapshot {
+  currentSong: Song | null
+  upcomingSongs: Song[]
+  playbackState: string
+}
+
+interface EventClient {
+  res: http.ServerResponse
+  types: Set<KtvEventType> | null
+  tokenId: string | null
+}
+
+/** Identify a queue entry: the same video can be queued more than once */
+export function entryKey(song: Song | null): string | undefined {
+  return song ? song.entryId ?? song.videoId : undefined
+}
+
+function sameSong(a: Song | null, b: Song | null): boolean {
+  return entryKey(a) === entryKey(b)
+}
+
+/**
+ * Work out which events a queue-state-sync implies.
+ * `song-ended` is left to the caller, which knows whether the song finished
+ * or was skipped.
+ */
+export function diffQueueState(prev: QueueSnapshot, next: QueueSnapshot): { type: KtvEventType; data: unknown }[] {
+  const events: { type: KtvEventType; data: unknown }[] = []
+
+  if (!sameSong(prev.currentSong, next.currentSong) && next.currentSong) {
+    events.push({ type: 'song-started', data: { song: next.currentSong } })
+  }
+
+  if (
+    !sameSong(prev.currentSong, next.currentSong) ||
+    JSON.stringify(prev.upcomingSongs) !== JSON.stringify(next.upcomingSongs)
+  ) {
+    events.push({
+      type: 'queue-changed',
+      data: { currentSong: next.currentSong, upcomingSongs: next.upcomingSongs },
+    })
+  }
+
+  // The only source of `playback-state`; the player's own reports go to GET /api/player
+  if (prev.playbackState !== next.playbackState) {
+    const data: PlaybackStateEvent = { playbackState: next.playbackState as PlaybackState }
+    events.push({ type: 'playback-state', data })
+  }
+
+  return events
+}
+
+function writeEvent(res: http.ServerResponse, event: KtvEvent) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+}
+
+export type EventHub = ReturnType<typeof createEventHub>
+
+/**
+ * Server-Sent Events fan-out for `GET /api/events`
+ */
+export function createEventHub() {
+  const clients = new Set<EventClient>()
+  let nextId = 1
+  let heartbeat: ReturnType<typeof setInterval> | null = null
+
+  function stopHeartbeatIfIdle() {
+    if (clients.size === 0 && heartbeat) {
+      clearInterval(heartbeat)
+      heartbeat = null
+    }
+  }
+
+  function makeEvent(type: KtvEventType, data: unknown): KtvEvent {
+    return { id: nextId++, type, data, timestamp: Date.now() }
+  }
+
+  return {
+    /**
+     * Turn `res` into an event stream. `types` limits which events are sent;
+     * `initial` events go to this client only (e.g. a state snapshot).
+     */
+    subscribe(
+      res: http.ServerResponse,
+      types: KtvEventType[] | null = null,
+      initial: { type: KtvEventType; data: unknown }[] = [],
+      tokenId: string | null = null
+    ) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+      })
+      res.write('retry: 3000\n\n')
+
+      const client: EventClient = { res, types: types ? new Set(types) : null, tokenId }
+      clients.add(client)
+
+      for (const { type, data } of initial) {
+        if (!client.types || client.types.has(type)) writeEvent(res, makeEvent(type, data))
+      }
+
+      if (!heartbeat) {
+        heartbeat = setInterval(() => {
+          for (const c of clients) c.res.write(': ping\n\n')
+        }, HEARTBEAT_MS)
+      }
+
+      res.on('close', () => {
+        clients.delete(client)
+        stopHeartbeatIfIdle()
+      })
+    },
+
+    publish(type: KtvEventType, data: unknown) {
+      if (clients.size === 0) return
+      const event = makeEvent(type, data)
+      for (const c of clients) {
+        if (!c.types || c.types.has(type)) writeEvent(c.res, event)
+      }
+    },
+
+    /** End every stream opened with `tokenId` (after it was rotated or revoked) */
+    disconnectToken(tokenId: string) {
+      for (const c of clients) {
+        if (c.tokenId === tokenId) {
+          clients.delete(c)
+          c.res.end()
+        }
+      }
+      stopHeartbeatIfIdle()
+    },
+
+    get clientCount() {
+      return clients.size
+    },
+  }
+}
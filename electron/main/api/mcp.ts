@@ -0,0 +1,193 @@
+import type { ApiToken } from '../../../src/shared/types'
+import { hasScope } from './auth'
+import { validate } from './schema'
+import type { ApiQueryParam, ApiRouteSpec, JsonSchema } from './schema'
+
+// Newest first; the first entry is offered when a client asks for a version we don't know
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+// JSON-RPC 2.0 error codes
+const INVALID_REQUEST = -32600
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: string | number | null
+  method?: string
+  params?: any
+}
+
+export interface McpResource {
+  uri: string
+  name: string
+  description: string
+  read: () => unknown
+}
+
+interface McpTool<R> {
+  name: string
+  description: string
+  inputSchema: JsonSchema
+  route: R
+}
+
+/** `POST /api/queue/add` → `queue_add`, `GET /api/status` → `get_status` */
+export function toolName(route: Pick<ApiRouteSpec, 'method' | 'path'>): string {
+  const words = route.path.replace(/^\/api\//, '').split(/[/-]/).filter(Boolean)
+  return (route.method === 'GET' ? ['get', ...words] : words).join('_')
+}
+
+/** A GET route's query parameters as the tool's input schema */
+function querySchema(query: ApiQueryParam[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(query.map(q => [q.name, { ...q.schema, description: q.description }])),
+    additionalProperties: false,
+  }
+}
+
+/**
+ * URL and body for running a tool call's route handler: routes with query
+ * parameters read the arguments from the URL, the rest from the body
+ */
+export function toolRequest(
+  route: Pick<ApiRouteSpec, 'query'>,
+  args: Record<string, unknown>,
+  url: URL
+): { url: URL; body: Record<string, unknown> } {
+  if (!route.query?.length) return { url, body: args }
+  const withQuery = new URL(url.pathname, url)
+  for (const [name, value] of Object.entries(args)) withQuery.searchParams.set(name, String(value))
+  return { url: withQuery, body: {} }
+}
+
+/**
+ * Model Context Protocol server over the Skill API route table. Every route
+ * listed becomes a tool whose input schema is the route's body schema (or
+ * its query parameters), and tool calls run the route's own handler through
+ * `call`, so agents get the same validation, scopes and behaviour as HTTP
+ * clients. Transport-agnostic:
+ * `handle` takes one JSON-RPC message and returns the reply (or `null` for
+ * notifications); `context` is passed through to `call` untouched.
+ */
+export function createMcpServer<R extends ApiRouteSpec, C>(options: {
+  info: { name: string; version: string }
+  /** Called on every request, so routes registered later show up as tools */
+  listRoutes: () => readonly R[]
+  call: (route: R, args: Record<string, unknown>, context: C) => Promise<{ status: number; data: unknown }>
+  resources: McpResource[]
+}) {
+  function listTools(): McpTool<R>[] {
+    return options.listRoutes().map(route => ({
+      name: toolName(route),
+      description: route.summary,
+      inputSchema: route.body
+        ?? (route.query?.length ? querySchema(route.query) : { type: 'object', properties: {}, additionalProperties: false }),
+      route,
+    }))
+  }
+
+  const allowed = (tool: McpTool<R>, token: ApiToken) => !tool.route.scope || hasScope(token, tool.route.scope)
+
+  function textResult(data: unknown, isError = false) {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+      ...(isError ? {} : { structuredContent: data }),
+      isError,
+    }
+  }
+
+  async function callTool(params: any, token: ApiToken, context: C) {
+    const tool = listTools().find(t => t.name === params?.name)
+    if (!tool) throw new RpcError(INVALID_PARAMS, `Unknown tool: ${params?.name}`)
+    if (!allowed(tool, token)) {
+      return textResult({ error: 'Forbidden', requiredScope: tool.route.scope }, true)
+    }
+
+    const args = params.arguments ?? {}
+    if (tool.route.body || tool.route.query?.length) {
+      const issues = validate(tool.inputSchema, args, 'arguments')
+      if (issues.length > 0) return textResult({ error: 'Invalid arguments', issues }, true)
+    }
+
+    const { status, data } = await options.call(tool.route, args, context)
+    return textResult(data, status >= 400)
+  }
+
+  async function dispatch(method: string, params: any, token: ApiToken, context: C) {
+    switch (method) {
+      case 'initialize':
+        return {
+          protocolVersion: MCP_PROTOCOL_VERSIONS.includes(params?.protocolVersion)
+            ? params.protocolVersion
+            : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: options.info,
+        }
+      case 'ping':
+        return {}
+      case 'tools/list':
+        return {
+          tools: listTools().filter(t => allowed(t, token)).map(({ name, description, inputSchema }) => ({
+            name, description, inputSchema,
+          })),
+        }
+      case 'tools/call':
+        return callTool(params, token, context)
+      case 'resources/list':
+        return {
+          resources: options.resources.map(({ uri, name, description }) => ({
+            uri, name, description, mimeType: 'application/json',
+          })),
+        }
+      case 'resources/read': {
+        const resource = options.resources.find(r => r.uri === params?.uri)
+        if (!resource) throw new RpcError(INVALID_PARAMS, `Unknown resource: ${params?.uri}`)
+        return {
+          contents: [{
+            uri: resource.uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(resource.read(), null, 2),
+          }],
+        }
+      }
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`)
+    }
+  }
+
+  return {
+    /** Handle one JSON-RPC message from a client holding `token` */
+    async handle(message: unknown, token: ApiToken, context: C): Promise<object | null> {
+      if (!isJsonRpc(message)) {
+        return rpcError(null, INVALID_REQUEST, 'Invalid JSON-RPC message')
+      }
+      // Notifications (no id) and responses to server requests get no reply
+      if (message.id === undefined || !message.method) return null
+
+      try {
+        const result = await dispatch(message.method, message.params, token, context)
+        return { jsonrpc: '2.0', id: message.id, result }
+      } catch (err) {
+        if (err instanceof RpcError) return rpcError(message.id, err.code, err.message)
+        throw err
+      }
+    },
+  }
+}
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message)
+  }
+}
+
+function isJsonRpc(message: unknown): message is JsonRpcMessage {
+  return typeof message === 'object' && message !== null && !Array.isArray(message) &&
+    (message as JsonRpcMessage).jsonrpc === '2.0'
+}
+
+function rpcError(id: JsonRpcMessage['id'], code: number, message: string) {
+  return { jsonrpc: '2.0', id: id ?? null, error: { code, message } }
+}
@@ -0,0 +1,14 @@
+import os from 'node:os'
+
+/**
+ * First non-internal IPv4 address, i.e. the one phones on the same
+ * Wi-Fi can reach. Falls back to loopback when offline.
+ */
+export function getLanAddress(): string {
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === 'IPv4' && !address.internal) return address.address
+    }
+  }
+  return '127.0.0.1'
+}
@@ -0,0 +1,86 @@
+import { PlaybackState } from '../../../src/shared/types'
+import type { PlayerStateInfo } from '../../../src/shared/types'
+
+const IDLE_PLAYER: PlayerStateInfo = {
+  state: PlaybackState.IDLE,
+  currentTime: 0,
+  duration: 0,
+  volume: 100,
+  isMuted: false,
+  videoId: null,
+  playbackRate: 1,
+}
+
+interface Waiter {
+  check: (state: PlayerStateInfo) => boolean
+  resolve: (state: PlayerStateInfo) => void
+}
+
+export type PlayerStateTracker = ReturnType<typeof createPlayerStateTracker>
+
+/**
+ * Main-process copy of the display's player state, fed by the display's
+ * `player-state-changed` and `playback-progress` messages. Transport routes
+ * send a command and then wait for the state it should produce.
+ */
+export function createPlayerStateTracker() {
+  let state: PlayerStateInfo = { ...IDLE_PLAYER }
+  const waiters = new Set<Waiter>()
+
+  return {
+    get(): PlayerStateInfo {
+      return state
+    },
+
+    update(patch: Partial<PlayerStateInfo>) {
+      state = { ...state, ...patch }
+      for (const w of waiters) {
+        if (w.check(state)) {
+          waiters.delete(w)
+          w.resolve(state)
+        }
+      }
+    },
+
+    /** Forget everything, e.g. when the display window closes */
+    reset() {
+      this.update({ ...IDLE_PLAYER })
+    },
+
+    /**
+     * Resolve with the first state that passes `check`, or with the latest
+     * state after `timeoutMs` if the display never confirms.
+     */
+    waitFor(check: (state: PlayerStateInfo) => boolean, timeoutMs = 1500): Promise<PlayerStateInfo> {
+      if (check(state)) return Promise.resolve(state)
+      return new Promise(resolve => {
+        const waiter: Waiter = {
+          check,
+          resolve: s => {
+            clearTimeout(timer)
+            resolve(s)
+          },
+        }
+        const timer = setTimeout(() => {
+          waiters.delete(waiter)
+          resolve(state)
+        }, timeoutMs)
+        waiters.add(waiter)
+      })
+    },
+  }
+}
+
+/**
+ * Work out an absolute seek target from `position` (seconds from the start)
+ * or `offset` (seconds relative to now, may be negative), clamped to the
+ * video when its duration is known.
+ */
+export function resolveSeekTarget(
+  state: Pick<PlayerStateInfo, 'currentTime' | 'duration'>,
+  request: { position?: number; offset?: number }
+): number {
+  const target = request.position ?? state.currentTime + (request.offset ?? 0)
+  const upper = state.duration > 0 ? state.duration : Infinity
+  return Math.max(0, Math.min(target, upper))
+}
@@ -0,0 +1,102 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { Song } from '../../../src/shared/types'
+import type { ApiRoute, RouteRegistry } from './registry'
+import type { QueueSnapshot } from './routes'
+
+const PLUGIN_EXTENSIONS = ['.js', '.mjs', '.cjs']
+const PLUGIN_NAME = /^[A-Za-z0-9_-]+$/
+
+/** App access handed to plugins */
+export interface PluginHost {
+  getQueueState: () => QueueSnapshot
+  addSong: (song: Song) => void
+  searchYouTube: (query: string, maxResults?: number) => Promise<Song[]>
+}
+
+/** Argument of a plugin's `register(api)` function */
+export interface PluginApi extends PluginHost {
+  /** File name without extension; routes live under `/api/plugins/<name>` */
+  name: string
+  /**
+   * Add a route. `path` is relative to `/api/plugins/<name>` and may use
+   * `:param` segments; `scope` must not be `null`.
+   */
+  route: (route: ApiRoute) => void
+}
+
+export interface PluginLoadResult {
+  name: string
+  file: string
+  /** `METHOD /full/path` of every route registered */
+  routes: string[]
+  error?: string
+}
+
+type RegisterFn = (api: PluginApi) => void | Promise<void>
+
+function findRegister(mod: any): RegisterFn | null {
+  const candidates = [mod?.register, mod?.default?.register, mod?.default]
+  return candidates.find(c => typeof c === 'function') ?? null
+}
+
+/**
+ * Load every plugin file in `dir` (a missing folder means no plugins). Each
+ * plugin's routes are checked before any are registered, so a broken plugin
+ * adds nothing; its error is reported in the results instead of thrown.
+ */
+export async function loadPlugins(
+  dir: string,
+  registry: Pick<RouteRegistry, 'register' | 'routes'>,
+  host: PluginHost
+): Promise<PluginLoadResult[]> {
+  let files: string[]
+  try {
+    files = fs.readdirSync(dir).filter(f => PLUGIN_EXTENSIONS.includes(path.extname(f))).sort()
+  } catch {
+    return []
+  }
+
+  const results: PluginLoadResult[] = []
+  for (const file of files) {
+    const name = path.basename(file, path.extname(file))
+    const result: PluginLoadResult = { name, file: path.join(dir, file), routes: [] }
+    results.push(result)
+
+    try {
+      if (!PLUGIN_NAME.test(name)) throw new Error('Plugin file names may only use letters, digits, - and _')
+      if (results.some(r => r !== result && r.name === name)) throw new Error(`Another plugin is named ${name}`)
+
+      const mod = await import(/* @vite-ignore */ pathToFileURL(result.file).href)
+      const register = findRegister(mod)
+      if (!register) throw new Error('Plugin must export a register(api) function')
+
+      const prefix = `/api/plugins/${name}`
+      const pending: ApiRoute[] = []
+      await register({
+        ...host,
+        name,
+        route(route) {
+          if (!route.scope) throw new Error(`${route.method} ${route.path}: plugin routes need a scope`)
+          if (typeof route.handler !== 'function') throw new Error(`${route.method} ${route.path}: missing handler`)
+          const relative = route.path.startsWith('/') ? route.path : `/${route.path}`
+          pending.push({ ...route, path: relative === '/' ? prefix : prefix + relative, tags: route.tags ?? [name] })
+        },
+      })
+
+      // Same check as the registry (`/a/:x` and `/a/:y` clash), made up front
+      const shape = (r: ApiRoute) => `${r.method} ${r.path.replace(/:\w+/g, ':')}`
+      const taken = registry.routes.map(shape)
+      const shapes = pending.map(shape)
+      const clash = pending.find((_, i) => shapes.indexOf(shapes[i]) !== i || taken.includes(shapes[i]))
+      if (clash) throw new Error(`${clash.method} ${clash.path} is already registered`)
+
+      for (const route of pending) registry.register(route)
+      result.routes = pending.map(r => `${r.method} ${r.path}`)
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err)
+    }
+  }
+  return results
+}
@@ -0,0 +1,171 @@
+import type http from 'node:http'
+import type { ApiToken } from '../../../src/shared/types'
+import { hasScope } from './auth'
+import { RendererTimeoutError } from './bridge'
+import { validate } from './schema'
+import type { ApiRouteSpec } from './schema'
+
+export interface ApiRequestContext {
+  req: http.IncomingMessage
+  res: http.ServerResponse
+  url: URL
+  token: ApiToken | null
+  body: any
+  /** Values of `:name` segments in the route path */
+  params: Record<string, string>
+}
+
+export interface ApiResult {
+  status: number
+  data: unknown
+}
+
+export interface ApiRoute extends ApiRouteSpec {
+  /** Return a JSON result, or nothing when the handler wrote `res` itself */
+  handler: (ctx: ApiRequestContext) => Promise<ApiResult | void> | ApiResult | void
+}
+
+export function jsonResponse(res: http.ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' })
+  res.end(JSON.stringify(data))
+}
+
+// Parse JSON body from request
+function parseBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', (chunk: string) => { body += chunk })
+    req.on('end', () => {
+      try { resolve(body ? JSON.parse(body) : {}) }
+      catch { reject(new Error('Invalid JSON')) }
+    })
+    req.on('error', reject)
+  })
+}
+
+/**
+ * Match `pathname` against a route path with `:name` segments, returning the
+ * decoded parameters, or `null` if it doesn't match
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const expected = pattern.split('/')
+  const actual = pathname.split('/')
+  if (expected.length !== actual.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) {
+      if (!actual[i]) return null
+      try {
+        params[expected[i].slice(1)] = decodeURIComponent(actual[i])
+      } catch {
+        return null
+      }
+    } else if (expected[i] !== actual[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+export type RouteRegistry = ReturnType<typeof createRouteRegistry>
+
+/**
+ * Skill API routes and the request pipeline that serves them: CORS preflight,
+ * bearer auth, scope check, JSON body parsing and schema validation, then
+ * the route handler. Built-in routes and plugins register the same way.
+ */
+export function createRouteRegistry(options: {
+  /** Resolve the caller's token, or `null` if there is none or it is invalid */
+  authenticate: (req: http.IncomingMessage, url: URL) => ApiToken | null
+}) {
+  const routes: ApiRoute[] = []
+
+  function match(method: string, pathname: string): { route: ApiRoute; params: Record<string, string> } | null {
+    for (const route of routes) {
+      if (route.method !== method) continue
+      const params = matchPath(route.path, pathname)
+      if (params) return { route, params }
+    }
+    return null
+  }
+
+  return {
+    /** Throws if a route with the same method and path is already registered */
+    register(route: ApiRoute) {
+      const shape = (path: string) => path.replace(/:\w+/g, ':')
+      if (routes.some(r => r.method === route.method && shape(r.path) === shape(route.path))) {
+        throw new Error(`Route already registered: ${route.method} ${route.path}`)
+      }
+      routes.push(route)
+    },
+
+    get routes(): readonly ApiRoute[] {
+      return routes
+    },
+
+    match,
+
+    /** `http.createServer` request listener */
+    async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+      // CORS preflight
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization, Mcp-Protocol-Version',
+        })
+        return res.end()
+      }
+
+      const url = new URL(req.url || '/', 'http://localhost')
+      const found = match(req.method || 'GET', url.pathname)
+
+      const token = options.authenticate(req, url)
+      if (!token && found?.route.scope !== null) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="aipc-ktv"')
+        return jsonResponse(res, 401, { error: 'Unauthorized', message: 'Missing or invalid bearer token' })
+      }
+
+      try {
+        if (!found) {
+          return jsonResponse(res, 404, {
+            error: 'Not found',
+            endpoints: routes.map(r => `${r.method.padEnd(4)} ${r.path}`),
+          })
+        }
+        const { route, params } = found
+        if (route.scope && !hasScope(token!, route.scope)) {
+          return jsonResponse(res, 403, {
+            error: 'Forbidden',
+            message: `Token lacks the '${route.scope}' scope`,
+            requiredScope: route.scope,
+          })
+        }
+
+        let body: any = {}
+        if (req.method !== 'GET') {
+          try {
+            body = await parseBody(req)
+          } catch {
+            return jsonResponse(res, 400, { error: 'Invalid JSON' })
+          }
+        }
+        if (route.body) {
+          const issues = validate(route.body, body)
+          if (issues.length > 0) {
+            return jsonResponse(res, 400, { error: 'Invalid request body', issues })
+          }
+        }
+
+        const result = await route.handler({ req, res, url, token, body, params })
+        if (result) jsonResponse(res, result.status, result.data)
+      } catch (err) {
+        if (err instanceof RendererTimeoutError) {
+          return jsonResponse(res, 503, { error: 'Control window unavailable', message: err.message })
+        }
+        jsonResponse(res, 500, { error: String(err) })
+      }
+    },
+  }
+}
@@ -0,0 +1,224 @@
+// Phone remote served at GET /remote. Self-contained (no build step) and
+// driven entirely by the public /api/* routes, authenticated with the
+// guest token from the `?token=` link.
+export const REMOTE_PAGE_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1, viewport-fit=cover">
+<meta name="theme-color" content="#111827">
+<title>AIPC KTV Remote</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "Noto Sans TC", sans-serif; background: #111827; color: #f9fafb; }
+  header { position: sticky; top: 0; z-index: 1; padding: 12px 16px; background: #1f2937; border-bottom: 1px solid #374151; }
+  h1 { margin: 0 0 8px; font-size: 18px; color: #60a5fa; }
+  h2 { margin: 16px 16px 8px; font-size: 14px; text-transform: uppercase; letter-spacing: .05em; color: #9ca3af; }
+  form { display: flex; gap: 8px; }
+  #singer { display: block; width: 100%; margin-bottom: 8px; }
+  input { flex: 1; min-width: 0; padding: 10px 12px; font-size: 16px; border: 1px solid #4b5563; border-radius: 8px; background: #111827; color: inherit; }
+  button { padding: 10px 14px; font-size: 15px; font-weight: 600; border: 0; border-radius: 8px; background: #2563eb; color: #fff; }
+  button:disabled { opacity: .5; }
+  button.skip { background: #dc2626; }
+  ul { list-style: none; margin: 0; padding: 0 16px; }
+  li { display: flex; align-items: center; gap: 10px; padding: 8px 0; border-bottom: 1px solid #1f2937; }
+  li img { width: 64px; height: 36px; object-fit: cover; border-radius: 4px; flex: none; background: #374151; }
+  .meta { flex: 1; min-width: 0; }
+  .title { font-size: 14px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .sub { font-size: 12px; color: #9ca3af; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .now { margin: 0 16px; padding: 12px; border-radius: 10px; background: #1e3a8a; display: flex; align-items: center; gap: 10px; }
+  .empty { padding: 8px 16px; color: #6b7280; font-size: 14px; }
+  #toast { position: fixed; left: 50%; bottom: 24px; transform: translateX(-50%); padding: 10px 16px; border-radius: 999px; background: #059669; font-size: 14px; opacity: 0; transition: opacity .2s; pointer-events: none; }
+  #toast.error { background: #dc2626; }
+  #toast.show { opacity: 1; }
+</style>
+</head>
+<body>
+<header>
+  <h1>AIPC KTV</h1>
+  <input id="singer" type="text" placeholder="Your name" maxlength="40" autocomplete="nickname">
+  <form id="search-form">
+    <input id="query" type="search" placeholder="Search songs" autocomplete="off" enterkeyhint="search">
+    <button type="submit">Search</button>
+  </form>
+</header>
+
+<section id="results-section" hidden>
+  <h2>Results</h2>
+  <ul id="results"></ul>
+</section>
+
+<h2>Now Playing</h2>
+<div id="now-playing" class="empty">Nothing playing</div>
+
+<h2>Up Next <span id="queue-count"></span></h2>
+<ul id="queue"></ul>
+
+<div id="toast"></div>
+
+<script>
+(function () {
+  var params = new URLSearchParams(location.search);
+  if (params.get('token')) {
+    localStorage.setItem('ktv-remote-token', params.get('token'));
+    history.replaceState(null, '', location.pathname);
+  }
+  var token = localStorage.getItem('ktv-remote-token') || '';
+  var canSkip = false;
+
+  // Songs added from this phone are credited to this name
+  var singerInput = document.getElementById('singer');
+  singerInput.value = localStorage.getItem('ktv-remote-singer') || '';
+  singerInput.addEventListener('change', function () {
+    localStorage.setItem('ktv-remote-singer', singerInput.value.trim());
+  });
+
+  function api(method, path, body) {
+    return fetch(path, {
+      method: method,
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer ' + token },
+      body: body ? JSON.stringify(body) : undefined,
+    }).then(function (res) {
+      return res.json().then(function (data) {
+        if (!res.ok) throw new Error(data.message || data.error || ('HTTP ' + res.status));
+        return data;
+      });
+    });
+  }
+
+  function toast(text, isError) {
+    var el = document.getElementById('toast');
+    el.textContent = text;
+    el.className = 'show' + (isError ? ' error' : '');
+    clearTimeout(toast.timer);
+    toast.timer = setTimeout(function () { el.className = ''; }, 2000);
+  }
+
+  function formatDuration(seconds) {
+    if (!seconds) return '';
+    var m = Math.floor(seconds / 60), s = Math.floor(seconds % 60);
+    return m + ':' + (s < 10 ? '0' : '') + s;
+  }
+
+  // Build a song row with textContent only: titles come from YouTube
+  function songRow(song, action) {
+    var li = document.createElement('li');
+    var img = document.createElement('img');
+    img.src = song.thumbnail || '';
+    img.alt = '';
+    var meta = document.createElement('div');
+    meta.className = 'meta';
+    var title = document.createElement('div');
+    title.className = 'title';
+    title.textContent = song.title;
+    var sub = document.createElement('div');
+    sub.className = 'sub';
+    sub.textContent = [song.singer ? '🎤 ' + song.singer.name : '', song.channel, formatDuration(song.duration)]
+      .filter(Boolean).join(' · ');
+    meta.appendChild(title);
+    meta.appendChild(sub);
+    li.appendChild(img);
+    li.appendChild(meta);
+    if (action) li.appendChild(action);
+    return li;
+  }
+
+  function renderQueue(state) {
+    var now = document.getElementById('now-playing');
+    now.textContent = '';
+    if (state.currentSong) {
+      now.className = 'now';
+      var row = songRow(state.currentSong, null);
+      while (row.firstChild) now.appendChild(row.firstChild);
+      if (canSkip) {
+        var skip = document.createElement('button');
+        skip.className = 'skip';
+        skip.textContent = '切歌';
+        skip.onclick = function () {
+          api('POST', '/api/player/skip', {}).then(function () { toast('Skipped'); }, function (err) { toast(err.message, true); });
+        };
+        now.appendChild(skip);
+      }
+    } else {
+      now.className = 'empty';
+      now.textContent = 'Nothing playing';
+    }
+
+    var list = document.getElementById('queue');
+    list.textContent = '';
+    var songs = state.upcomingSongs || [];
+    document.getElementById('queue-count').textContent = songs.length ? '(' + songs.length + ')' : '';
+    if (songs.length === 0) {
+      var empty = document.createElement('li');
+      empty.className = 'empty';
+      empty.textContent = 'The queue is empty. Search for a song to add one.';
+      list.appendChild(empty);
+    }
+    songs.forEach(function (song) { list.appendChild(songRow(song, null)); });
+  }
+
+  function addSong(song, button) {
+    button.disabled = true;
+    var body = { videoId: song.videoId, title: song.title, channel: song.channel, duration: song.duration };
+    var singer = singerInput.value.trim();
+    if (singer) body.singer = singer;
+    api('POST', '/api/queue/add', body).then(function (data) {
+      button.textContent = 'Added';
+      if (data.pending) {
+        button.textContent = 'Requested';
+        toast('Sent to the host for approval: ' + song.title);
+        return;
+      }
+      toast(data.duplicate ? 'Added again: ' + data.duplicate.message : 'Added: ' + song.title);
+    }, function (err) {
+      button.disabled = false;
+      toast(err.message, true);
+    });
+  }
+
+  document.getElementById('search-form').addEventListener('submit', function (e) {
+    e.preventDefault();
+    var input = document.getElementById('query');
+    var query = input.value.trim();
+    if (!query) return;
+    input.blur();
+    api('POST', '/api/search', { query: query, maxResults: 10 }).then(function (data) {
+      var list = document.getElementById('results');
+      list.textContent = '';
+      document.getElementById('results-section').hidden = false;
+      if (data.results.length === 0) {
+        var empty = document.createElement('li');
+        empty.className = 'empty';
+        empty.textContent = 'No results';
+        list.appendChild(empty);
+      }
+      data.results.forEach(function (song) {
+        var button = document.createElement('button');
+        button.textContent = 'Add';
+        button.onclick = function () { addSong(song, button); };
+        list.appendChild(songRow(song, button));
+      });
+    }, function (err) { toast(err.message, true); });
+  });
+
+  function connect() {
+    var events = new EventSource('/api/events?types=queue-changed&access_token=' + encodeURIComponent(token));
+    events.addEventListener('queue-changed', function (e) {
+      renderQueue(JSON.parse(e.data).data);
+    });
+  }
+
+  api('GET', '/api/whoami').then(function (me) {
+    canSkip = me.scopes.indexOf('skip') >= 0 || me.scopes.indexOf('admin') >= 0;
+    return api('GET', '/api/queue');
+  }).then(function (state) {
+    renderQueue(state);
+    connect();
+  }, function (err) {
+    toast(token ? err.message : 'Open the link shared by the host', true);
+  });
+})();
+</script>
+</body>
+</html>
+`
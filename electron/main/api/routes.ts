@@ -0,0 +1,1250 @@
+import { PlaybackState } from '../../../src/shared/types'
+import type {
+  AddCheck, ApiToken, DuplicateCheck, HistoryEntry, HistoryQuery, ImportedPlaylistResult, KtvEventType, PendingSong, Playlist,
+  PlaylistCommand, PlaylistFormat,
+  PlaylistSummary, PlayerStateInfo, QueuePosition, RejectedSong, RoomTimer, Singer, Song,
+} from '../../../src/shared/types'
+import { estimateQueue } from '../../../src/shared/eta'
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE, normalizePlaybackRate } from '../../../src/shared/playbackRate'
+import { extendRoom, roomStatus } from '../../../src/shared/roomTimer'
+import {
+  detectPlaylistFormat, exportPlaylists, parsePlaylists, playlistFilename, PlaylistFileError,
+} from '../../../src/shared/playlistFormats'
+import { hasScope } from './auth'
+import { KTV_EVENT_TYPES } from './events'
+import type { EventHub } from './events'
+import type { PlayerStateTracker } from './player'
+import { resolveSeekTarget } from './player'
+import type { ApiRequestContext, ApiResult, ApiRoute } from './registry'
+import { REMOTE_PAGE_HTML } from './remotePage'
+import { buildOpenApiDocument } from './schema'
+import type { JsonSchema } from './schema'
+
+export interface QueueSnapshot {
+  currentSong: Song | null
+  upcomingSongs: Song[]
+  playbackState: string
+  rotationMode?: boolean
+  hostMode?: boolean
+  queueLocked?: boolean
+  pendingSongs?: PendingSong[]
+  roomTimer?: RoomTimer | null
+}
+
+/** Everything the built-in routes need from the main process */
+export interface BuiltinRouteDeps {
+  appVersion: string
+  apiPort: number
+  getQueueState: () => QueueSnapshot
+  isDisplayOpen: () => boolean
+  /** Open the display window unless it is already open */
+  openDisplay: () => Promise<void>
+  /** Send to the display window; `false` if it isn't open */
+  sendToDisplay: (channel: string, ...args: unknown[]) => boolean
+  /** Send a queue command to the control window, which owns the queue store */
+  sendToRenderer: (channel: string, ...args: unknown[]) => void
+  searchYouTube: (query: string, maxResults?: number) => Promise<Song[]>
+  playlistCommand: <T>(command: PlaylistCommand) => Promise<T>
+  /** Undo or redo the last queue edit in the control window; the step's label, or null if there was none */
+  queueUndo: (action: 'undo' | 'redo') => Promise<string | null>
+  /** Check a song against the control window's request limits and duplicate policy */
+  checkAdd: (song: Song) => Promise<AddCheck>
+  /** Play history, kept by the control window */
+  historyQuery: (query: HistoryQuery) => Promise<HistoryEntry[]>
+  /** Singer profile with this name, created by the control window if new */
+  resolveSinger: (name: string) => Promise<Singer>
+  eventHub: EventHub
+  playerState: PlayerStateTracker
+  mcpServer: { handle: (message: unknown, token: ApiToken, context: ApiRequestContext) => Promise<object | null> }
+  /** Every registered route, for the OpenAPI document */
+  listRoutes: () => readonly ApiRoute[]
+}
+
+// Shared OpenAPI component schemas
+export const apiComponents: Record<string, JsonSchema> = {
+  Song: {
+    type: 'object',
+    required: ['videoId', 'title', 'channel', 'thumbnail', 'duration'],
+    properties: {
+      videoId: { type: 'string' },
+      title: { type: 'string' },
+      channel: { type: 'string' },
+      thumbnail: { type: 'string' },
+      duration: { type: 'number', description: 'Duration in seconds (0 if unknown)' },
+      entryId: { type: 'string', description: 'Queue entry ID; target for remove/move/play-next' },
+      singer: { $ref: '#/components/schemas/Singer' },
+    },
+  },
+  Singer: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      color: { type: 'string', description: 'CSS colour' },
+      avatar: { type: 'string', description: 'Emoji or short text' },
+    },
+  },
+  PlayerState: {
+    type: 'object',
+    properties: {
+      state: { type: 'string', enum: ['idle', 'playing', 'paused', 'loading', 'error'] },
+      currentTime: { type: 'number', description: 'Seconds' },
+      duration: { type: 'number', description: 'Seconds (0 if unknown)' },
+      volume: { type: 'integer' },
+      isMuted: { type: 'boolean' },
+      videoId: { type: 'string' },
+      playbackRate: { type: 'number', description: '1 is normal speed' },
+    },
+  },
+  PlaylistSummary: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      songCount: { type: 'integer' },
+      createdAt: { type: 'integer', description: 'Unix time in milliseconds' },
+    },
+  },
+  Playlist: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      songs: { type: 'array', items: { $ref: '#/components/schemas/Song' } },
+      createdAt: { type: 'integer', description: 'Unix time in milliseconds' },
+    },
+  },
+  HistoryEntry: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      song: { $ref: '#/components/schemas/Song' },
+      startedAt: { type: 'integer', description: 'Unix time in milliseconds' },
+      endedAt: { type: 'integer', description: 'Unix time in milliseconds; null while playing' },
+      endReason: { type: 'string', enum: ['completed', 'skipped'], description: 'null while playing' },
+    },
+  },
+  Queue: {
+    type: 'object',
+    properties: {
+      currentSong: { $ref: '#/components/schemas/Song' },
+      upcomingSongs: { type: 'array', items: { $ref: '#/components/schemas/Song' } },
+      rotationMode: { type: 'boolean', description: 'Upcoming songs are interleaved by singer' },
+      hostMode: { type: 'boolean', description: 'Songs added by anyone but the host token wait for the host to approve them' },
+      queueLocked: { type: 'boolean', description: 'Only the host token can reorder, remove or clear entries' },
+      pending: {
+        type: 'array',
+        description: 'Songs waiting for approval, oldest first',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            song: { $ref: '#/components/schemas/Song' },
+            position: { type: 'string', enum: ['end', 'next', 'now'] },
+            requestedBy: { type: 'string', description: 'Name of the token that asked' },
+            requestedAt: { type: 'integer', description: 'Unix time in milliseconds' },
+          },
+        },
+      },
+      eta: {
+        type: 'object',
+        description: 'Estimates assuming songs play back to back; unknown durations count as 4 minutes',
+        properties: {
+          remaining: { type: 'number', description: 'Seconds until the whole queue has been sung' },
+          endsAt: { type: 'integer', description: 'Unix time in milliseconds' },
+          unknownDurations: { type: 'integer', description: 'Songs whose duration is still being looked up' },
+          upcoming: {
+            type: 'array',
+            description: 'One per upcoming song, in queue order',
+            items: {
+              type: 'object',
+              properties: {
+                entryId: { type: 'string' },
+                startsIn: { type: 'number', description: 'Seconds from now' },
+                startsAt: { type: 'integer', description: 'Unix time in milliseconds' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+}
+
+const SONG_REF: JsonSchema = { $ref: '#/components/schemas/Song' }
+/** Renderer command that queues a song at each position */
+const QUEUE_CHANNELS: Record<QueuePosition, string> = {
+  end: 'api-add-song',
+  next: 'api-play-next',
+  now: 'api-play-now',
+}
+
+/** Response of the routes that queue a new song */
+const QUEUED: JsonSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    song: SONG_REF,
+    pending: { type: 'boolean', description: 'Host mode is on: the song waits for approval (status 202)' },
+    duplicate: {
+      type: 'object',
+      description: 'Present when the song was already queued or recently sung, and the duplicate policy only warns',
+      properties: {
+        reason: { type: 'string', enum: ['playing', 'queued', 'recently-sung'] },
+        message: { type: 'string' },
+      },
+    },
+  },
+}
+const EMPTY_BODY: JsonSchema = { type: 'object', additionalProperties: false }
+const SUCCESS: JsonSchema = { type: 'object', properties: { success: { type: 'boolean' } } }
+const PLAYER_RESULT: JsonSchema = {
+  type: 'object',
+  properties: { success: { type: 'boolean' }, player: { $ref: '#/components/schemas/PlayerState' } },
+}
+const ROOM: JsonSchema = {
+  type: 'object',
+  properties: {
+    room: {
+      type: 'object',
+      description: 'Null when no room timer is running',
+      properties: {
+        startedAt: { type: 'number' },
+        endsAt: { type: 'number' },
+        warnMinutes: { type: 'number', description: 'The last song is announced this many minutes before the end' },
+        remaining: { type: 'number', description: 'Seconds left; 0 once expired' },
+        phase: { type: 'string', enum: ['running', 'last-song', 'expired'] },
+      },
+    },
+  },
+}
+const PLAYLIST_ID: JsonSchema = { type: 'string', minLength: 1, maxLength: 64, description: 'Playlist ID from GET /api/playlists' }
+const PLAYLIST_NAME: JsonSchema = { type: 'string', minLength: 1, maxLength: 100 }
+const PLAYLIST_RESULT: JsonSchema = {
+  type: 'object',
+  properties: { success: { type: 'boolean' }, playlist: { $ref: '#/components/schemas/Playlist' } },
+}
+const PLAYLIST_FORMAT: JsonSchema = { type: 'string', enum: ['json', 'm3u', 'csv'] }
+const ENTRY_ID: JsonSchema = { type: 'string', minLength: 1, maxLength: 64, description: 'Queue entry ID from GET /api/queue' }
+
+// Body fields shared by routes that queue a new song
+const SONG_INPUT: Record<string, JsonSchema> = {
+  videoId: { type: 'string', pattern: '^[A-Za-z0-9_-]{1,64}$', description: 'YouTube video ID' },
+  title: { type: 'string', maxLength: 300 },
+  channel: { type: 'string', maxLength: 300 },
+  duration: { type: 'number', minimum: 0, description: 'Duration in seconds' },
+  query: { type: 'string', minLength: 1, maxLength: 200, description: 'Search query; the top result is queued' },
+}
+
+const SINGER_NAME: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: 40,
+  pattern: '\\S',
+  description: 'Who is singing; matched to a singer profile by name, or creates one',
+}
+
+function playlistNotFound(playlistId: string): ApiResult {
+  return { status: 404, data: { error: 'Playlist not found', playlistId } }
+}
+
+/**
+ * The built-in Skill API routes. Electron-specific pieces come in through
+ * `deps`, so tests can serve the real routes against fakes.
+ */
+export function createBuiltinRoutes(deps: BuiltinRouteDeps): ApiRoute[] {
+  const {
+    getQueueState, isDisplayOpen, openDisplay, sendToDisplay, sendToRenderer,
+    searchYouTube, playlistCommand, queueUndo, checkAdd, historyQuery, resolveSinger, eventHub, playerState, mcpServer, listRoutes, appVersion, apiPort,
+  } = deps
+
+  /** Build a song from a videoId body, or search for `query` and take the top hit */
+  async function resolveSongInput(body: any): Promise<Song | ApiResult> {
+    if (body.videoId) {
+      return {
+        videoId: body.videoId,
+        title: body.title || 'YouTube Video',
+        channel: body.channel || '',
+        thumbnail: `https://i.ytimg.com/vi/${body.videoId}/hqdefault.jpg`,
+        duration: body.duration || 0,
+      }
+    }
+    const results = await searchYouTube(body.query, 1)
+    if (results.length === 0) {
+      return { status: 404, data: { error: 'No results found', query: body.query } }
+    }
+    return results[0]
+  }
+
+  /**
+   * `resolveSongInput`, credited to `body.singer` when given and checked
+   * against the request limits and the duplicate policy. Songs over a limit
+   * and rejected duplicates get `409`; allowed duplicates come back with the
+   * `duplicate` warning for the response.
+   */
+  async function resolveQueueInput(body: any): Promise<{ song: Song; duplicate?: DuplicateCheck['duplicate'] } | ApiResult> {
+    let song = await resolveSongInput(body)
+    if ('status' in song) return song
+    if (body.singer) song = { ...song, singer: await resolveSinger(body.singer.trim()) }
+
+    const { rejected, duplicate, limit } = await checkAdd(song)
+    if (rejected && limit) {
+      return { status: 409, data: { error: 'Limit reached', reason: limit.reason, message: limit.message, song } }
+    }
+    if (rejected && duplicate) {
+      return { status: 409, data: { error: 'Duplicate song', reason: duplicate.reason, message: duplicate.message, song } }
+    }
+    return duplicate ? { song, duplicate } : { song }
+  }
+
+  /** `423` while the host has locked the queue; only the host's own token gets through */
+  function lockedQueue(token: ApiToken): ApiResult | null {
+    if (!getQueueState().queueLocked || token.host) return null
+    return { status: 423, data: { error: 'Queue locked', message: 'The host has locked the queue' } }
+  }
+
+  /**
+   * Queue a resolved song at `position`, or in host mode hand a guest's song
+   * to the host for approval (`202`). The host's own token adds directly.
+   */
+  async function queueOrRequest(input: { song: Song }, position: QueuePosition, token: ApiToken): Promise<ApiResult> {
+    if (getQueueState().hostMode && !token.host) {
+      sendToRenderer('api-request-song', input.song, position, token.name)
+      return { status: 202, data: { success: true, pending: true, ...input } }
+    }
+    sendToRenderer(QUEUE_CHANNELS[position], input.song)
+    await openDisplay()
+    return { status: 200, data: { success: true, ...input } }
+  }
+
+  /**
+   * Forward a transport command to the display, then wait for the display to
+   * report the state it should lead to. Times out to the last known state.
+   */
+  async function playerCommand(
+    command: string,
+    args: unknown[],
+    expect: (state: PlayerStateInfo) => boolean
+  ): Promise<ApiResult> {
+    if (!isDisplayOpen()) {
+      return { status: 409, data: { error: 'Display window not open' } }
+    }
+    sendToDisplay('youtube-player-control', command, ...args)
+    const player = await playerState.waitFor(expect)
+    return { status: 200, data: { success: true, player } }
+  }
+
+  /**
+   * Look up an upcoming entry for remove/move. The current song is not in
+   * the upcoming list; skip it instead.
+   */
+  function findUpcomingEntry(entryId: string): { index: number } | ApiResult {
+    if (getQueueState().currentSong?.entryId === entryId) {
+      return {
+        status: 409,
+        data: { error: 'Entry is playing', message: 'Use /api/player/skip for the current song', entryId },
+      }
+    }
+    const index = getQueueState().upcomingSongs.findIndex(s => s.entryId === entryId)
+    if (index === -1) {
+      return { status: 404, data: { error: 'Entry not found', entryId } }
+    }
+    return { index }
+  }
+
+  return [
+    {
+      method: 'GET',
+      path: '/remote',
+      summary: 'Phone remote web app (open with ?token=<guest token>)',
+      scope: null,
+      tags: ['meta'],
+      response: { type: 'string', description: 'text/html' },
+      handler: ({ res }) => {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-cache' })
+        res.end(REMOTE_PAGE_HTML)
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/openapi.json',
+      summary: 'This OpenAPI document',
+      scope: null,
+      tags: ['meta'],
+      handler: () => ({
+        status: 200,
+        data: buildOpenApiDocument([...listRoutes()], {
+          title: 'AIPC KTV Skill API',
+          version: appVersion,
+          serverUrl: `http://127.0.0.1:${apiPort}`,
+        }, apiComponents),
+      }),
+    },
+    {
+      method: 'GET',
+      path: '/api/whoami',
+      summary: 'Name and scopes of the calling token',
+      scope: 'read',
+      tags: ['meta'],
+      response: {
+        type: 'object',
+        properties: { name: { type: 'string' }, scopes: { type: 'array', items: { type: 'string' } } },
+      },
+      handler: ({ token }) => ({ status: 200, data: { name: token!.name, scopes: token!.scopes } }),
+    },
+    {
+      method: 'GET',
+      path: '/api/status',
+      summary: 'Current song, queue and playback state',
+      scope: 'read',
+      tags: ['queue'],
+      response: {
+        type: 'object',
+        properties: {
+          currentSong: SONG_REF,
+          upcomingSongs: { type: 'array', items: SONG_REF },
+          playbackState: { type: 'string' },
+          queueLength: { type: 'integer' },
+          displayWindowOpen: { type: 'boolean' },
+        },
+      },
+      handler: () => ({
+        status: 200,
+        data: {
+          currentSong: getQueueState().currentSong,
+          upcomingSongs: getQueueState().upcomingSongs,
+          playbackState: getQueueState().playbackState,
+          queueLength: getQueueState().upcomingSongs.length,
+          displayWindowOpen: isDisplayOpen(),
+        },
+      }),
+    },
+    {
+      method: 'GET',
+      path: '/api/events',
+      summary: 'Server-Sent Events stream of song, queue, playback, volume and display events',
+      scope: 'read',
+      tags: ['events'],
+      query: [{
+        name: 'types',
+        description: 'Comma-separated event types to receive (default: all)',
+        schema: { type: 'string' },
+      }],
+      response: {
+        type: 'string',
+        description: 'text/event-stream of `{ id, type, data, timestamp }` events. For `playback-state`, ' +
+          '`data` is `{ playbackState }`: idle, loading, playing, paused or error',
+      },
+      handler: ({ res, url, token }) => {
+        const requested = url.searchParams.get('types')?.split(',').filter(Boolean)
+        const invalid = requested?.filter(t => !KTV_EVENT_TYPES.includes(t as KtvEventType))
+        if (invalid?.length) {
+          return { status: 400, data: { error: 'Unknown event types', invalid, valid: KTV_EVENT_TYPES } }
+        }
+        eventHub.subscribe(res, (requested as KtvEventType[] | undefined) ?? null, [{
+          type: 'queue-changed',
+          data: { currentSong: getQueueState().currentSong, upcomingSongs: getQueueState().upcomingSongs },
+        }], token!.id)
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/queue',
+      summary: 'List the current song and upcoming queue',
+      scope: 'read',
+      tags: ['queue'],
+      response: { $ref: '#/components/schemas/Queue' },
+      handler: () => {
+        const { currentSong, upcomingSongs, rotationMode, hostMode, queueLocked, pendingSongs } = getQueueState()
+        const player = playerState.get()
+        const elapsed = currentSong && player.videoId === currentSong.videoId ? player.currentTime : 0
+        const { startsIn, remaining, unknownDurations } = estimateQueue(currentSong, upcomingSongs, elapsed)
+        const now = Date.now()
+        return {
+          status: 200,
+          data: {
+            currentSong,
+            upcomingSongs,
+            rotationMode: rotationMode ?? false,
+            hostMode: hostMode ?? false,
+            queueLocked: queueLocked ?? false,
+            pending: pendingSongs ?? [],
+            eta: {
+              remaining,
+              endsAt: now + remaining * 1000,
+              unknownDurations,
+              upcoming: upcomingSongs.map((song, i) => ({
+                entryId: song.entryId,
+                startsIn: startsIn[i],
+                startsAt: now + startsIn[i] * 1000,
+              })),
+            },
+          },
+        }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/add',
+      summary: 'Add a song by videoId, or queue the top search result for query',
+      scope: 'queue-add',
+      tags: ['queue'],
+      body: {
+        type: 'object',
+        properties: {
+          ...SONG_INPUT,
+          singer: SINGER_NAME,
+          position: {
+            type: 'string',
+            enum: ['end', 'next', 'now'],
+            default: 'end',
+            description: "'next' plays it after the current song (插歌), 'now' interrupts the current song; both need the admin scope",
+          },
+        },
+        additionalProperties: false,
+        anyOf: [
+          { required: ['videoId'], description: 'videoId is required' },
+          { required: ['query'], description: 'query is required' },
+        ],
+      },
+      response: QUEUED,
+      handler: async ({ body, token }) => {
+        const position: QueuePosition = body.position ?? 'end'
+        // Jumping the queue is for the host, like /api/queue/play-next
+        if (position !== 'end' && !hasScope(token!, 'admin')) {
+          return {
+            status: 403,
+            data: { error: 'Forbidden', message: `position '${position}' needs the 'admin' scope`, requiredScope: 'admin' },
+          }
+        }
+
+        const input = await resolveQueueInput(body)
+        if ('status' in input) return input
+        return queueOrRequest(input, position, token!)
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/clear',
+      summary: 'Clear the current song and queue',
+      scope: 'admin',
+      tags: ['queue'],
+      body: EMPTY_BODY,
+      response: SUCCESS,
+      handler: ({ token }) => {
+        const locked = lockedQueue(token!)
+        if (locked) return locked
+        sendToRenderer('api-clear-queue')
+        return { status: 200, data: { success: true } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/remove',
+      summary: 'Remove an upcoming entry',
+      scope: 'admin',
+      tags: ['queue'],
+      body: {
+        type: 'object',
+        required: ['entryId'],
+        properties: { entryId: ENTRY_ID },
+        additionalProperties: false,
+      },
+      response: { type: 'object', properties: { success: { type: 'boolean' }, song: SONG_REF } },
+      handler: ({ body, token }) => {
+        const locked = lockedQueue(token!)
+        if (locked) return locked
+        const found = findUpcomingEntry(body.entryId)
+        if ('status' in found) return found
+        sendToRenderer('api-remove-song', body.entryId)
+        return { status: 200, data: { success: true, song: getQueueState().upcomingSongs[found.index] } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/move',
+      summary: 'Move an upcoming entry to a new position (0 = next up)',
+      scope: 'admin',
+      tags: ['queue'],
+      body: {
+        type: 'object',
+        required: ['entryId', 'toIndex'],
+        properties: {
+          entryId: ENTRY_ID,
+          toIndex: { type: 'integer', minimum: 0, description: 'Target index in upcomingSongs; clamped to the end' },
+        },
+        additionalProperties: false,
+      },
+      response: {
+        type: 'object',
+        properties: { success: { type: 'boolean' }, fromIndex: { type: 'integer' }, toIndex: { type: 'integer' } },
+      },
+      handler: ({ body, token }) => {
+        const locked = lockedQueue(token!)
+        if (locked) return locked
+        const found = findUpcomingEntry(body.entryId)
+        if ('status' in found) return found
+        const toIndex = Math.min(body.toIndex, getQueueState().upcomingSongs.length - 1)
+        sendToRenderer('api-move-song', body.entryId, toIndex)
+        return { status: 200, data: { success: true, fromIndex: found.index, toIndex } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/play-next',
+      summary: 'Queue a song directly after the current one (插歌), or move an existing entry there',
+      scope: 'admin',
+      tags: ['queue'],
+      body: {
+        type: 'object',
+        properties: { ...SONG_INPUT, singer: SINGER_NAME, entryId: ENTRY_ID },
+        additionalProperties: false,
+        anyOf: [
+          { required: ['videoId'], description: 'videoId is required' },
+          { required: ['query'], description: 'query is required' },
+          { required: ['entryId'], description: 'entryId is required' },
+        ],
+      },
+      response: QUEUED,
+      handler: async ({ body, token }) => {
+        if (body.entryId) {
+          const locked = lockedQueue(token!)
+          if (locked) return locked
+          const found = findUpcomingEntry(body.entryId)
+          if ('status' in found) return found
+          sendToRenderer('api-move-song', body.entryId, 0)
+          return { status: 200, data: { success: true, song: getQueueState().upcomingSongs[found.index] } }
+        }
+
+        const input = await resolveQueueInput(body)
+        if ('status' in input) return input
+        return queueOrRequest(input, 'next', token!)
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/shuffle',
+      summary: 'Shuffle the upcoming songs',
+      scope: 'admin',
+      tags: ['queue'],
+      body: EMPTY_BODY,
+      response: SUCCESS,
+      handler: ({ token }) => {
+        const locked = lockedQueue(token!)
+        if (locked) return locked
+        sendToRenderer('api-shuffle-queue')
+        return { status: 200, data: { success: true } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/rotation',
+      summary: 'Turn fair rotation (interleave upcoming songs by singer) on or off',
+      scope: 'admin',
+      tags: ['queue'],
+      body: {
+        type: 'object',
+        required: ['enabled'],
+        properties: { enabled: { type: 'boolean' } },
+        additionalProperties: false,
+      },
+      response: { type: 'object', properties: { success: { type: 'boolean' }, rotationMode: { type: 'boolean' } } },
+      handler: ({ body, token }) => {
+        const locked = lockedQueue(token!)
+        if (locked) return locked
+        sendToRenderer('api-set-rotation', body.enabled)
+        return { status: 200, data: { success: true, rotationMode: body.enabled } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/undo',
+      summary: 'Undo the last queue edit (add, remove, clear, move, shuffle or playlist load)',
+      scope: 'admin',
+      tags: ['queue'],
+      body: EMPTY_BODY,
+      response: { type: 'object', properties: { success: { type: 'boolean' }, undone: { type: 'string' } } },
+      handler: async ({ token }) => {
+        const locked = lockedQueue(token!)
+        if (locked) return locked
+        const label = await queueUndo('undo')
+        if (label === null) return { status: 409, data: { error: 'Nothing to undo' } }
+        return { status: 200, data: { success: true, undone: label } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/queue/redo',
+      summary: 'Redo the last undone queue edit',
+      scope: 'admin',
+      tags: ['queue'],
+      body: EMPTY_BODY,
+      response: { type: 'object', properties: { success: { type: 'boolean' }, redone: { type: 'string' } } },
+      handler: async ({ token }) => {
+        const locked = lockedQueue(token!)
+        if (locked) return locked
+        const label = await queueUndo('redo')
+        if (label === null) return { status: 409, data: { error: 'Nothing to redo' } }
+        return { status: 200, data: { success: true, redone: label } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/search',
+      summary: 'Search YouTube without queueing anything',
+      scope: 'read',
+      tags: ['search'],
+      body: {
+        type: 'object',
+        required: ['query'],
+        properties: {
+          query: { type: 'string', minLength: 1, maxLength: 200 },
+          maxResults: { type: 'integer', minimum: 1, maximum: 25, default: 5 },
+        },
+        additionalProperties: false,
+      },
+      response: { type: 'object', properties: { results: { type: 'array', items: SONG_REF } } },
+      handler: async ({ body }) => {
+        const results = await searchYouTube(body.query, body.maxResults || 5)
+        return { status: 200, data: { results } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/player/skip',
+      summary: 'Skip the current song',
+      scope: 'skip',
+      tags: ['player'],
+      body: EMPTY_BODY,
+      response: SUCCESS,
+      handler: () => {
+        sendToRenderer('api-skip-song')
+        return { status: 200, data: { success: true } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/player/volume',
+      summary: 'Set the player volume',
+      scope: 'admin',
+      tags: ['player'],
+      body: {
+        type: 'object',
+        properties: {
+          volume: { type: 'integer', minimum: 0, maximum: 100, default: 100 },
+        },
+        additionalProperties: false,
+      },
+      response: { type: 'object', properties: { success: { type: 'boolean' }, volume: { type: 'integer' } } },
+      handler: ({ body }) => {
+        const volume = body.volume ?? 100
+        if (sendToDisplay('youtube-player-control', 'set-volume', volume)) {
+          eventHub.publish('volume-changed', { volume })
+        }
+        return { status: 200, data: { success: true, volume } }
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/history',
+      summary: 'Songs played, newest first, with singer, source playlist and how each ended',
+      scope: 'read',
+      tags: ['history'],
+      query: [
+        { name: 'date', description: 'Only songs started on this day (YYYY-MM-DD, local time)', schema: { type: 'string' } },
+        { name: 'limit', description: 'Maximum entries (1-1000, default 50)', schema: { type: 'integer' } },
+      ],
+      response: {
+        type: 'object',
+        properties: { history: { type: 'array', items: { $ref: '#/components/schemas/HistoryEntry' } } },
+      },
+      handler: async ({ url }) => {
+        const date = url.searchParams.get('date') ?? undefined
+        const limit = Number(url.searchParams.get('limit') ?? 50)
+        if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          return { status: 400, data: { error: 'Invalid date', message: 'Use YYYY-MM-DD' } }
+        }
+        if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+          return { status: 400, data: { error: 'Invalid limit', message: 'Use an integer from 1 to 1000' } }
+        }
+        return { status: 200, data: { history: await historyQuery({ date, limit }) } }
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/room',
+      summary: 'Time left on the room timer; once it expires no more songs are queued',
+      scope: 'read',
+      tags: ['room'],
+      response: ROOM,
+      handler: () => {
+        const timer = getQueueState().roomTimer
+        return { status: 200, data: { room: timer ? roomStatus(timer) : null } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/room/extend',
+      summary: 'Add time to the room timer (from now, if it has expired)',
+      scope: 'admin',
+      tags: ['room'],
+      body: {
+        type: 'object',
+        required: ['minutes'],
+        properties: { minutes: { type: 'integer', minimum: 1, maximum: 720 } },
+        additionalProperties: false,
+      },
+      response: ROOM,
+      handler: ({ body }) => {
+        const timer = getQueueState().roomTimer
+        if (!timer) return { status: 409, data: { error: 'No room timer', message: 'The host has not started a room timer' } }
+        sendToRenderer('api-room-extend', body.minutes)
+        return { status: 200, data: { room: roomStatus(extendRoom(timer, body.minutes)) } }
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/playlists',
+      summary: 'List saved playlists (without their songs)',
+      scope: 'read',
+      tags: ['playlists'],
+      response: {
+        type: 'object',
+        properties: { playlists: { type: 'array', items: { $ref: '#/components/schemas/PlaylistSummary' } } },
+      },
+      handler: async () => {
+        const playlists = await playlistCommand<PlaylistSummary[]>({ action: 'list' })
+        return { status: 200, data: { playlists } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/get',
+      summary: 'Get a playlist with its songs',
+      scope: 'read',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        required: ['playlistId'],
+        properties: { playlistId: PLAYLIST_ID },
+        additionalProperties: false,
+      },
+      response: { type: 'object', properties: { playlist: { $ref: '#/components/schemas/Playlist' } } },
+      handler: async ({ body }) => {
+        const playlist = await playlistCommand<Playlist | null>({ action: 'get', playlistId: body.playlistId })
+        if (!playlist) return playlistNotFound(body.playlistId)
+        return { status: 200, data: { playlist } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/create',
+      summary: 'Create a playlist, optionally from the current queue',
+      scope: 'admin',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: PLAYLIST_NAME,
+          fromQueue: { type: 'boolean', default: false, description: 'Start with the current song and queue' },
+        },
+        additionalProperties: false,
+      },
+      response: PLAYLIST_RESULT,
+      handler: async ({ body }) => {
+        const songs = body.fromQueue
+          ? [getQueueState().currentSong, ...getQueueState().upcomingSongs].filter((s): s is Song => !!s)
+          : []
+        const playlist = await playlistCommand<Playlist>({ action: 'create', name: body.name, songs })
+        return { status: 200, data: { success: true, playlist } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/rename',
+      summary: 'Rename a playlist',
+      scope: 'admin',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        required: ['playlistId', 'name'],
+        properties: { playlistId: PLAYLIST_ID, name: PLAYLIST_NAME },
+        additionalProperties: false,
+      },
+      response: PLAYLIST_RESULT,
+      handler: async ({ body }) => {
+        const playlist = await playlistCommand<Playlist | null>({
+          action: 'rename', playlistId: body.playlistId, name: body.name,
+        })
+        if (!playlist) return playlistNotFound(body.playlistId)
+        return { status: 200, data: { success: true, playlist } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/delete',
+      summary: 'Delete a playlist',
+      scope: 'admin',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        required: ['playlistId'],
+        properties: { playlistId: PLAYLIST_ID },
+        additionalProperties: false,
+      },
+      response: SUCCESS,
+      handler: async ({ body }) => {
+        const playlist = await playlistCommand<Playlist | null>({ action: 'delete', playlistId: body.playlistId })
+        if (!playlist) return playlistNotFound(body.playlistId)
+        return { status: 200, data: { success: true } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/add-song',
+      summary: 'Append a song (by videoId, or the top search result for query) to a playlist',
+      scope: 'admin',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        required: ['playlistId'],
+        properties: { playlistId: PLAYLIST_ID, ...SONG_INPUT },
+        additionalProperties: false,
+        anyOf: [
+          { required: ['videoId'], description: 'videoId is required' },
+          { required: ['query'], description: 'query is required' },
+        ],
+      },
+      response: PLAYLIST_RESULT,
+      handler: async ({ body }) => {
+        const song = await resolveSongInput(body)
+        if ('status' in song) return song
+        const playlist = await playlistCommand<Playlist | null>({
+          action: 'add-song', playlistId: body.playlistId, song,
+        })
+        if (!playlist) return playlistNotFound(body.playlistId)
+        return { status: 200, data: { success: true, playlist } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/remove-song',
+      summary: 'Remove the song at index from a playlist',
+      scope: 'admin',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        required: ['playlistId', 'index'],
+        properties: { playlistId: PLAYLIST_ID, index: { type: 'integer', minimum: 0 } },
+        additionalProperties: false,
+      },
+      response: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          removed: SONG_REF,
+          playlist: { $ref: '#/components/schemas/Playlist' },
+        },
+      },
+      handler: async ({ body }) => {
+        const before = await playlistCommand<Playlist | null>({ action: 'get', playlistId: body.playlistId })
+        if (!before) return playlistNotFound(body.playlistId)
+        if (body.index >= before.songs.length) {
+          return { status: 404, data: { error: 'Song not found', playlistId: body.playlistId, index: body.index } }
+        }
+        const playlist = await playlistCommand<Playlist | null>({
+          action: 'remove-song', playlistId: body.playlistId, index: body.index,
+        })
+        return { status: 200, data: { success: true, removed: before.songs[body.index], playlist } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/load',
+      summary: 'Queue a playlist, replacing the queue or appending to it',
+      scope: 'admin',
+      tags: ['playlists', 'queue'],
+      body: {
+        type: 'object',
+        required: ['playlistId'],
+        properties: {
+          playlistId: PLAYLIST_ID,
+          mode: { type: 'string', enum: ['append', 'replace'], default: 'append' },
+        },
+        additionalProperties: false,
+      },
+      response: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          playlist: { $ref: '#/components/schemas/PlaylistSummary' },
+          queued: { type: 'integer' },
+          skipped: {
+            type: 'array',
+            description: 'Songs rejected by the add checks (duplicate policy, request limits, room timer)',
+            items: {
+              type: 'object',
+              properties: {
+                videoId: { type: 'string' },
+                title: { type: 'string' },
+                reason: { type: 'string', description: 'Duplicate or limit reason code, e.g. queued or room-time-up' },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      handler: async ({ body, token }) => {
+        // Only the host skips approval, and a playlist can't go through it one song at a time
+        if (getQueueState().hostMode && !token!.host) {
+          return {
+            status: 409,
+            data: { error: 'Host mode', message: 'Playlists can only be loaded from the control window in host mode' },
+          }
+        }
+        if (body.mode === 'replace') {
+          const locked = lockedQueue(token!)
+          if (locked) return locked
+        }
+        const result = await playlistCommand<{ playlist: PlaylistSummary; queued: number; skipped: RejectedSong[] } | null>({
+          action: 'load', playlistId: body.playlistId, replace: body.mode === 'replace',
+        })
+        if (!result) return playlistNotFound(body.playlistId)
+        await openDisplay()
+        return { status: 200, data: { success: true, ...result } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/export',
+      summary: 'Export one playlist, or all of them, as versioned JSON, M3U (YouTube URLs) or CSV',
+      scope: 'read',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        properties: {
+          playlistId: { ...PLAYLIST_ID, description: 'Omit to export every playlist' },
+          format: { ...PLAYLIST_FORMAT, default: 'json' },
+        },
+        additionalProperties: false,
+      },
+      response: {
+        type: 'object',
+        properties: {
+          format: PLAYLIST_FORMAT,
+          filename: { type: 'string' },
+          content: { type: 'string', description: 'The file contents' },
+        },
+      },
+      handler: async ({ body }) => {
+        const format: PlaylistFormat = body.format ?? 'json'
+        const playlists = await playlistCommand<Playlist[] | null>({ action: 'export', playlistId: body.playlistId })
+        if (!playlists) return playlistNotFound(body.playlistId)
+        const filename = playlistFilename(body.playlistId ? playlists[0].name : null, format)
+        return { status: 200, data: { format, filename, content: exportPlaylists(playlists, format) } }
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/playlists/import',
+      summary: 'Import playlists from a JSON export, M3U or CSV file; invalid rows are skipped and reported',
+      scope: 'admin',
+      tags: ['playlists'],
+      body: {
+        type: 'object',
+        required: ['content'],
+        properties: {
+          content: { type: 'string', minLength: 1, maxLength: 2_000_000, description: 'The file contents' },
+          format: { ...PLAYLIST_FORMAT, description: 'Guessed from filename or content when omitted' },
+          filename: { type: 'string', maxLength: 255 },
+          onCollision: {
+            type: 'string',
+            enum: ['merge', 'duplicate'],
+            default: 'merge',
+            description: 'When a name is taken: add the new songs to that playlist, or import a numbered copy',
+          },
+        },
+        additionalProperties: false,
+      },
+      response: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          playlists: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                added: { type: 'integer', description: 'Songs saved' },
+                merged: { type: 'boolean' },
+              },
+            },
+          },
+          skipped: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                playlist: { type: 'string' },
+                row: { type: 'integer', description: 'Line (M3U, CSV) or song number (JSON); 0 for a whole playlist' },
+                reason: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      handler: async ({ body }) => {
+        let parsed
+        try {
+          parsed = parsePlaylists(body.content, body.format ?? detectPlaylistFormat(body.content, body.filename))
+        } catch (error) {
+          if (!(error instanceof PlaylistFileError)) throw error
+          return { status: 400, data: { error: 'Invalid playlist file', message: error.message } }
+        }
+        const playlists = await playlistCommand<ImportedPlaylistResult[]>({
+          action: 'import', playlists: parsed.playlists, onCollision: body.onCollision ?? 'merge',
+        })
+        return { status: 200, data: { success: true, playlists, skipped: parsed.skipped } }
+      },
+    },
+    {
+      method: 'GET',
+      path: '/api/player',
+      summary: 'Current player state (play/pause, position, volume, mute)',
+      scope: 'read',
+      tags: ['player'],
+      response: { $ref: '#/components/schemas/PlayerState' },
+      handler: () => ({ status: 200, data: playerState.get() }),
+    },
+    {
+      method: 'POST',
+      path: '/api/player/pause',
+      summary: 'Pause playback',
+      scope: 'admin',
+      tags: ['player'],
+      body: EMPTY_BODY,
+      response: PLAYER_RESULT,
+      handler: () => playerCommand('pause-video', [], s => s.state === PlaybackState.PAUSED),
+    },
+    {
+      method: 'POST',
+      path: '/api/player/resume',
+      summary: 'Resume paused playback',
+      scope: 'admin',
+      tags: ['player'],
+      body: EMPTY_BODY,
+      response: PLAYER_RESULT,
+      handler: () => playerCommand('play-video', [], s => s.state === PlaybackState.PLAYING),
+    },
+    {
+      method: 'POST',
+      path: '/api/player/seek',
+      summary: 'Seek to an absolute position, or by an offset from the current one',
+      scope: 'admin',
+      tags: ['player'],
+      body: {
+        type: 'object',
+        properties: {
+          position: { type: 'number', minimum: 0, description: 'Seconds from the start' },
+          offset: { type: 'number', description: 'Seconds relative to the current position (negative rewinds)' },
+        },
+        additionalProperties: false,
+        anyOf: [
+          { required: ['position'], description: 'position is required' },
+          { required: ['offset'], description: 'offset is required' },
+        ],
+      },
+      response: PLAYER_RESULT,
+      handler: ({ body }) => {
+        const target = resolveSeekTarget(playerState.get(), body)
+        return playerCommand('seek-to', [target], s => Math.abs(s.currentTime - target) < 2)
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/player/rate',
+      summary: 'Set the playback speed for practice; the display remembers it per song',
+      scope: 'admin',
+      tags: ['player'],
+      body: {
+        type: 'object',
+        required: ['rate'],
+        properties: {
+          rate: {
+            type: 'number',
+            minimum: MIN_PLAYBACK_RATE,
+            maximum: MAX_PLAYBACK_RATE,
+            description: 'Snapped to the nearest of 0.5, 0.75, 1, 1.25 and 1.5',
+          },
+        },
+        additionalProperties: false,
+      },
+      response: PLAYER_RESULT,
+      handler: ({ body }) => {
+        const rate = normalizePlaybackRate(body.rate)
+        return playerCommand('set-playback-rate', [rate], s => s.playbackRate === rate)
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/player/mute',
+      summary: 'Mute or unmute; toggles when muted is omitted',
+      scope: 'admin',
+      tags: ['player'],
+      body: {
+        type: 'object',
+        properties: { muted: { type: 'boolean' } },
+        additionalProperties: false,
+      },
+      response: PLAYER_RESULT,
+      handler: ({ body }) => {
+        const muted: boolean = body.muted ?? !playerState.get().isMuted
+        return playerCommand(muted ? 'mute' : 'unmute', [], s => s.isMuted === muted)
+      },
+    },
+    {
+      method: 'POST',
+      path: '/api/player/replay',
+      summary: 'Restart the current song from the beginning',
+      scope: 'admin',
+      tags: ['player'],
+      body: EMPTY_BODY,
+      response: PLAYER_RESULT,
+      handler: async () => {
+        if (!getQueueState().currentSong) {
+          return { status: 409, data: { error: 'Nothing is playing' } }
+        }
+        sendToDisplay('youtube-player-control', 'seek-to', 0)
+        return playerCommand('play-video', [], s => s.state === PlaybackState.PLAYING && s.currentTime < 2)
+      },
+    },
+    {
+      method: 'POST',
+      path: '/mcp',
+      summary: 'Model Context Protocol endpoint (streamable HTTP, JSON responses)',
+      scope: 'read',
+      tags: ['mcp'],
+      response: { type: 'object', description: 'JSON-RPC 2.0 response' },
+      handler: async (ctx) => {
+        const reply = await mcpServer.handle(ctx.body, ctx.token!, ctx)
+        if (!reply) {
+          ctx.res.writeHead(202, { 'Access-Control-Allow-Origin': '*' })
+          ctx.res.end()
+          return
+        }
+        return { status: 200, data: reply }
+      },
+    },
+    {
+      method: 'GET',
+      path: '/mcp',
+      summary: 'Not supported: this MCP server does not open server-initiated streams',
+      scope: 'read',
+      tags: ['mcp'],
+      handler: () => ({ status: 405, data: { error: 'Method not allowed', message: 'POST JSON-RPC messages to /mcp' } }),
+    },
+  ]
+}
@@ -0,0 +1,223 @@
+import type { ApiScope } from '../../../src/shared/types'
+
+/**
+ * The subset of JSON Schema used to describe Skill API bodies. It is
+ * emitted as-is into the OpenAPI document and enforced by `validate`.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  items?: JsonSchema
+  enum?: (string | number)[]
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  default?: unknown
+  /** At least one branch must validate (used for "videoId or query") */
+  anyOf?: JsonSchema[]
+  $ref?: string
+}
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export interface ApiQueryParam {
+  name: string
+  description: string
+  schema: JsonSchema
+}
+
+/**
+ * Metadata for a Skill API route: enough to authorize, validate and
+ * document it.
+ */
+export interface ApiRouteSpec {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  path: string
+  summary: string
+  /** Scope the caller's token needs; `null` for unauthenticated routes */
+  scope: ApiScope | null
+  tags?: string[]
+  body?: JsonSchema
+  query?: ApiQueryParam[]
+  /** Schema of the 200 response */
+  response?: JsonSchema
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  const actual = typeOf(value)
+  if (schema.type === 'number') return actual === 'number' || actual === 'integer'
+  return actual === schema.type
+}
+
+/** Validate `value` against `schema`, returning every problem found */
+export function validate(schema: JsonSchema, value: unknown, path = 'body'): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  if (schema.type && !matchesType(schema, value)) {
+    return [{ path, message: `must be ${schema.type === 'integer' ? 'an integer' : `of type ${schema.type}`}` }]
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.join(', ')}` })
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` })
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` })
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` })
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` })
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` })
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => issues.push(...validate(schema.items!, item, `${path}[${i}]`)))
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) issues.push({ path: `${path}.${key}`, message: 'is required' })
+    }
+    for (const [key, propValue] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key]
+      if (propSchema) {
+        if (propValue !== undefined) issues.push(...validate(propSchema, propValue, `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: 'is not allowed' })
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(branch => validate(branch, value, path).length === 0)) {
+    const options = schema.anyOf.map(branch => branch.description ?? JSON.stringify(branch)).join(' | ')
+    issues.push({ path, message: `must satisfy one of: ${options}` })
+  }
+
+  return issues
+}
+
+/** Convert route paths (`/a/:id`) to OpenAPI templates (`/a/{id}`) */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}')
+}
+
+/**
+ * Build an OpenAPI 3.1 document from route specs. `components` holds shared
+ * schemas referenced as `#/components/schemas/<name>`.
+ */
+export function buildOpenApiDocument(
+  routes: ApiRouteSpec[],
+  info: { title: string; version: string; serverUrl: string },
+  components: Record<string, JsonSchema> = {}
+) {
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const route of routes) {
+    const pathItem = (paths[toOpenApiPath(route.path)] ??= {})
+    const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(m => ({
+      name: m[1], in: 'path', required: true, schema: { type: 'string' },
+    }))
+    const queryParams = (route.query ?? []).map(q => ({
+      name: q.name, in: 'query', required: false, description: q.description, schema: q.schema,
+    }))
+
+    pathItem[route.method.toLowerCase()] = {
+      operationId: operationId(route),
+      summary: route.summary,
+      tags: route.tags,
+      ...(route.scope ? { security: [{ bearerAuth: [] }], 'x-required-scope': route.scope } : { security: [] }),
+      ...(pathParams.length || queryParams.length ? { parameters: [...pathParams, ...queryParams] } : {}),
+      ...(route.body ? {
+        requestBody: {
+          required: !!(route.body.required?.length || route.body.anyOf),
+          content: { 'application/json': { schema: route.body } },
+        },
+      } : {}),
+      responses: {
+        200: {
+          description: 'Success',
+          content: { 'application/json': { schema: route.response ?? { type: 'object' } } },
+        },
+        ...(route.body ? { 400: errorResponse('Invalid request body') } : {}),
+        ...(route.scope ? {
+          401: errorResponse('Missing or invalid bearer token'),
+          403: errorResponse('Token lacks the required scope'),
+        } : {}),
+      },
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: info.title, version: info.version },
+    servers: [{ url: info.serverUrl }],
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' },
+            issues: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { path: { type: 'string' }, message: { type: 'string' } },
+              },
+            },
+          },
+        },
+        ...components,
+      },
+    },
+  }
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  }
+}
+
+/** `POST /api/queue/add` → `postQueueAdd` */
+export function operationId(route: Pick<ApiRouteSpec, 'method' | 'path'>): string {
+  const words = route.path
+    .replace(/^\/api\//, '')
+    .split(/[/_.-]/)
+    .filter(Boolean)
+    .map(w => w.replace(/^:/, 'by-'))
+    .flatMap(w => w.split('-'))
+  return route.method.toLowerCase() + words.map(w => w[0].toUpperCase() + w.slice(1)).join('')
+}
@@ -0,0 +1,52 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { RemoteSettings } from '../../../src/shared/types'
+
+export interface StoredRemoteSettings extends RemoteSettings {
+  /** Token handed to phone remote guests (created on demand) */
+  guestTokenId: string | null
+}
+
+const DEFAULT_SETTINGS: StoredRemoteSettings = {
+  lanAccess: false,
+  guestSkip: false,
+  cornerQr: false,
+  guestTokenId: null,
+}
+
+export type RemoteSettingsStore = ReturnType<typeof createRemoteSettingsStore>
+
+/**
+ * Phone remote settings, persisted as JSON (normally
+ * `{userData}/remote-settings.json`)
+ */
+export function createRemoteSettingsStore(filePath: string) {
+  let settings: StoredRemoteSettings = load()
+
+  function load(): StoredRemoteSettings {
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      return {
+        lanAccess: data.lanAccess === true,
+        guestSkip: data.guestSkip === true,
+        cornerQr: data.cornerQr === true,
+        guestTokenId: typeof data.guestTokenId === 'string' ? data.guestTokenId : null,
+      }
+    } catch {
+      return { ...DEFAULT_SETTINGS }
+    }
+  }
+
+  return {
+    get(): StoredRemoteSettings {
+      return settings
+    },
+
+    update(patch: Partial<StoredRemoteSettings>): StoredRemoteSettings {
+      settings = { ...settings, ...patch }
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, JSON.stringify(settings, null, 2), 'utf-8')
+      return settings
+    },
+  }
+}
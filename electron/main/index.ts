@@ -5,7 +5,25 @@ import path from 'node:path'
 import os from 'node:os'
 import fs from 'node:fs'
 import http from 'node:http'
+import QRCode from 'qrcode'
 import { update } from './update'
+import { createTokenStore, isApiScope } from './api/auth'
+import { createRendererBridge } from './api/bridge'
+import { createDurationBackfill } from './api/durations'
+import { createEventHub, diffQueueState, entryKey } from './api/events'
+import { createMcpServer, toolRequest } from './api/mcp'
+import { createPlayerStateTracker } from './api/player'
+import { loadPlugins } from './api/plugins'
+import { createRouteRegistry } from './api/registry'
+import type { ApiRequestContext, ApiResult } from './api/registry'
+import { createBuiltinRoutes } from './api/routes'
+import { createRemoteSettingsStore } from './api/settings'
+import { getLanAddress } from './api/network'
+import type {
+  AddCheck, ApiScope, ApiToken, HistoryEntry, HistoryQuery, JoinInfo, PlaylistCommand, RemoteInfo, RemoteSettings, Singer,
+  RoomTimer, SessionSummary, UpNext,
+} from '../../src/shared/types'
+import { estimateQueue } from '../../src/shared/eta'
 
 const require = createRequire(import.meta.url)
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
@@ -56,6 +74,10 @@ const preload = path.join(__dirname, '../preload/index.mjs')
 const indexHtml = path.join(RENDERER_DIST, 'index.html')
 const displayHtml = path.join(RENDERER_DIST, 'display.html')
 
+// Skill API event stream, fed by the window lifecycle and IPC flows below
+const eventHub = createEventHub()
+const playerState = createPlayerStateTracker()
+
 async function createWindow() {
   win = new BrowserWindow({
     title: 'AIPC KTV - Control',
@@ -159,8 +181,12 @@ async function createDisplayWindow() {
 
   displayWin.on('closed', () => {
     displayWin = null
+    playerState.reset()
+    eventHub.publish('display-closed', {})
   })
 
+  eventHub.publish('display-opened', { fullscreen: !!displayConfig.fullscreen })
+
   return displayWin
 }
 
@@ -254,7 +280,7 @@ ipcMain.handle('youtube-player-control', (_, command: string, ...args: any[]) =>
 
   const validCommands = [
     'play-video', 'pause-video', 'stop-video', 'seek-to', 
-    'set-volume', 'mute', 'unmute', 'get-player-state',
+    'set-volume', 'set-playback-rate', 'mute', 'unmute', 'get-player-state',
     'load-video', 'queue-update', 'next-song'
   ]
   
@@ -285,30 +311,37 @@ ipcMain.handle('youtube-player-control', (_, command: string, ...args: any[]) =>
 
 // Enhanced bidirectional message forwarding for real-time sync
 ipcMain.on('video-ended', () => {
+  if (queueState.currentSong) {
+    endedSongId = entryKey(queueState.currentSong)!
+    eventHub.publish('song-ended', { song: queueState.currentSong, reason: 'completed' })
+  }
   if (win && !win.isDestroyed()) {
     win.webContents.send('video-ended')
   }
 })
 
 ipcMain.on('player-state-changed', (_, stateData) => {
+  playerState.update(stateData)
   if (win && !win.isDestroyed()) {
     win.webContents.send('player-state-changed', stateData)
   }
 })
 
-ipcMain.on('player-state-response', (_, data) => {
+ipcMain.on('player-state-response', (_, requestId, data) => {
   if (win && !win.isDestroyed()) {
-    win.webContents.send('player-state-response', data)
+    win.webContents.send('player-state-response', requestId, data)
   }
 })
 
 ipcMain.on('playback-progress', (_, progressData) => {
+  playerState.update(progressData)
   if (win && !win.isDestroyed()) {
     win.webContents.send('playback-progress', progressData)
   }
 })
 
 ipcMain.on('volume-changed', (_, volumeData) => {
+  eventHub.publish('volume-changed', volumeData)
   if (win && !win.isDestroyed()) {
     win.webContents.send('volume-changed', volumeData)
   }
@@ -369,6 +402,9 @@ interface SongData {
   channel: string
   thumbnail: string
   duration: number
+  /** Per-occurrence queue ID assigned by the renderer's queue store */
+  entryId?: string
+  singer?: Singer
 }
 
 // Main-process queue state (SSoT for both renderer and API)
@@ -376,29 +412,147 @@ let queueState = {
   currentSong: null as SongData | null,
   upcomingSongs: [] as SongData[],
   playbackState: 'idle' as string,
+  roomTimer: null as RoomTimer | null,
 }
 
+// Entry whose song-ended event was already sent by video-ended
+let endedSongId: string | null = null
+
 // Sync queue state from renderer
 ipcMain.on('queue-state-sync', (_, state) => {
+  const prev = queueState
   queueState = state
+
+  // A current song replaced before video-ended fired was skipped (or cleared)
+  if (prev.currentSong && entryKey(prev.currentSong) !== entryKey(state.currentSong)) {
+    if (endedSongId !== entryKey(prev.currentSong)) {
+      eventHub.publish('song-ended', { song: prev.currentSong, reason: 'skipped' })
+    }
+    endedSongId = null
+  }
+  for (const { type, data } of diffQueueState(prev, state)) {
+    eventHub.publish(type, data)
+  }
+
+  // The display shows who is singing; it also asks on load (now-singing)
+  const singer = state.currentSong?.singer ?? null
+  if (JSON.stringify(singer) !== JSON.stringify(prev.currentSong?.singer ?? null)) {
+    if (displayWin && !displayWin.isDestroyed()) {
+      displayWin.webContents.send('now-singing-changed', singer)
+    }
+  }
+
+  // ...and the room timer (room-timer)
+  const roomTimer = state.roomTimer ?? null
+  if (JSON.stringify(roomTimer) !== JSON.stringify(prev.roomTimer ?? null)) {
+    if (displayWin && !displayWin.isDestroyed()) {
+      displayWin.webContents.send('room-timer-changed', roomTimer)
+    }
+  }
+
+  // ...and what's up next, with estimated start times (up-next)
+  if (displayWin && !displayWin.isDestroyed()) {
+    displayWin.webContents.send('up-next-changed', upNext())
+  }
+
+  durationBackfill.backfill(state.currentSong ? [state.currentSong, ...state.upcomingSongs] : state.upcomingSongs)
 })
 
-// Add song from API → notify renderer
-function apiAddSong(song: SongData) {
-  if (win && !win.isDestroyed()) {
-    win.webContents.send('api-add-song', song)
+ipcMain.handle('now-singing', () => queueState.currentSong?.singer ?? null)
+
+ipcMain.handle('up-next', () => upNext())
+
+ipcMain.handle('room-timer', () => queueState.roomTimer ?? null)
+
+// The next few songs for the display, with estimated start times
+const UP_NEXT_COUNT = 3
+
+function upNext(): UpNext {
+  const { currentSong, upcomingSongs } = queueState
+  const player = playerState.get()
+  const elapsed = currentSong && player.videoId === currentSong.videoId ? player.currentTime : 0
+  const { startsIn, remaining } = estimateQueue(currentSong, upcomingSongs, elapsed)
+  const now = Date.now()
+  return {
+    songs: upcomingSongs.slice(0, UP_NEXT_COUNT).map((song, i) => ({
+      title: song.title,
+      singer: song.singer ?? null,
+      startsAt: now + startsIn[i] * 1000,
+    })),
+    more: Math.max(0, upcomingSongs.length - UP_NEXT_COUNT),
+    endsAt: now + remaining * 1000,
   }
 }
 
-// Skip song from API → notify renderer
-function apiSkipSong() {
+// End-of-session summary the host put on the display; kept here so it
+// survives the display reloading for the next song (session-summary)
+let sessionSummary: SessionSummary | null = null
+
+ipcMain.on('session-summary-show', (_, summary: SessionSummary | null) => {
+  sessionSummary = summary
+  if (displayWin && !displayWin.isDestroyed()) {
+    displayWin.webContents.send('session-summary-changed', summary)
+  }
+})
+
+ipcMain.handle('session-summary', () => sessionSummary)
+
+// Durations for songs queued without one (webview clicks, videoId-only API adds)
+const durationBackfill = createDurationBackfill({
+  fetchDuration: async (videoId) => {
+    // Searching for the ID finds the video itself, with its length
+    // A failed search throws, so the backfill tries again later instead of giving up
+    const results = await searchYouTube(videoId, 5, true)
+    return results.find(r => r.videoId === videoId)?.duration ?? 0
+  },
+  onDuration: (videoId, duration) => {
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('song-duration', videoId, duration)
+    }
+  },
+})
+
+// Send a queue command from the API to the renderer, which owns the queue store
+function sendToRenderer(channel: string, ...args: unknown[]) {
   if (win && !win.isDestroyed()) {
-    win.webContents.send('api-skip-song')
+    win.webContents.send(channel, ...args)
   }
 }
 
+// Requests that need an answer from the renderer (playlists live in its store)
+const rendererBridge = createRendererBridge((channel, requestId, ...args) => {
+  if (!win || win.isDestroyed()) return false
+  win.webContents.send(channel, requestId, ...args)
+  return true
+})
+
+ipcMain.on('api-response', (_, requestId: string, result: unknown) => {
+  rendererBridge.respond(requestId, result)
+})
+
+function playlistCommand<T>(command: PlaylistCommand): Promise<T> {
+  return rendererBridge.request<T>('api-playlist', command)
+}
+
+function queueUndo(action: 'undo' | 'redo'): Promise<string | null> {
+  return rendererBridge.request<string | null>('api-queue-undo', action)
+}
+
+function checkAdd(song: SongData): Promise<AddCheck> {
+  return rendererBridge.request<AddCheck>('api-add-check', song)
+}
+
+function historyQuery(query: HistoryQuery): Promise<HistoryEntry[]> {
+  return rendererBridge.request<HistoryEntry[]>('api-history', query)
+}
+
+function resolveSinger(name: string): Promise<Singer> {
+  return rendererBridge.request<Singer>('api-singer', name)
+}
+
 // YouTube search via InnerTube API (no API key needed, handles CJK properly)
-async function searchYouTube(query: string, maxResults = 5): Promise<SongData[]> {
+// Finds nothing when the request fails, unless `rethrow` is set
+async function searchYouTube(query: string, maxResults = 5, rethrow = false): Promise<SongData[]> {
   try {
     const res = await fetch('https://www.youtube.com/youtubei/v1/search', {
       method: 'POST',
@@ -415,7 +569,7 @@ async function searchYouTube(query: string, maxResults = 5): Promise<SongData[]>
         query,
       }),
     })
-    if (!res.ok) return []
+    if (!res.ok) throw new Error(`YouTube search failed: ${res.status}`)
 
     const data = await res.json() as any
     const sections = data?.contents?.twoColumnSearchResultsRenderer?.primaryContents
@@ -447,150 +601,199 @@ async function searchYouTube(query: string, maxResults = 5): Promise<SongData[]>
       }
     }
     return results
-  } catch {
+  } catch (error) {
+    if (rethrow) throw error
     return []
   }
 }
 
-// Parse JSON body from request
-function parseBody(req: http.IncomingMessage): Promise<any> {
-  return new Promise((resolve, reject) => {
-    let body = ''
-    req.on('data', (chunk: string) => { body += chunk })
-    req.on('end', () => {
-      try { resolve(body ? JSON.parse(body) : {}) }
-      catch { reject(new Error('Invalid JSON')) }
-    })
-    req.on('error', reject)
-  })
+// Bearer tokens for Skill API clients ({userData}/api-tokens.json)
+const tokenStore = createTokenStore(path.join(app.getPath('userData'), 'api-tokens.json'))
+
+ipcMain.handle('api-token-list', () => tokenStore.list())
+
+ipcMain.handle('api-token-create', (_, name: string, scopes: ApiScope[]) => {
+  if (!name || !Array.isArray(scopes) || !scopes.every(isApiScope)) {
+    return { success: false, error: 'Provide a name and valid scopes' }
+  }
+  return { success: true, token: tokenStore.create(name, scopes) }
+})
+
+ipcMain.handle('api-token-rotate', (_, id: string) => {
+  const token = tokenStore.rotate(id)
+  if (!token) return { success: false, error: 'Token not found' }
+  eventHub.disconnectToken(id)
+  if (id === remoteSettings.get().guestTokenId) broadcastJoinInfo()
+  return { success: true, token }
+})
+
+ipcMain.handle('api-token-revoke', (_, id: string) => {
+  if (!tokenStore.revoke(id)) return { success: false, error: 'Token not found' }
+  eventHub.disconnectToken(id)
+  if (id === remoteSettings.get().guestTokenId) broadcastJoinInfo()
+  return { success: true }
+})
+
+// Phone remote: settings plus the guest token embedded in the join link
+const remoteSettings = createRemoteSettingsStore(path.join(app.getPath('userData'), 'remote-settings.json'))
+
+function guestScopes(): ApiScope[] {
+  return remoteSettings.get().guestSkip ? ['queue-add', 'skip'] : ['queue-add']
 }
 
-function jsonResponse(res: http.ServerResponse, status: number, data: any) {
-  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' })
-  res.end(JSON.stringify(data))
+function ensureGuestToken(): ApiToken {
+  const existing = tokenStore.list().find(t => t.id === remoteSettings.get().guestTokenId)
+  if (existing) return existing
+  const token = tokenStore.create('Phone remote guests', guestScopes())
+  remoteSettings.update({ guestTokenId: token.id })
+  return token
 }
 
-const API_PORT = parseInt(process.env.KTV_API_PORT || '18800', 10)
+function getRemoteInfo(): RemoteInfo {
+  const { lanAccess, guestSkip, cornerQr } = remoteSettings.get()
+  const host = lanAccess ? getLanAddress() : '127.0.0.1'
+  const token = ensureGuestToken()
+  return {
+    lanAccess,
+    guestSkip,
+    cornerQr,
+    url: `http://${host}:${API_PORT}/remote?token=${encodeURIComponent(token.token)}`,
+  }
+}
 
-const apiServer = http.createServer(async (req, res) => {
-  // CORS preflight
-  if (req.method === 'OPTIONS') {
-    res.writeHead(204, {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    })
-    return res.end()
+// QR code for the display window, rendered locally (no third-party service)
+async function getJoinInfo(): Promise<JoinInfo> {
+  const { url, lanAccess, cornerQr } = getRemoteInfo()
+  return {
+    url,
+    qrDataUrl: await QRCode.toDataURL(url, { margin: 1, width: 512 }),
+    available: lanAccess,
+    cornerQr,
   }
+}
 
-  const url = new URL(req.url || '/', `http://localhost:${API_PORT}`)
-  const pathname = url.pathname
+async function broadcastJoinInfo() {
+  if (displayWin && !displayWin.isDestroyed()) {
+    displayWin.webContents.send('remote-join-changed', await getJoinInfo())
+  }
+}
 
-  try {
-    // GET /api/status — current state
-    if (req.method === 'GET' && pathname === '/api/status') {
-      return jsonResponse(res, 200, {
-        currentSong: queueState.currentSong,
-        upcomingSongs: queueState.upcomingSongs,
-        playbackState: queueState.playbackState,
-        queueLength: queueState.upcomingSongs.length,
-        displayWindowOpen: !!displayWin,
-      })
-    }
+ipcMain.handle('remote-get-info', () => getRemoteInfo())
 
-    // GET /api/queue — list queue
-    if (req.method === 'GET' && pathname === '/api/queue') {
-      return jsonResponse(res, 200, {
-        currentSong: queueState.currentSong,
-        upcomingSongs: queueState.upcomingSongs,
-      })
-    }
+ipcMain.handle('remote-get-join-info', () => getJoinInfo())
 
-    // POST /api/queue/add — add song by videoId or search query
-    if (req.method === 'POST' && pathname === '/api/queue/add') {
-      const body = await parseBody(req)
-
-      let song: SongData | null = null
-
-      if (body.videoId) {
-        song = {
-          videoId: body.videoId,
-          title: body.title || 'YouTube Video',
-          channel: body.channel || '',
-          thumbnail: `https://i.ytimg.com/vi/${body.videoId}/hqdefault.jpg`,
-          duration: body.duration || 0,
-        }
-      } else if (body.query) {
-        const results = await searchYouTube(body.query, 1)
-        if (results.length > 0) {
-          song = results[0]
-        } else {
-          return jsonResponse(res, 404, { error: 'No results found', query: body.query })
-        }
-      } else {
-        return jsonResponse(res, 400, { error: 'Provide videoId or query' })
-      }
+// New join token: every previously shared link and QR code stops working
+ipcMain.handle('remote-rotate-join-token', () => {
+  const { id } = ensureGuestToken()
+  tokenStore.rotate(id)
+  eventHub.disconnectToken(id)
+  broadcastJoinInfo()
+  return getRemoteInfo()
+})
 
-      apiAddSong(song)
+ipcMain.handle('remote-update-settings', (_, patch: Partial<RemoteSettings>) => {
+  const prev = remoteSettings.get()
+  remoteSettings.update({
+    ...(typeof patch.lanAccess === 'boolean' ? { lanAccess: patch.lanAccess } : {}),
+    ...(typeof patch.guestSkip === 'boolean' ? { guestSkip: patch.guestSkip } : {}),
+    ...(typeof patch.cornerQr === 'boolean' ? { cornerQr: patch.cornerQr } : {}),
+  })
+  tokenStore.setScopes(ensureGuestToken().id, guestScopes())
+  if (prev.lanAccess !== remoteSettings.get().lanAccess) {
+    startApiServer()
+  }
+  broadcastJoinInfo()
+  return getRemoteInfo()
+})
 
-      // Also open display window if not open
-      if (!displayWin) {
-        await createDisplayWindow()
-      }
+const API_PORT = parseInt(process.env.KTV_API_PORT || '18800', 10)
 
-      return jsonResponse(res, 200, { success: true, song })
-    }
+const apiRegistry = createRouteRegistry({
+  authenticate: (req, url) => tokenStore.authenticate(req.headers.authorization)
+    ?? tokenStore.verify(url.searchParams.get('access_token')),
+})
 
-    // POST /api/search — search YouTube, return results without adding
-    if (req.method === 'POST' && pathname === '/api/search') {
-      const body = await parseBody(req)
-      if (!body.query) {
-        return jsonResponse(res, 400, { error: 'Provide query' })
-      }
-      const results = await searchYouTube(body.query, body.maxResults || 5)
-      return jsonResponse(res, 200, { results })
-    }
+// MCP tools are the registered JSON routes (plugins included), run through the same handlers
+const mcpServer = createMcpServer({
+  info: { name: 'aipc-ktv', version: app.getVersion() },
+  listRoutes: () => apiRegistry.routes.filter(r => r.scope && !r.tags?.some(t => ['meta', 'events', 'mcp'].includes(t))),
+  call: async (route, args, ctx: ApiRequestContext) =>
+    (await route.handler({ ...ctx, ...toolRequest(route, args, ctx.url) })) as ApiResult,
+  resources: [
+    {
+      uri: 'ktv://queue',
+      name: 'Queue',
+      description: 'Current song and upcoming queue',
+      read: () => ({ currentSong: queueState.currentSong, upcomingSongs: queueState.upcomingSongs }),
+    },
+    {
+      uri: 'ktv://now-playing',
+      name: 'Now playing',
+      description: 'Current song and player state',
+      read: () => ({ song: queueState.currentSong, player: playerState.get() }),
+    },
+  ],
+})
 
-    // POST /api/player/skip — skip current song
-    if (req.method === 'POST' && pathname === '/api/player/skip') {
-      apiSkipSong()
-      return jsonResponse(res, 200, { success: true })
-    }
+const builtinRoutes = createBuiltinRoutes({
+  appVersion: app.getVersion(),
+  apiPort: API_PORT,
+  getQueueState: () => queueState,
+  isDisplayOpen: () => !!displayWin,
+  openDisplay: async () => {
+    if (!displayWin) await createDisplayWindow()
+  },
+  sendToDisplay: (channel, ...args) => {
+    if (!displayWin) return false
+    displayWin.webContents.send(channel, ...args)
+    return true
+  },
+  sendToRenderer,
+  searchYouTube,
+  playlistCommand,
+  queueUndo,
+  checkAdd,
+  historyQuery,
+  resolveSinger,
+  eventHub,
+  playerState,
+  mcpServer,
+  listRoutes: () => apiRegistry.routes,
+})
+for (const route of builtinRoutes) apiRegistry.register(route)
 
-    // POST /api/player/volume — set volume
-    if (req.method === 'POST' && pathname === '/api/player/volume') {
-      const body = await parseBody(req)
-      if (displayWin) {
-        displayWin.webContents.send('youtube-player-control', 'set-volume', body.volume ?? 100)
-      }
-      return jsonResponse(res, 200, { success: true, volume: body.volume })
-    }
+// User plugins: {userData}/plugins/*.{js,mjs,cjs}, registered under /api/plugins/<name>/
+const pluginDir = path.join(app.getPath('userData'), 'plugins')
 
-    // POST /api/queue/clear — clear queue
-    if (req.method === 'POST' && pathname === '/api/queue/clear') {
-      if (win && !win.isDestroyed()) {
-        win.webContents.send('api-clear-queue')
-      }
-      return jsonResponse(res, 200, { success: true })
-    }
+const apiServer = http.createServer(apiRegistry.handle)
 
-    jsonResponse(res, 404, { error: 'Not found', endpoints: [
-      'GET  /api/status',
-      'GET  /api/queue',
-      'POST /api/queue/add    {videoId,title} or {query}',
-      'POST /api/queue/clear',
-      'POST /api/search       {query, maxResults?}',
-      'POST /api/player/skip',
-      'POST /api/player/volume {volume: 0-100}',
-    ]})
-  } catch (err) {
-    jsonResponse(res, 500, { error: String(err) })
+// (Re)start the Skill API server on loopback, or on all interfaces when
+// the host has enabled LAN access for the phone remote
+function startApiServer() {
+  const host = remoteSettings.get().lanAccess ? '0.0.0.0' : '127.0.0.1'
+  const listen = () => {
+    apiServer.listen(API_PORT, host, () => {
+      console.log(`[KTV API] listening on http://${host}:${API_PORT}`)
+    })
   }
-})
+  if (apiServer.listening) {
+    apiServer.close(listen)
+    apiServer.closeAllConnections()
+  } else {
+    listen()
+  }
+}
 
-// Start Skill API server
-app.whenReady().then(() => {
-  apiServer.listen(API_PORT, '127.0.0.1', () => {
-    console.log(`[KTV API] listening on http://127.0.0.1:${API_PORT}`)
+// Load plugins, then start the Skill API server
+app.whenReady().then(async () => {
+  const results = await loadPlugins(pluginDir, apiRegistry, {
+    getQueueState: () => queueState,
+    addSong: song => sendToRenderer('api-add-song', song),
+    searchYouTube,
   })
+  for (const result of results) {
+    if (result.error) console.error(`[KTV API] plugin ${result.name} failed to load:`, result.error)
+    else console.log(`[KTV API] plugin ${result.name} registered ${result.routes.length} route(s)`)
+  }
+  startApiServer()
 })
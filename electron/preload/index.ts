@@ -36,6 +36,20 @@ contextBridge.exposeInMainWorld('electron', {
   subtitleCache: {
     read: (videoId: string) => ipcRenderer.invoke('subtitle-cache-read', videoId),
     write: (videoId: string, content: string) => ipcRenderer.invoke('subtitle-cache-write', videoId, content),
+  },
+
+  skillApi: {
+    listTokens: () => ipcRenderer.invoke('api-token-list'),
+    createToken: (name: string, scopes: string[]) => ipcRenderer.invoke('api-token-create', name, scopes),
+    rotateToken: (id: string) => ipcRenderer.invoke('api-token-rotate', id),
+    revokeToken: (id: string) => ipcRenderer.invoke('api-token-revoke', id),
+  },
+
+  remote: {
+    getInfo: () => ipcRenderer.invoke('remote-get-info'),
+    updateSettings: (patch: Record<string, boolean>) => ipcRenderer.invoke('remote-update-settings', patch),
+    getJoinInfo: () => ipcRenderer.invoke('remote-get-join-info'),
+    rotateJoinToken: () => ipcRenderer.invoke('remote-rotate-join-token'),
   }
 })
 
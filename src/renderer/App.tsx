@@ -1,11 +1,29 @@
 import { useState, useEffect, useRef } from 'react'
 import { useYouTubePlayer } from './hooks/useYouTubePlayer'
-import { useQueueStore } from './store'
+import { useQueueStore, useSingerStore, useHistoryStore, useModerationStore, useRoomStore } from './store'
 import { PlaybackState } from '../shared/types'
+import { PLAYBACK_RATES, formatPlaybackRate } from '../shared/playbackRate'
+import { formatCountdown } from '../shared/roomTimer'
+import type { HistoryQuery, PlaylistCommand, QueuePosition, Song } from '../shared/types'
+import { runPlaylistCommand } from './services/playlistCommands'
+import { syncPlayerState } from './services/playerStateSync'
+import { useRoomCountdown } from './hooks/useRoomCountdown'
+import { queryHistory } from './store/historyStore'
+import { entryKey } from './store/queueStore'
+import type { PlaybackPosition } from './store/queueStore'
 import YouTubeBrowser from './components/browser/YouTubeBrowser'
 import QueuePanel from './components/queue/QueuePanel'
 import PlaylistPanel from './components/playlist/PlaylistPanel'
 import KonamiGate from './components/konami/KonamiGate'
+import ApiAccessPanel from './components/api/ApiAccessPanel'
+import RemotePanel from './components/api/RemotePanel'
+import SingerPanel from './components/singer/SingerPanel'
+import HistoryPanel from './components/history/HistoryPanel'
+import SessionPanel from './components/session/SessionPanel'
+import HostPanel from './components/host/HostPanel'
+import RoomPanel from './components/room/RoomPanel'
+import UndoToast from './components/queue/UndoToast'
+import SingerBadge from './components/singer/SingerBadge'
 import './App.css'
 
 function App() {
@@ -19,17 +37,28 @@ function App() {
     playVideo,
     pauseVideo,
     stopVideo,
+    seekTo,
     setVolume: setPlayerVolume,
+    setPlaybackRate,
     mute,
     unmute,
+    playerState,
   } = useYouTubePlayer()
 
   const {
     currentSong,
     upcomingSongs,
     playbackState,
+    rotationMode,
     nextSong,
   } = useQueueStore()
+  const { hostMode, queueLocked, pendingSongs } = useModerationStore()
+  const roomTimer = useRoomStore((state) => state.timer)
+  const room = useRoomCountdown(roomTimer)
+
+  // After a crash or restart, offer to pick the song up where it was
+  const [resume, setResume] = useState(() => resumeOffer(useQueueStore.getState()))
+  const pendingSeekRef = useRef<number | null>(null)
 
   // Auto-open display window on mount
   useEffect(() => {
@@ -38,17 +67,76 @@ function App() {
 
   // KEY: When currentSong changes, send play command to Display Window via IPC
   useEffect(() => {
-    if (!currentSong || !isDisplayWindowOpen) return
-    // Only send if song actually changed
-    if (prevSongRef.current === currentSong.videoId) return
-    prevSongRef.current = currentSong.videoId
+    if (!currentSong) {
+      // Queue emptied (cleared, or an add undone): stop what's still showing
+      if (prevSongRef.current && isDisplayWindowOpen) stopVideo()
+      prevSongRef.current = null
+      return
+    }
+    if (!isDisplayWindowOpen) return
+    // Only send if song actually changed (the same video may be queued twice)
+    const entryKey = currentSong.entryId ?? currentSong.videoId
+    if (prevSongRef.current === entryKey) return
+    prevSongRef.current = entryKey
 
     console.log('[Control] Playing video:', currentSong.videoId, currentSong.title)
     // Small delay to ensure display window is ready
     setTimeout(() => {
       playVideo(currentSong.videoId)
     }, 300)
-  }, [currentSong, isDisplayWindowOpen, playVideo])
+  }, [currentSong, isDisplayWindowOpen, playVideo, stopVideo])
+
+  // Seek once the display is playing the resumed song
+  useEffect(() => {
+    const time = pendingSeekRef.current
+    if (time === null || !currentSong) return
+    if (playerState?.videoId !== currentSong.videoId || playerState.state !== PlaybackState.PLAYING) return
+    pendingSeekRef.current = null
+    seekTo(time)
+  }, [currentSong, playerState, seekTo])
+
+  // Checkpoint the display's playback position (persisted with the queue)
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return
+    const { ipcRenderer } = window.electron
+
+    const handleProgress = ({ currentTime }: { currentTime: number }) => {
+      useQueueStore.getState().setPlaybackPosition(currentTime)
+    }
+
+    ipcRenderer.on('playback-progress', handleProgress)
+    return () => {
+      window.electron?.ipcRenderer?.removeAllListeners('playback-progress')
+    }
+  }, [])
+
+  // The queue's playbackState follows the display's player (also feeds the API's playback-state events)
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return
+    return syncPlayerState(window.electron.ipcRenderer)
+  }, [])
+
+  // Play history: a new current song starts an entry, an empty queue ends it
+  useEffect(() => {
+    const { recordStart, recordEnd } = useHistoryStore.getState()
+    if (currentSong) recordStart(currentSong)
+    else recordEnd('skipped')
+  }, [currentSong])
+
+  // Ctrl+Z / Ctrl+Shift+Z (⌘ on macOS) undo and redo queue edits; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+      const target = e.target as HTMLElement | null
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return
+      e.preventDefault()
+      const { undo, redo } = useQueueStore.getState()
+      if (e.shiftKey) redo()
+      else undo()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
 
   // Listen for video-ended from Display Window → auto-advance
   useEffect(() => {
@@ -57,6 +145,7 @@ function App() {
 
     const handleVideoEnded = () => {
       console.log('[Control] Video ended, advancing queue')
+      useHistoryStore.getState().recordEnd('completed')
       nextSong()
     }
 
@@ -73,19 +162,31 @@ function App() {
       currentSong,
       upcomingSongs,
       playbackState,
+      rotationMode,
+      hostMode,
+      queueLocked,
+      pendingSongs,
+      roomTimer,
     })
-  }, [currentSong, upcomingSongs, playbackState])
+  }, [currentSong, upcomingSongs, playbackState, rotationMode, hostMode, queueLocked, pendingSongs, roomTimer])
 
-  // Listen for API commands (add song, skip, clear)
+  // Listen for API commands (add, request, skip, clear, remove, move, play next/now, shuffle, rotation, room time)
+  // and for durations the main process looked up
   useEffect(() => {
     if (!window.electron?.ipcRenderer) return
     const { ipcRenderer } = window.electron
-    const { addSong, clearQueue } = useQueueStore.getState()
+    const {
+      addSong, clearQueue, insertNext, playNow, removeEntry, moveEntry, shuffleQueue, setRotationMode,
+    } = useQueueStore.getState()
 
     const handleApiAdd = (song: any) => {
       console.log('[API] Adding song:', song.title)
       addSong(song)
     }
+    const handleApiRequest = (song: Song, position: QueuePosition, requestedBy: string) => {
+      console.log('[API] Song request from', requestedBy, ':', song.title)
+      useModerationStore.getState().requestSong(song, position, requestedBy)
+    }
     const handleApiSkip = () => {
       console.log('[API] Skip requested')
       stopVideo()
@@ -96,17 +197,109 @@ function App() {
       stopVideo()
       clearQueue()
     }
+    const handleApiRemove = (entryId: string) => {
+      console.log('[API] Remove entry:', entryId)
+      removeEntry(entryId)
+    }
+    const handleApiMove = (entryId: string, toIndex: number) => {
+      console.log('[API] Move entry:', entryId, '→', toIndex)
+      moveEntry(entryId, toIndex)
+    }
+    const handleApiPlayNext = (song: Song) => {
+      console.log('[API] Play next:', song.title)
+      insertNext(song)
+    }
+    const handleSongDuration = (videoId: string, duration: number) => {
+      useQueueStore.getState().setDuration(videoId, duration)
+    }
+    const handleApiPlayNow = (song: Song) => {
+      console.log('[API] Play now:', song.title)
+      playNow(song)
+    }
+    const handleApiShuffle = () => {
+      console.log('[API] Shuffle queue')
+      shuffleQueue()
+    }
+    const handleApiRotation = (enabled: boolean) => {
+      console.log('[API] Fair rotation:', enabled ? 'on' : 'off')
+      setRotationMode(enabled)
+    }
+    const handleApiRoomExtend = (minutes: number) => {
+      console.log('[API] Extend room by', minutes, 'min')
+      useRoomStore.getState().extendTimer(minutes)
+    }
 
     ipcRenderer.on('api-add-song', handleApiAdd)
+    ipcRenderer.on('api-request-song', handleApiRequest)
     ipcRenderer.on('api-skip-song', handleApiSkip)
     ipcRenderer.on('api-clear-queue', handleApiClear)
+    ipcRenderer.on('api-remove-song', handleApiRemove)
+    ipcRenderer.on('api-move-song', handleApiMove)
+    ipcRenderer.on('api-play-next', handleApiPlayNext)
+    ipcRenderer.on('api-play-now', handleApiPlayNow)
+    ipcRenderer.on('song-duration', handleSongDuration)
+    ipcRenderer.on('api-shuffle-queue', handleApiShuffle)
+    ipcRenderer.on('api-set-rotation', handleApiRotation)
+    ipcRenderer.on('api-room-extend', handleApiRoomExtend)
     return () => {
       ipcRenderer.removeAllListeners('api-add-song')
+      ipcRenderer.removeAllListeners('api-request-song')
       ipcRenderer.removeAllListeners('api-skip-song')
       ipcRenderer.removeAllListeners('api-clear-queue')
+      ipcRenderer.removeAllListeners('api-remove-song')
+      ipcRenderer.removeAllListeners('api-move-song')
+      ipcRenderer.removeAllListeners('api-play-next')
+      ipcRenderer.removeAllListeners('api-play-now')
+      ipcRenderer.removeAllListeners('song-duration')
+      ipcRenderer.removeAllListeners('api-shuffle-queue')
+      ipcRenderer.removeAllListeners('api-set-rotation')
+      ipcRenderer.removeAllListeners('api-room-extend')
     }
   }, [nextSong, stopVideo])
 
+  // Answer playlist, undo, add-check, history and singer requests from the Skill API
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return
+    const { ipcRenderer } = window.electron
+
+    const handleApiPlaylist = (requestId: string, command: PlaylistCommand) => {
+      console.log('[API] Playlist command:', command.action)
+      ipcRenderer.send('api-response', requestId, runPlaylistCommand(command))
+    }
+
+    const handleApiUndo = (requestId: string, action: 'undo' | 'redo') => {
+      console.log('[API] Queue', action)
+      const { undo, redo } = useQueueStore.getState()
+      ipcRenderer.send('api-response', requestId, action === 'undo' ? undo() : redo())
+    }
+
+    const handleApiAddCheck = (requestId: string, song: Song) => {
+      ipcRenderer.send('api-response', requestId, useQueueStore.getState().checkAdd(song))
+    }
+
+    const handleApiHistory = (requestId: string, query: HistoryQuery) => {
+      ipcRenderer.send('api-response', requestId, queryHistory(useHistoryStore.getState().entries, query))
+    }
+
+    // Skill API callers name a singer; match it to a profile or create one
+    const handleApiSinger = (requestId: string, name: string) => {
+      ipcRenderer.send('api-response', requestId, useSingerStore.getState().findOrCreateSinger(name))
+    }
+
+    ipcRenderer.on('api-playlist', handleApiPlaylist)
+    ipcRenderer.on('api-singer', handleApiSinger)
+    ipcRenderer.on('api-history', handleApiHistory)
+    ipcRenderer.on('api-queue-undo', handleApiUndo)
+    ipcRenderer.on('api-add-check', handleApiAddCheck)
+    return () => {
+      ipcRenderer.removeAllListeners('api-playlist')
+      ipcRenderer.removeAllListeners('api-singer')
+      ipcRenderer.removeAllListeners('api-history')
+      ipcRenderer.removeAllListeners('api-queue-undo')
+      ipcRenderer.removeAllListeners('api-add-check')
+    }
+  }, [])
+
   const handleVolumeChange = (newVolume: number) => {
     setVolume(newVolume)
     setPlayerVolume(newVolume)
@@ -125,6 +318,17 @@ function App() {
         <div className="flex items-center justify-between">
           <h1 className="text-xl font-bold text-blue-600">AIPC KTV</h1>
           <div className="flex items-center gap-2">
+            {room && (
+              <div
+                title={room.phase === 'last-song' ? 'The next song is the last one' : room.phase === 'expired' ? 'Room time is up' : 'Room time left'}
+                className={`px-2 py-0.5 rounded-full text-xs font-mono font-medium ${
+                  room.phase === 'running' ? 'bg-gray-100 text-gray-800' :
+                  room.phase === 'last-song' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'
+                }`}
+              >
+                ⏱ {formatCountdown(room.remaining)}
+              </div>
+            )}
             <div className={`px-2 py-0.5 rounded-full text-xs font-medium ${
               playbackState === PlaybackState.PLAYING ? 'bg-green-100 text-green-800' :
               playbackState === PlaybackState.PAUSED ? 'bg-yellow-100 text-yellow-800' :
@@ -146,6 +350,33 @@ function App() {
           </div>
         </div>
 
+        {/* The offer only holds for the song it was made for */}
+        {resume && currentSong && entryKey(currentSong) === resume.entry && (
+          <div className="flex items-center gap-2 mt-2 px-3 py-1.5 rounded bg-blue-50 text-sm text-blue-900">
+            <span className="flex-1 truncate">Resume {currentSong.title} where it stopped?</span>
+            <button
+              onClick={() => {
+                setResume(null)
+                if (playerState?.videoId === currentSong.videoId && playerState.state === PlaybackState.PLAYING) {
+                  seekTo(resume.time)
+                } else {
+                  pendingSeekRef.current = resume.time
+                  if (!isDisplayWindowOpen) openDisplayWindow()
+                }
+              }}
+              className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 shrink-0"
+            >
+              Resume at {formatTime(resume.time)}
+            </button>
+            <button
+              onClick={() => setResume(null)}
+              className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-200 rounded shrink-0"
+            >
+              Start over
+            </button>
+          </div>
+        )}
+
         {/* Now Playing bar */}
         {currentSong && (
           <div className="flex items-center gap-3 mt-2 pt-2 border-t">
@@ -154,6 +385,9 @@ function App() {
               <p className="text-sm font-medium truncate">{currentSong.title}</p>
               <p className="text-xs text-gray-500 truncate">{currentSong.channel}</p>
             </div>
+            {currentSong.singer && (
+              <SingerBadge singer={currentSong.singer} className="shrink-0 max-w-[8rem]" />
+            )}
             <div className="flex items-center gap-1">
               <button onClick={() => playVideo()}
                 className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
@@ -179,6 +413,18 @@ function App() {
                 className="w-16" disabled={!isDisplayWindowOpen} />
               <span className="text-xs text-gray-400 w-7">{volume}%</span>
             </div>
+            {/* Practice speed; the display remembers it per song */}
+            <select
+              value={playerState?.playbackRate ?? 1}
+              onChange={(e) => setPlaybackRate(Number(e.target.value))}
+              disabled={!isDisplayWindowOpen}
+              title="Playback speed"
+              className="text-xs border border-gray-200 rounded bg-white disabled:opacity-50"
+            >
+              {PLAYBACK_RATES.map((rate) => (
+                <option key={rate} value={rate}>{formatPlaybackRate(rate)}</option>
+              ))}
+            </select>
             {upcomingSongs.length > 0 && (
               <span className="text-xs text-gray-400">Next: {upcomingSongs[0].title.slice(0, 20)}...</span>
             )}
@@ -194,14 +440,49 @@ function App() {
 
         {/* Right: Queue + Playlists sidebar */}
         <div className="w-80 border-l bg-gray-50 overflow-y-auto p-3 space-y-4">
+          <SingerPanel />
+          <hr />
           <QueuePanel />
           <hr />
+          <HostPanel />
+          <hr />
+          <RoomPanel />
+          <hr />
           <PlaylistPanel />
+          <hr />
+          <SessionPanel />
+          <hr />
+          <HistoryPanel />
+          <hr />
+          <RemotePanel />
+          <hr />
+          <ApiAccessPanel />
         </div>
       </main>
+      <UndoToast />
     </div>
     </KonamiGate>
   )
 }
 
+// Skip offering to resume within this many seconds of either end of a song
+const RESUME_MARGIN_SECONDS = 10
+
+// Where to resume the current song, if a checkpoint was saved for it
+function resumeOffer({ currentSong, playbackPosition }: {
+  currentSong: Song | null
+  playbackPosition: PlaybackPosition | null
+}): PlaybackPosition | null {
+  if (!currentSong || !playbackPosition || playbackPosition.entry !== entryKey(currentSong)) return null
+  const { entry, time } = playbackPosition
+  if (time < RESUME_MARGIN_SECONDS) return null
+  if (currentSong.duration > 0 && time > currentSong.duration - RESUME_MARGIN_SECONDS) return null
+  return { entry, time: Math.floor(time) }
+}
+
+// 151 → "2:31"
+function formatTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`
+}
+
 export default App
@@ -1,4 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react'
+import { useJoinInfo } from './hooks/useJoinInfo'
+import { useNowSinging } from './hooks/useNowSinging'
+import { useUpNext } from './hooks/useUpNext'
+import { useSessionSummary } from './hooks/useSessionSummary'
+import { useRoomTimer } from './hooks/useRoomTimer'
+import { useRoomCountdown } from './hooks/useRoomCountdown'
+import { formatClock, formatRemaining } from '../shared/eta'
+import { formatPlaybackRate, normalizePlaybackRate } from '../shared/playbackRate'
+import { formatCountdown } from '../shared/roomTimer'
+import { rememberRate, rememberedRate } from './services/playbackRates'
+import { PlaybackState } from '../shared/types'
+import type { PlayerStateInfo, RoomStatus, SessionSummary } from '../shared/types'
 
 // --- SRT parser ---
 interface SubtitleCue {
@@ -40,6 +52,37 @@ function findCue(cues: SubtitleCue[], time: number): string {
   return ''
 }
 
+// --- Player state reporting ---
+// YouTube IFrame API states: -1 unstarted, 0 ended, 1 playing, 2 paused, 3 buffering, 5 cued
+function toPlaybackState(ytState: number): PlaybackState {
+  switch (ytState) {
+    case 0: return PlaybackState.IDLE
+    case 1: return PlaybackState.PLAYING
+    case 2: return PlaybackState.PAUSED
+    default: return PlaybackState.LOADING
+  }
+}
+
+// Tell main about state/volume/mute changes right away, and about the
+// position roughly once a second (or on a seek)
+function reportPlayerInfo(ref: React.MutableRefObject<PlayerStateInfo>, patch: Partial<PlayerStateInfo>) {
+  const prev = ref.current
+  const next = { ...prev, ...patch }
+  ref.current = next
+  const ipc = window.electron?.ipcRenderer
+  if (!ipc) return
+
+  if (
+    next.state !== prev.state || next.isMuted !== prev.isMuted ||
+    next.volume !== prev.volume || next.videoId !== prev.videoId ||
+    next.playbackRate !== prev.playbackRate
+  ) {
+    ipc.send('player-state-changed', next)
+  } else if (Math.floor(next.currentTime) !== Math.floor(prev.currentTime) || next.duration !== prev.duration) {
+    ipc.send('playback-progress', { currentTime: next.currentTime, duration: next.duration })
+  }
+}
+
 // Invidious instances to try for captions
 const INVIDIOUS_INSTANCES = [
   'https://inv.nadeko.net',
@@ -80,6 +123,66 @@ async function fetchCaptions(videoId: string): Promise<string | null> {
   return null
 }
 
+// --- End-of-session summary, over everything until the host hides it ---
+function SummaryOverlay({ summary }: { summary: SessionSummary }) {
+  const stat = (value: string | number, label: string) => (
+    <div style={{ textAlign: 'center' }}>
+      <div style={{ fontSize: '3rem', fontWeight: 'bold', color: '#ffd54f' }}>{value}</div>
+      <div style={{ fontSize: '1.1rem', color: '#aaa' }}>{label}</div>
+    </div>
+  )
+
+  return (
+    <div style={{
+      position: 'fixed', inset: 0, zIndex: 10, background: 'rgba(0, 0, 0, 0.92)', color: '#fff',
+      display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: '2rem',
+    }}>
+      <h1 style={{ fontSize: '3rem', fontWeight: 'bold' }}>🎉 {summary.session.name}</h1>
+      <div style={{ display: 'flex', gap: '4rem' }}>
+        {stat(summary.songsSung, 'songs sung')}
+        {stat(formatRemaining(summary.duration), 'together')}
+        {stat(summary.singers.filter((s) => s.singer).length, 'singers')}
+      </div>
+      {summary.singers.length > 0 && (
+        <div style={{ fontSize: '1.5rem', minWidth: '24rem' }}>
+          {summary.singers.slice(0, 5).map(({ singer, songs }, i) => (
+            <div key={i} style={{ display: 'flex', justifyContent: 'space-between', gap: '2rem' }}>
+              <span style={{ color: singer?.color ?? '#999' }}>{singer ? `${singer.avatar} ${singer.name}` : 'Nobody'}</span>
+              <span>{songs}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {summary.mostSkipped.length > 0 && (
+        <div style={{ fontSize: '1.1rem', color: '#aaa', textAlign: 'center' }}>
+          <div>Most skipped</div>
+          {summary.mostSkipped.map((song) => (
+            <div key={song.videoId}>{song.title} ×{song.skips}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Room time left, bottom left; it grows into a last-song announcement
+function RoomCountdown({ room }: { room: RoomStatus }) {
+  const warning = room.phase !== 'running'
+  return (
+    <div style={{
+      position: 'fixed', bottom: '96px', left: '16px', zIndex: 5, padding: warning ? '10px 18px' : '6px 14px',
+      borderRadius: '10px', background: warning ? 'rgba(183, 28, 28, 0.85)' : 'rgba(0, 0, 0, 0.65)', color: '#fff',
+      fontSize: warning ? '1.5rem' : '1.1rem', fontWeight: 'bold',
+    }}>
+      {room.phase === 'last-song' && <div>🎤 Last song! Time is almost up</div>}
+      {room.phase === 'expired' && <div>⏰ Time is up</div>}
+      {room.phase !== 'expired' && (
+        <div style={{ fontFamily: 'monospace', color: warning ? '#fff' : '#ffd54f' }}>⏱ {formatCountdown(room.remaining)}</div>
+      )}
+    </div>
+  )
+}
+
 const DisplayApp: React.FC = () => {
   const [videoId, setVideoId] = useState<string | null>(null)
   const [subtitleText, setSubtitleText] = useState<string>('')
@@ -87,6 +190,18 @@ const DisplayApp: React.FC = () => {
   const listeningRef = useRef(false)
   const cuesRef = useRef<SubtitleCue[]>([])
   const currentTimeRef = useRef(0)
+  const playerInfoRef = useRef<PlayerStateInfo>({
+    state: PlaybackState.IDLE, currentTime: 0, duration: 0, volume: 100, isMuted: false, videoId: null,
+    playbackRate: 1,
+  })
+  const [playbackRate, setPlaybackRate] = useState(1)
+  // Whether this video's remembered practice speed has been applied
+  const rateAppliedRef = useRef(false)
+  const joinInfo = useJoinInfo()
+  const singer = useNowSinging()
+  const upNext = useUpNext()
+  const summary = useSessionSummary()
+  const room = useRoomCountdown(useRoomTimer())
 
   // Read videoId from URL query param (set by main process)
   useEffect(() => {
@@ -120,12 +235,28 @@ const DisplayApp: React.FC = () => {
   // YouTube IFrame API: detect video ended via postMessage
   useEffect(() => {
     if (!videoId) return
+    reportPlayerInfo(playerInfoRef, { videoId, state: PlaybackState.LOADING, currentTime: 0, duration: 0, playbackRate: 1 })
+    rateAppliedRef.current = false
 
     const handleMessage = (event: MessageEvent) => {
       // YouTube sends JSON strings via postMessage
       if (typeof event.data !== 'string') return
       try {
         const data = JSON.parse(event.data)
+        if (data.event === 'onStateChange' && typeof data.info === 'number') {
+          reportPlayerInfo(playerInfoRef, { state: toPlaybackState(data.info) })
+        }
+        // Once playing, bring back the speed this video was practised at
+        if (data.event === 'onStateChange' && data.info === 1 && !rateAppliedRef.current) {
+          rateAppliedRef.current = true
+          const rate = rememberedRate(videoId)
+          if (rate !== 1) {
+            iframeRef.current?.contentWindow?.postMessage(
+              JSON.stringify({ event: 'command', func: 'setPlaybackRate', args: [rate] }),
+              'https://www.youtube.com'
+            )
+          }
+        }
         // YouTube IFrame API: info.playerState = 0 means ENDED
         if (data.event === 'onStateChange' && data.info === 0) {
           console.log('[Display] Video ended, notifying main process')
@@ -177,6 +308,9 @@ const DisplayApp: React.FC = () => {
     const handleControl = (command: string, ...args: any[]) => {
       console.log('[Display] Player control:', command, args)
       switch (command) {
+        case 'play-video':
+          sendYTCommand('playVideo')
+          break
         case 'pause-video':
           sendYTCommand('pauseVideo')
           break
@@ -195,6 +329,16 @@ const DisplayApp: React.FC = () => {
         case 'seek-to':
           sendYTCommand('seekTo', args[0] ?? 0, true)
           break
+        case 'set-playback-rate': {
+          const rate = normalizePlaybackRate(Number(args[0]))
+          sendYTCommand('setPlaybackRate', rate)
+          const { videoId } = playerInfoRef.current
+          if (videoId) rememberRate(videoId, rate)
+          break
+        }
+        case 'get-player-state':
+          window.electron?.ipcRenderer?.send('player-state-response', args[0], playerInfoRef.current)
+          break
       }
     }
 
@@ -246,6 +390,20 @@ const DisplayApp: React.FC = () => {
       if (typeof event.data !== 'string') return
       try {
         const data = JSON.parse(event.data)
+        if (data.event === 'infoDelivery' && data.info) {
+          const { playerState, volume, muted, duration, playbackRate } = data.info
+          reportPlayerInfo(playerInfoRef, {
+            ...(typeof playerState === 'number' ? { state: toPlaybackState(playerState) } : {}),
+            ...(typeof volume === 'number' ? { volume } : {}),
+            ...(typeof muted === 'boolean' ? { isMuted: muted } : {}),
+            ...(typeof duration === 'number' ? { duration } : {}),
+            ...(typeof playbackRate === 'number' ? { playbackRate } : {}),
+            ...(typeof data.info.currentTime === 'number' ? { currentTime: data.info.currentTime } : {}),
+          })
+        }
+        if (data.event === 'infoDelivery' && typeof data.info?.playbackRate === 'number') {
+          setPlaybackRate(data.info.playbackRate)
+        }
         if (data.event === 'infoDelivery' && typeof data.info?.currentTime === 'number') {
           currentTimeRef.current = data.info.currentTime
           if (cuesRef.current.length > 0) {
@@ -282,13 +440,27 @@ const DisplayApp: React.FC = () => {
         flexDirection: 'column', color: 'white',
       }}>
         <h1 style={{ fontSize: '4rem', fontWeight: 'bold', marginBottom: '1rem' }}>AIPC KTV</h1>
+        {summary && <SummaryOverlay summary={summary} />}
+        {room && <RoomCountdown room={room} />}
         <p style={{ fontSize: '1.5rem', color: '#999' }}>Waiting for songs...</p>
+        {joinInfo?.available && (
+          <div style={{ marginTop: '3rem', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+            <img
+              src={joinInfo.qrDataUrl}
+              alt="Join QR code"
+              style={{ width: '240px', height: '240px', background: '#fff', padding: '12px', borderRadius: '12px' }}
+            />
+            <p style={{ fontSize: '1.25rem', marginTop: '1rem' }}>Scan to pick songs from your phone</p>
+          </div>
+        )}
       </div>
     )
   }
 
   return (
     <div style={{ width: '100vw', height: '100vh', background: '#000', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+      {summary && <SummaryOverlay summary={summary} />}
+      {room && <RoomCountdown room={room} />}
       {/* YouTube video — takes most of the screen */}
       <div style={{ flex: 1, position: 'relative' }}>
         <iframe
@@ -298,6 +470,56 @@ const DisplayApp: React.FC = () => {
           allow="autoplay; encrypted-media; fullscreen"
           allowFullScreen
         />
+        {singer && (
+          <div style={{
+            position: 'absolute', top: '16px', left: '16px', display: 'flex', alignItems: 'center', gap: '10px',
+            padding: '6px 16px 6px 6px', borderRadius: '999px', background: 'rgba(0, 0, 0, 0.65)', color: '#fff',
+          }}>
+            <span style={{
+              width: '40px', height: '40px', borderRadius: '50%', background: singer.color,
+              display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '1.25rem', fontWeight: 'bold',
+            }}>
+              {singer.avatar}
+            </span>
+            <span style={{ fontSize: '1.5rem', fontWeight: 'bold' }}>🎤 {singer.name}</span>
+          </div>
+        )}
+        {playbackRate !== 1 && (
+          <div style={{
+            position: 'absolute', top: '16px', left: '50%', transform: 'translateX(-50%)', padding: '6px 16px',
+            borderRadius: '999px', background: 'rgba(0, 0, 0, 0.65)', color: '#ffd54f', fontSize: '1.5rem', fontWeight: 'bold',
+          }}>
+            {playbackRate < 1 ? '🐢' : '🐇'} {formatPlaybackRate(playbackRate)}
+          </div>
+        )}
+        {upNext && upNext.songs.length > 0 && (
+          <div style={{
+            position: 'absolute', bottom: '64px', right: '16px', maxWidth: '40%', padding: '10px 14px',
+            borderRadius: '10px', background: 'rgba(0, 0, 0, 0.65)', color: '#fff', fontSize: '1rem',
+          }}>
+            <div style={{ fontSize: '0.8rem', color: '#aaa', marginBottom: '4px' }}>Up next</div>
+            {upNext.songs.map((song, i) => (
+              <div key={i} style={{ display: 'flex', gap: '8px', whiteSpace: 'nowrap' }}>
+                <span style={{ color: '#ffd54f' }}>~{formatClock(song.startsAt)}</span>
+                {song.singer && <span style={{ color: song.singer.color }}>{song.singer.name}</span>}
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{song.title}</span>
+              </div>
+            ))}
+            <div style={{ fontSize: '0.8rem', color: '#aaa', marginTop: '4px' }}>
+              {upNext.more > 0 && `+${upNext.more} more · `}queue ends ~{formatClock(upNext.endsAt)}
+            </div>
+          </div>
+        )}
+        {joinInfo?.available && joinInfo.cornerQr && (
+          <img
+            src={joinInfo.qrDataUrl}
+            alt="Join QR code"
+            style={{
+              position: 'absolute', top: '16px', right: '16px', width: '96px', height: '96px',
+              background: '#fff', padding: '4px', borderRadius: '6px', opacity: 0.85,
+            }}
+          />
+        )}
       </div>
 
       {/* Subtitle bar at bottom */}
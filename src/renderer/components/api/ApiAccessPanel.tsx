@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import type { ApiScope, ApiToken } from '../../../shared/types'
+
+const SCOPE_OPTIONS: { value: ApiScope; label: string }[] = [
+  { value: 'read', label: 'Read only' },
+  { value: 'queue-add', label: 'Queue add' },
+  { value: 'skip', label: 'Skip' },
+  { value: 'admin', label: 'Admin' },
+]
+
+interface ApiAccessPanelProps {
+  className?: string
+}
+
+export default function ApiAccessPanel({ className = '' }: ApiAccessPanelProps) {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [newName, setNewName] = useState('')
+  const [newScope, setNewScope] = useState<ApiScope>('queue-add')
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+
+  const skillApi = window.electron?.skillApi
+
+  const refresh = useCallback(async () => {
+    if (!skillApi) return
+    setTokens(await skillApi.listTokens())
+  }, [skillApi])
+
+  useEffect(() => {
+    skillApi?.listTokens().then(setTokens)
+  }, [skillApi])
+
+  const handleCreate = async () => {
+    const name = newName.trim()
+    if (!skillApi || !name) return
+    const result = await skillApi.createToken(name, [newScope])
+    if (result.success && result.token) {
+      setRevealedId(result.token.id)
+    }
+    setNewName('')
+    refresh()
+  }
+
+  const handleRotate = async (id: string) => {
+    if (!skillApi) return
+    await skillApi.rotateToken(id)
+    setRevealedId(id)
+    refresh()
+  }
+
+  const handleRevoke = async (id: string) => {
+    if (!skillApi) return
+    await skillApi.revokeToken(id)
+    refresh()
+  }
+
+  if (!skillApi) return null
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-gray-900">API Access</h2>
+        <p className="text-sm text-gray-600">Bearer tokens for the Skill API</p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="Client name"
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        />
+        <select
+          value={newScope}
+          onChange={(e) => setNewScope(e.target.value as ApiScope)}
+          className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {SCOPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {tokens.map((token) => (
+          <div key={token.id} className="p-2 bg-white border border-gray-200 rounded-lg space-y-1">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <h4 className="font-medium text-gray-900 text-sm truncate">{token.name}</h4>
+                <p className="text-xs text-gray-500">{token.scopes.join(', ')}</p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => setRevealedId(revealedId === token.id ? null : token.id)}
+                  className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+                >
+                  {revealedId === token.id ? 'Hide' : 'Show'}
+                </button>
+                <button
+                  onClick={() => handleRotate(token.id)}
+                  className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-100 rounded"
+                >
+                  Rotate
+                </button>
+                <button
+                  onClick={() => handleRevoke(token.id)}
+                  className="px-2 py-1 text-xs text-red-600 hover:bg-red-100 rounded"
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+            {revealedId === token.id && (
+              <code className="block px-2 py-1 text-xs bg-gray-100 rounded break-all select-all">
+                {token.token}
+              </code>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react'
+import type { RemoteInfo, RemoteSettings } from '../../../shared/types'
+
+interface RemotePanelProps {
+  className?: string
+}
+
+export default function RemotePanel({ className = '' }: RemotePanelProps) {
+  const [info, setInfo] = useState<RemoteInfo | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const remote = window.electron?.remote
+
+  useEffect(() => {
+    remote?.getInfo().then(setInfo)
+  }, [remote])
+
+  const handleToggle = async (key: keyof RemoteSettings) => {
+    if (!remote || !info) return
+    setInfo(await remote.updateSettings({ [key]: !info[key] }))
+  }
+
+  const handleCopy = async () => {
+    if (!info) return
+    await navigator.clipboard.writeText(info.url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  // Invalidates every link and QR code shared so far
+  const handleRegenerate = async () => {
+    if (!remote) return
+    setInfo(await remote.rotateJoinToken())
+  }
+
+  if (!remote || !info) return null
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-gray-900">Phone Remote</h2>
+        <p className="text-sm text-gray-600">Let guests search and queue songs from their phones</p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-800">
+        <input type="checkbox" checked={info.lanAccess} onChange={() => handleToggle('lanAccess')} />
+        Allow phones on this network (0.0.0.0)
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-800">
+        <input type="checkbox" checked={info.guestSkip} onChange={() => handleToggle('guestSkip')} />
+        Guests may skip songs
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-800">
+        <input type="checkbox" checked={info.cornerQr} onChange={() => handleToggle('cornerQr')} />
+        Show join QR code during playback
+      </label>
+
+      <div className="flex gap-2 items-center">
+        <code className="flex-1 min-w-0 px-2 py-1 text-xs bg-gray-100 rounded truncate">{info.url}</code>
+        <button
+          onClick={handleCopy}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={handleRegenerate}
+          className="px-2 py-1 text-xs text-red-600 hover:bg-red-100 rounded whitespace-nowrap"
+        >
+          New link
+        </button>
+      </div>
+      {!info.lanAccess && (
+        <p className="text-xs text-gray-500">Only this computer can open the link until network access is allowed.</p>
+      )}
+    </div>
+  )
+}
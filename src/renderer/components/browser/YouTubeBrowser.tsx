@@ -1,9 +1,10 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react'
-import { useQueueStore } from '../../store'
-import type { Song } from '../../types'
+import { useQueueStore, useSingerStore } from '../../store'
+import type { AddCheck, DuplicateReason, LimitReason, QueuePosition, Song } from '../../types'
 
 // Click interceptor JS injected into YouTube webview
-// Captures clicks on video links, extracts metadata, sends via console.log
+// Captures clicks on video links, extracts metadata, sends via console.log.
+// Shift-click queues the song next (插歌), Alt-click plays it now.
 const CLICK_INTERCEPTOR = `
 (function() {
   if (window.__ktvInterceptorInstalled) return;
@@ -43,16 +44,55 @@ const CLICK_INTERCEPTOR = `
       title = link.getAttribute('title') || link.textContent.trim() || '';
     }
 
-    console.log('__KTV_ADD__:' + JSON.stringify({ videoId: videoId, title: title, channel: channel }));
+    var position = e.shiftKey ? 'next' : e.altKey ? 'now' : 'end';
+    console.log('__KTV_ADD__:' + JSON.stringify({ videoId: videoId, title: title, channel: channel, position: position }));
   }, true);
 })();
 `
 
+const REJECTED_LABELS: Record<DuplicateReason | LimitReason, string> = {
+  'playing': 'Playing now',
+  'queued': 'Already queued',
+  'recently-sung': 'Sung recently',
+  'singer-queue-full': 'Too many queued',
+  'song-too-long': 'Too long',
+  'singer-cooldown': 'Wait a bit',
+  'room-time-up': 'Time is up',
+}
+
+const ADDED_LABELS: Record<QueuePosition, string> = {
+  'end': 'Added!',
+  'next': 'Playing next',
+  'now': 'Playing now',
+}
+
+// Same modifiers as the click interceptor
+const positionOf = (e: { shiftKey: boolean; altKey: boolean }): QueuePosition =>
+  e.shiftKey ? 'next' : e.altKey ? 'now' : 'end'
+
 export default function YouTubeBrowser() {
   const webviewRef = useRef<HTMLWebViewElement>(null)
-  const { addSong } = useQueueStore()
+  const { addSong, insertNext, playNow } = useQueueStore()
   const [currentUrl, setCurrentUrl] = useState('https://www.youtube.com')
-  const [addedId, setAddedId] = useState<string | null>(null)
+  // Feedback for the last add, including duplicate warnings and rejections
+  const [added, setAdded] = useState<{ videoId: string; position: QueuePosition; check: AddCheck } | null>(null)
+  const addedId = added?.videoId ?? null
+  // Hides the badge; replaced by each add so an older one can't hide a newer badge
+  const addedTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Credit clicked songs to the singer selected in the Singers panel
+  const queueSong = useCallback((song: Song, position: QueuePosition = 'end') => {
+    const singer = useSingerStore.getState().getActiveSinger()
+    const add = position === 'now' ? playNow : position === 'next' ? insertNext : addSong
+    const check = add(singer ? { ...song, singer } : song)
+    setAdded({ videoId: song.videoId, position, check })
+    if (addedTimer.current) clearTimeout(addedTimer.current)
+    addedTimer.current = setTimeout(() => setAdded(null), check.duplicate || check.limit ? 3000 : 1500)
+  }, [addSong, insertNext, playNow])
+
+  useEffect(() => () => {
+    if (addedTimer.current) clearTimeout(addedTimer.current)
+  }, [])
 
   const extractVideoId = (url: string): string | null => {
     try {
@@ -86,16 +126,13 @@ export default function YouTubeBrowser() {
         const data = JSON.parse(msg.slice('__KTV_ADD__:'.length))
         if (!data.videoId) return
 
-        addSong({
+        queueSong({
           videoId: data.videoId,
           title: data.title || 'YouTube Video',
           channel: data.channel || '',
           thumbnail: 'https://i.ytimg.com/vi/' + data.videoId + '/hqdefault.jpg',
           duration: 0,
-        })
-
-        setAddedId(data.videoId)
-        setTimeout(() => setAddedId(null), 1500)
+        }, data.position in ADDED_LABELS ? data.position : 'end')
       } catch {}
     }
 
@@ -111,7 +148,7 @@ export default function YouTubeBrowser() {
       webview.removeEventListener('did-finish-load', onDidFinishLoad)
       webview.removeEventListener('did-navigate-in-page', onDidNavigateInPage)
     }
-  }, [addSong, injectInterceptor])
+  }, [queueSong, injectInterceptor])
 
   // Poll webview URL for display
   useEffect(() => {
@@ -129,7 +166,7 @@ export default function YouTubeBrowser() {
   // If user somehow navigates to a /watch page directly, provide manual add button
   const currentVideoId = extractVideoId(currentUrl)
 
-  const handleManualAdd = useCallback(async () => {
+  const handleManualAdd = useCallback(async (position: QueuePosition) => {
     if (!currentVideoId || !webviewRef.current) return
     try {
       const info = await (webviewRef.current as any).executeJavaScript(`
@@ -142,25 +179,23 @@ export default function YouTubeBrowser() {
           return { title: title, channel: channel, duration: duration };
         })();
       `)
-      addSong({
+      queueSong({
         videoId: currentVideoId,
         title: info?.title || 'YouTube Video',
         channel: info?.channel || '',
         thumbnail: 'https://i.ytimg.com/vi/' + currentVideoId + '/hqdefault.jpg',
         duration: info?.duration || 0,
-      })
+      }, position)
     } catch {
-      addSong({
+      queueSong({
         videoId: currentVideoId,
         title: 'YouTube Video',
         channel: '',
         thumbnail: 'https://i.ytimg.com/vi/' + currentVideoId + '/hqdefault.jpg',
         duration: 0,
-      })
+      }, position)
     }
-    setAddedId(currentVideoId)
-    setTimeout(() => setAddedId(null), 1500)
-  }, [currentVideoId, addSong])
+  }, [currentVideoId, queueSong])
 
   return (
     <div className="flex flex-col h-full">
@@ -176,15 +211,21 @@ export default function YouTubeBrowser() {
           {currentUrl}
         </div>
 
-        {addedId && (
-          <span className="px-3 py-1.5 text-sm font-bold bg-blue-500 text-white rounded-lg whitespace-nowrap">
-            Added!
+        {added && (
+          <span
+            title={(added.check.limit ?? added.check.duplicate)?.message}
+            className={`px-3 py-1.5 text-sm font-bold text-white rounded-lg whitespace-nowrap ${
+              added.check.rejected ? 'bg-red-500' : added.check.duplicate ? 'bg-amber-500' : 'bg-blue-500'
+            }`}
+          >
+            {added.check.rejected ? REJECTED_LABELS[(added.check.limit ?? added.check.duplicate)!.reason] : added.check.duplicate ? 'Added again' : ADDED_LABELS[added.position]}
           </span>
         )}
 
         {currentVideoId && !addedId && (
           <button
-            onClick={handleManualAdd}
+            onClick={(e) => handleManualAdd(positionOf(e))}
+            title="Shift-click to play next, Alt-click to play now"
             className="px-4 py-1.5 text-sm font-bold rounded-lg bg-green-600 text-white hover:bg-green-700 shadow-md hover:shadow-lg whitespace-nowrap"
           >
             + Queue
@@ -192,7 +233,7 @@ export default function YouTubeBrowser() {
         )}
 
         {!currentVideoId && !addedId && (
-          <span className="text-xs text-gray-400 whitespace-nowrap">Click any video to add</span>
+          <span className="text-xs text-gray-400 whitespace-nowrap">Click any video to add · Shift: next · Alt: now</span>
         )}
       </div>
 
@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { useFavouritesStore, useHistoryStore, usePlaylistStore, useQueueStore, useSessionStore } from '../../store'
+import { queryHistory } from '../../store/historyStore'
+import { sessionEntries } from '../../store/sessionStore'
+import type { HistoryEntry, Song } from '../../types'
+import SingerBadge from '../singer/SingerBadge'
+
+// A fresh copy for the queue or a playlist, without queue-entry bookkeeping
+const songOf = (entry: HistoryEntry): Song => ({
+  ...entry.song,
+  entryId: undefined,
+  pinned: undefined,
+  fromPlaylist: undefined,
+  autoAdded: undefined,
+})
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+interface HistoryPanelProps {
+  className?: string
+}
+
+export default function HistoryPanel({ className = '' }: HistoryPanelProps) {
+  const { entries, removeEntry, clearHistory } = useHistoryStore()
+  const { playlists, addSongToPlaylist } = usePlaylistStore()
+  const addSong = useQueueStore((state) => state.addSong)
+  const sessions = useSessionStore((state) => state.sessions)
+  const { songs: favourites, toggleFavourite } = useFavouritesStore()
+  const [date, setDate] = useState('')
+  // Starts on the running session, if there is one
+  const [sessionId, setSessionId] = useState(() => useSessionStore.getState().getActiveSession()?.id ?? '')
+
+  const session = sessions.find((s) => s.id === sessionId)
+  const shown = queryHistory(session ? sessionEntries(entries, session) : entries, { date: date || undefined, limit: 100 })
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="space-y-1">
+        <h2 className="text-xl font-semibold text-gray-900">History</h2>
+        <p className="text-sm text-gray-600">Songs sung so far</p>
+      </div>
+
+      {sessions.length > 0 && (
+        <select
+          value={session ? sessionId : ''}
+          onChange={(e) => setSessionId(e.target.value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm bg-white"
+        >
+          <option value="">All sessions</option>
+          {[...sessions].reverse().map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}{s.endedAt === null ? ' (running)' : ''}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+        />
+        {date && (
+          <button
+            onClick={() => setDate('')}
+            className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+          >
+            All dates
+          </button>
+        )}
+        <button
+          onClick={clearHistory}
+          disabled={entries.length === 0}
+          className="px-2 py-1 text-xs text-red-600 hover:bg-red-100 rounded disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      {shown.length === 0 ? (
+        <div className="text-center py-4 text-gray-500">
+          <p>
+            {date ? 'Nothing was sung that day.' : session ? 'No songs played this session.' : 'No songs played yet.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {shown.map((entry) => (
+            <div key={entry.id} className="p-2 bg-white border border-gray-200 rounded-lg space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 shrink-0">
+                  {date ? '' : `${new Date(entry.startedAt).toLocaleDateString()} `}
+                  {formatTime(entry.startedAt)}
+                </span>
+                <span className="flex-1 min-w-0 text-sm font-medium truncate">{entry.song.title}</span>
+                <span className={`text-xs shrink-0 ${
+                  entry.endReason === 'completed' ? 'text-green-600' :
+                  entry.endReason === 'skipped' ? 'text-gray-400' : 'text-blue-600'
+                }`}>
+                  {entry.endReason ?? 'playing'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0 flex items-center gap-2">
+                  {entry.song.singer && <SingerBadge singer={entry.song.singer} />}
+                  {entry.song.fromPlaylist && (
+                    <span className="text-xs text-gray-500 truncate">from {entry.song.fromPlaylist.name}</span>
+                  )}
+                  {entry.song.autoAdded && <span className="text-xs text-gray-500 truncate">auto-fill</span>}
+                </div>
+                <button
+                  onClick={() => toggleFavourite(entry.song)}
+                  title="Favourite"
+                  className="px-1 text-sm text-yellow-500 hover:text-yellow-600 shrink-0"
+                >
+                  {favourites.some((s) => s.videoId === entry.song.videoId) ? '★' : '☆'}
+                </button>
+                <button
+                  onClick={() => addSong(songOf(entry))}
+                  className="px-2 py-0.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 shrink-0"
+                >
+                  Sing again
+                </button>
+                {playlists.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (!e.target.value) return
+                      // Playlists hold songs, not who sang them
+                      addSongToPlaylist(e.target.value, { ...songOf(entry), singer: undefined })
+                    }}
+                    title="Add to playlist"
+                    className="w-20 text-xs border border-gray-200 rounded bg-white"
+                  >
+                    <option value="">+ Playlist</option>
+                    {playlists.map((playlist) => (
+                      <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => removeEntry(entry.id)}
+                  title="Remove from history"
+                  className="px-1 text-xs text-gray-400 hover:text-red-600 shrink-0"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { useModerationStore } from '../../store'
+import type { PendingSong } from '../../types'
+import SingerBadge from '../singer/SingerBadge'
+
+const POSITION_LABELS: Record<PendingSong['position'], string> = {
+  end: '',
+  next: 'wants to go next',
+  now: 'wants to play now',
+}
+
+interface HostPanelProps {
+  className?: string
+}
+
+export default function HostPanel({ className = '' }: HostPanelProps) {
+  const { hostMode, queueLocked, pendingSongs, setHostMode, setQueueLocked, approve, reject } = useModerationStore()
+  // Why an approval didn't go through, per request
+  const [problems, setProblems] = useState<Record<string, string>>({})
+
+  const handleApprove = (id: string) => {
+    const check = approve(id)
+    const problem = check?.rejected && (check.limit ?? check.duplicate)
+    if (problem) {
+      setProblems((p) => ({ ...p, [id]: problem.message }))
+    }
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="space-y-1">
+        <h2 className="text-xl font-semibold text-gray-900">Host Controls</h2>
+        <p className="text-sm text-gray-600">Decide what phones and API clients can do to the queue</p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-800">
+        <input type="checkbox" checked={hostMode} onChange={(e) => setHostMode(e.target.checked)} />
+        Host mode: approve songs from phones and the API
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-800">
+        <input type="checkbox" checked={queueLocked} onChange={(e) => setQueueLocked(e.target.checked)} />
+        🔒 Lock the queue (only this window can reorder, remove or clear)
+      </label>
+
+      {pendingSongs.length > 0 ? (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {pendingSongs.map((request) => (
+            <div key={request.id} className="p-2 bg-white border border-yellow-300 rounded-lg space-y-1">
+              <p className="text-sm font-medium truncate">{request.song.title}</p>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0 flex items-center gap-2 text-xs text-gray-500">
+                  {request.song.singer && <SingerBadge singer={request.song.singer} />}
+                  <span className="truncate">
+                    via {request.requestedBy} {POSITION_LABELS[request.position]}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleApprove(request.id)}
+                  className="px-2 py-0.5 text-xs bg-green-600 text-white rounded hover:bg-green-700 shrink-0"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => reject(request.id)}
+                  className="px-2 py-0.5 text-xs text-red-600 hover:bg-red-100 rounded shrink-0"
+                >
+                  Reject
+                </button>
+              </div>
+              {problems[request.id] && <p className="text-xs text-red-600">{problems[request.id]}</p>}
+            </div>
+          ))}
+        </div>
+      ) : (
+        hostMode && <p className="text-sm text-gray-500">No songs waiting for approval.</p>
+      )}
+    </div>
+  )
+}
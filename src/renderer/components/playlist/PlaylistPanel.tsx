@@ -1,17 +1,36 @@
-import React, { useState } from 'react'
+import React, { useRef, useState } from 'react'
 import { usePlaylistStore } from '../../store'
 import { useQueueStore } from '../../store'
-import type { Playlist } from '../../types'
+import { downloadFile } from '../../services/sessionReport'
+import {
+  detectPlaylistFormat, exportPlaylists, parsePlaylists, playlistFilename, PlaylistFileError,
+} from '../../../shared/playlistFormats'
+import type { ImportedPlaylistResult, Playlist, PlaylistCollision, PlaylistFormat, SkippedRow } from '../../types'
+
+const MIME_TYPES: Record<PlaylistFormat, string> = {
+  json: 'application/json',
+  m3u: 'audio/x-mpegurl',
+  csv: 'text/csv',
+}
+
+// What the last import did, or why it failed
+type ImportReport =
+  | { imported: ImportedPlaylistResult[]; skipped: SkippedRow[] }
+  | { error: string }
 
 interface PlaylistPanelProps {
   className?: string
 }
 
 export default function PlaylistPanel({ className = '' }: PlaylistPanelProps) {
-  const { playlists, createPlaylist, deletePlaylist, loadPlaylistToQueue } = usePlaylistStore()
+  const { playlists, createPlaylist, deletePlaylist, loadPlaylistToQueue, importPlaylists } = usePlaylistStore()
   const { upcomingSongs, currentSong } = useQueueStore()
   const [newPlaylistName, setNewPlaylistName] = useState('')
   const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [format, setFormat] = useState<PlaylistFormat>('json')
+  const [onCollision, setOnCollision] = useState<PlaylistCollision>('merge')
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleCreate = () => {
     const name = newPlaylistName.trim()
@@ -27,6 +46,22 @@ export default function PlaylistPanel({ className = '' }: PlaylistPanelProps) {
     createPlaylist(name, songs)
   }
 
+  // One playlist, or all of them
+  const handleExport = (playlist: Playlist | null) => {
+    const content = exportPlaylists(playlist ? [playlist] : playlists, format)
+    downloadFile(playlistFilename(playlist?.name ?? null, format), content, MIME_TYPES[format])
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const text = await file.text()
+      const { playlists: parsed, skipped } = parsePlaylists(text, detectPlaylistFormat(text, file.name))
+      setReport({ imported: importPlaylists(parsed, onCollision), skipped })
+    } catch (error) {
+      setReport({ error: error instanceof PlaylistFileError ? error.message : `Could not read ${file.name}` })
+    }
+  }
+
   const formatDate = (ts: number) => new Date(ts).toLocaleDateString()
 
   return (
@@ -63,6 +98,79 @@ export default function PlaylistPanel({ className = '' }: PlaylistPanelProps) {
         </button>
       )}
 
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as PlaylistFormat)}
+          title="Export format"
+          className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+        >
+          <option value="json">JSON</option>
+          <option value="m3u">M3U</option>
+          <option value="csv">CSV</option>
+        </select>
+        <button
+          onClick={() => handleExport(null)}
+          disabled={playlists.length === 0}
+          className="px-2 py-0.5 text-xs bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+        >
+          Export all
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-0.5 text-xs bg-gray-100 rounded hover:bg-gray-200"
+        >
+          Import…
+        </button>
+        <select
+          value={onCollision}
+          onChange={(e) => setOnCollision(e.target.value as PlaylistCollision)}
+          title="When an imported playlist's name is taken"
+          className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+        >
+          <option value="merge">Merge same names</option>
+          <option value="duplicate">Keep both</option>
+        </select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.m3u,.m3u8,.csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) handleImport(file)
+          }}
+          className="hidden"
+        />
+      </div>
+
+      {report && (
+        <div className={`p-2 border rounded-lg text-xs space-y-1 ${
+          'error' in report ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-gray-700'
+        }`}>
+          <div className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              {'error' in report ? report.error : report.imported.map((result) => (
+                <p key={result.id} className="truncate">
+                  {result.merged ? 'Merged' : 'Imported'} {result.name}: {result.added} song{result.added === 1 ? '' : 's'}
+                </p>
+              ))}
+            </div>
+            <button onClick={() => setReport(null)} className="px-1 text-gray-400 hover:text-gray-600">✕</button>
+          </div>
+          {'skipped' in report && report.skipped.length > 0 && (
+            <div className="max-h-24 overflow-y-auto text-red-700">
+              <p className="font-medium">Skipped {report.skipped.length}:</p>
+              {report.skipped.map((row, i) => (
+                <p key={i} className="truncate">
+                  {row.playlist}{row.row > 0 && `, row ${row.row}`}: {row.reason}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {playlists.length === 0 ? (
         <div className="text-center py-8 text-gray-500">
           <p>No playlists yet. Create one or save the current queue.</p>
@@ -103,6 +211,16 @@ export default function PlaylistPanel({ className = '' }: PlaylistPanelProps) {
                   >
                     Append
                   </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleExport(playlist)
+                    }}
+                    title={`Export as ${format.toUpperCase()}`}
+                    className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-200 rounded"
+                  >
+                    ⤓
+                  </button>
                   <button
                     onClick={(e) => {
                       e.stopPropagation()
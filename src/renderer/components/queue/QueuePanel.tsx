@@ -1,6 +1,9 @@
 import React from 'react'
-import { useQueueStore } from '../../store'
-import { Song } from '../../types'
+import { useFavouritesStore, usePlaylistStore, useQueueStore, useSingerStore } from '../../store'
+import { Song, Singer, DuplicatePolicy, AutoFillSource } from '../../types'
+import SingerBadge from '../singer/SingerBadge'
+import { useQueueEta } from '../../hooks/useQueueEta'
+import { FALLBACK_DURATION, formatClock, formatRemaining } from '../../../shared/eta'
 import {
   DndContext,
   closestCenter,
@@ -38,20 +41,33 @@ const DragHandle = (props: React.SVGProps<SVGSVGElement>) => (
   </svg>
 )
 
+// Stable drag/React key: the entry ID, or position for pre-entryId songs
+function sortableId(song: Song, index: number): string {
+  return song.entryId ?? `${song.videoId}-${index}`
+}
+
 interface SortableSongItemProps {
   song: Song
   index: number
+  singers: Singer[]
   onRemove: (index: number) => void
+  onSingerChange: (entryId: string, singer: Singer | null) => void
+  onUnpin: (entryId: string) => void
+  onPlayNext: (index: number) => void
+  onPlayNow: (song: Song) => void
+  startTime: string // estimated, e.g. "21:35"
 }
 
-function SortableSongItem({ song, index, onRemove }: SortableSongItemProps) {
+function SortableSongItem({
+  song, index, singers, onRemove, onSingerChange, onUnpin, onPlayNext, onPlayNow, startTime,
+}: SortableSongItemProps) {
   const {
     attributes,
     listeners,
     setNodeRef,
     transform,
     transition,
-  } = useSortable({ id: `${song.videoId}-${index}` })
+  } = useSortable({ id: sortableId(song, index) })
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -77,9 +93,56 @@ function SortableSongItem({ song, index, onRemove }: SortableSongItemProps) {
           {song.title}
         </h4>
         <p className="text-xs text-gray-600 truncate">
-          {song.channel}
+          <span title="Estimated start" className="text-gray-500">~{startTime}</span> · {song.channel}
         </p>
+        {song.singer && <SingerBadge singer={song.singer} />}
       </div>
+      {song.pinned && song.entryId && (
+        <button
+          onClick={() => onUnpin(song.entryId!)}
+          title="Placed by hand; click to let fair rotation place it"
+          className="px-1 text-sm hover:bg-gray-100 rounded"
+        >
+          📌
+        </button>
+      )}
+      {song.entryId && singers.length > 0 && (
+        <select
+          value={song.singer?.id ?? ''}
+          onChange={(e) =>
+            onSingerChange(song.entryId!, singers.find((s) => s.id === e.target.value) ?? null)
+          }
+          title="Singer"
+          className="w-16 text-xs border border-gray-200 rounded bg-white"
+        >
+          <option value="">—</option>
+          {/* A removed singer still shows on the entries they requested */}
+          {song.singer && !singers.some((s) => s.id === song.singer!.id) && (
+            <option value={song.singer.id}>{song.singer.name}</option>
+          )}
+          {singers.map((singer) => (
+            <option key={singer.id} value={singer.id}>{singer.name}</option>
+          ))}
+        </select>
+      )}
+      {index > 0 && (
+        <button
+          onClick={() => onPlayNext(index)}
+          title="Play next (插歌)"
+          className="px-1 text-sm hover:bg-gray-100 rounded"
+        >
+          ⏫
+        </button>
+      )}
+      {song.entryId && (
+        <button
+          onClick={() => onPlayNow(song)}
+          title="Play now, interrupting the current song"
+          className="px-1 text-sm hover:bg-gray-100 rounded"
+        >
+          ▶️
+        </button>
+      )}
       <button
         onClick={() => onRemove(index)}
         className="px-2 py-1 text-xs text-red-600 hover:bg-red-100 rounded"
@@ -95,14 +158,22 @@ interface QueuePanelProps {
 }
 
 export default function QueuePanel({ className = '' }: QueuePanelProps) {
-  const { currentSong, upcomingSongs, removeSong, nextSong, clearQueue, reorderQueue } = useQueueStore()
+  const {
+    currentSong, upcomingSongs, rotationMode, duplicatePolicy, queueLimits, autoFill,
+    removeSong, nextSong, clearQueue, reorderQueue, setEntrySinger, setRotationMode, unpinEntry, setDuplicatePolicy,
+    setQueueLimits, setAutoFill, playNow,
+  } = useQueueStore()
+  const singers = useSingerStore((state) => state.singers)
+  const playlists = usePlaylistStore((state) => state.playlists)
+  const { songs: favourites, toggleFavourite } = useFavouritesStore()
+  const eta = useQueueEta()
   const sensors = useSensors(useSensor(PointerSensor))
 
   function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event
     if (over && active.id !== over.id) {
-      const oldIndex = upcomingSongs.findIndex((s, i) => `${s.videoId}-${i}` === active.id)
-      const newIndex = upcomingSongs.findIndex((s, i) => `${s.videoId}-${i}` === over.id)
+      const oldIndex = upcomingSongs.findIndex((s, i) => sortableId(s, i) === active.id)
+      const newIndex = upcomingSongs.findIndex((s, i) => sortableId(s, i) === over.id)
       if (oldIndex !== -1 && newIndex !== -1) {
         reorderQueue(oldIndex, newIndex)
       }
@@ -116,6 +187,109 @@ export default function QueuePanel({ className = '' }: QueuePanelProps) {
         <p className="text-sm text-gray-600">
           Now playing and upcoming songs
         </p>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={rotationMode}
+            onChange={(e) => setRotationMode(e.target.checked)}
+          />
+          Fair rotation (one song per singer per round)
+        </label>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            Repeats
+            <select
+              value={duplicatePolicy.mode}
+              onChange={(e) =>
+                setDuplicatePolicy({ ...duplicatePolicy, mode: e.target.value as DuplicatePolicy['mode'] })
+              }
+              className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+            >
+              <option value="allow">Allow</option>
+              <option value="warn">Warn</option>
+              <option value="reject">Reject</option>
+            </select>
+          </label>
+          {duplicatePolicy.mode !== 'allow' && (
+            <span className="flex items-center gap-1" title="Also count songs sung recently (0 = only the queue)">
+              also last
+              <input
+                type="number"
+                min={0}
+                value={duplicatePolicy.recentSongs}
+                onChange={(e) => setDuplicatePolicy({ ...duplicatePolicy, recentSongs: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-12 px-1 py-0.5 border border-gray-300 rounded"
+              />
+              songs /
+              <input
+                type="number"
+                min={0}
+                value={duplicatePolicy.recentMinutes}
+                onChange={(e) => setDuplicatePolicy({ ...duplicatePolicy, recentMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-12 px-1 py-0.5 border border-gray-300 rounded"
+              />
+              min
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-sm text-gray-700" title="Request limits (0 = no limit)">
+          Limits
+          <input
+            type="number"
+            min={0}
+            value={queueLimits.maxSongsPerSinger}
+            onChange={(e) => setQueueLimits({ ...queueLimits, maxSongsPerSinger: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-12 px-1 py-0.5 border border-gray-300 rounded"
+          />
+          per singer · max
+          <input
+            type="number"
+            min={0}
+            value={queueLimits.maxDuration / 60}
+            onChange={(e) => setQueueLimits({ ...queueLimits, maxDuration: Math.max(0, Number(e.target.value) || 0) * 60 })}
+            className="w-12 px-1 py-0.5 border border-gray-300 rounded"
+          />
+          min long · wait
+          <input
+            type="number"
+            min={0}
+            value={queueLimits.cooldownMinutes}
+            onChange={(e) => setQueueLimits({ ...queueLimits, cooldownMinutes: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-12 px-1 py-0.5 border border-gray-300 rounded"
+          />
+          min between adds
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={autoFill.enabled}
+              onChange={(e) => setAutoFill({ ...autoFill, enabled: e.target.checked })}
+            />
+            Auto-fill when the queue runs dry, from
+          </label>
+          <select
+            value={autoFill.source}
+            onChange={(e) => setAutoFill({ ...autoFill, source: e.target.value as AutoFillSource })}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+          >
+            <option value="history">Most sung</option>
+            <option value="favourites">Favourites ({favourites.length})</option>
+            <option value="playlist">Playlist</option>
+          </select>
+          {autoFill.source === 'playlist' && (
+            <select
+              value={autoFill.playlistId ?? ''}
+              onChange={(e) => setAutoFill({ ...autoFill, playlistId: e.target.value || null })}
+              className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+            >
+              <option value="">Choose…</option>
+              {playlists.map((playlist) => (
+                <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
       </div>
 
       <div>
@@ -134,7 +308,18 @@ export default function QueuePanel({ className = '' }: QueuePanelProps) {
               <p className="text-sm text-gray-600 truncate">
                 {currentSong.channel}
               </p>
+              {currentSong.singer && <SingerBadge singer={currentSong.singer} />}
+              {currentSong.autoAdded && (
+                <p className="text-xs text-gray-500">Auto-fill · the next request takes over</p>
+              )}
             </div>
+            <button
+              onClick={() => toggleFavourite(currentSong)}
+              title="Favourite"
+              className="px-1 text-xl text-yellow-500 hover:text-yellow-600 shrink-0"
+            >
+              {favourites.some((s) => s.videoId === currentSong.videoId) ? '★' : '☆'}
+            </button>
           </div>
         ) : (
           <div className="text-center py-4 text-gray-500">
@@ -145,7 +330,18 @@ export default function QueuePanel({ className = '' }: QueuePanelProps) {
 
       <div>
         <div className="flex justify-between items-center mb-2">
-          <h3 className="text-lg font-semibold text-gray-800">Next Up ({upcomingSongs.length})</h3>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">Next Up ({upcomingSongs.length})</h3>
+            {currentSong && (
+              <p
+                className="text-xs text-gray-500"
+                title={eta.unknownDurations > 0 ? `${eta.unknownDurations} song length(s) still unknown, counted as ${FALLBACK_DURATION / 60} min` : undefined}
+              >
+                ≈ {formatRemaining(eta.remaining)} left · ends ~{formatClock(eta.now + eta.remaining * 1000)}
+                {eta.unknownDurations > 0 && ' *'}
+              </p>
+            )}
+          </div>
           <div className="space-x-2">
             <button
               onClick={nextSong}
@@ -175,16 +371,22 @@ export default function QueuePanel({ className = '' }: QueuePanelProps) {
             onDragEnd={handleDragEnd}
           >
             <SortableContext
-              items={upcomingSongs.map((s, i) => `${s.videoId}-${i}`)}
+              items={upcomingSongs.map(sortableId)}
               strategy={verticalListSortingStrategy}
             >
               <div className="space-y-2 max-h-96 overflow-y-auto">
                 {upcomingSongs.map((song: Song, index: number) => (
                   <SortableSongItem
-                    key={`${song.videoId}-${index}`}
+                    key={sortableId(song, index)}
                     song={song}
                     index={index}
+                    singers={singers}
                     onRemove={removeSong}
+                    onSingerChange={setEntrySinger}
+                    onUnpin={unpinEntry}
+                    onPlayNext={(index) => reorderQueue(index, 0)}
+                    onPlayNow={playNow}
+                    startTime={formatClock(eta.now + eta.startsIn[index] * 1000)}
                   />
                 ))}
               </div>
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react'
+import { useQueueStore } from '../../store'
+import type { QueueUndoEntry } from '../../store/queueStore'
+
+const TOAST_MS = 5000
+
+interface Toast {
+  text: string
+  action: 'undo' | 'redo'
+}
+
+// Newest entry of a stack if it was just pushed (not uncovered by a pop)
+function pushed(stack: QueueUndoEntry[], previous: QueueUndoEntry[]): QueueUndoEntry | null {
+  const top = stack[stack.length - 1]
+  return top && !previous.includes(top) ? top : null
+}
+
+/**
+ * Offers Undo after every queue edit, wherever it came from (this window,
+ * the phone remote or the Skill API), and Redo after an undo.
+ */
+export default function UndoToast() {
+  const undoStack = useQueueStore((state) => state.undoStack)
+  const redoStack = useQueueStore((state) => state.redoStack)
+  const [toast, setToast] = useState<Toast | null>(null)
+  const previous = useRef({ undoStack, redoStack })
+
+  useEffect(() => {
+    const edited = pushed(undoStack, previous.current.undoStack)
+    const undone = pushed(redoStack, previous.current.redoStack)
+    previous.current = { undoStack, redoStack }
+
+    if (edited) setToast({ text: edited.label, action: 'undo' })
+    else if (undone) setToast({ text: `Undid: ${undone.label}`, action: 'redo' })
+    else if (undoStack.length === 0 && redoStack.length === 0) setToast(null)
+  }, [undoStack, redoStack])
+
+  useEffect(() => {
+    if (!toast) return
+    const timer = setTimeout(() => setToast(null), TOAST_MS)
+    return () => clearTimeout(timer)
+  }, [toast])
+
+  if (!toast) return null
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 rounded-full bg-gray-900 text-white text-sm shadow-lg max-w-md">
+      <span className="truncate">{toast.text}</span>
+      <button
+        onClick={() => {
+          const { undo, redo } = useQueueStore.getState()
+          if (toast.action === 'undo') undo()
+          else redo()
+        }}
+        className="shrink-0 font-bold text-yellow-300 hover:text-yellow-100"
+      >
+        {toast.action === 'undo' ? 'Undo' : 'Redo'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import { useRoomStore } from '../../store'
+import { useRoomCountdown } from '../../hooks/useRoomCountdown'
+import { formatCountdown } from '../../../shared/roomTimer'
+import { formatClock } from '../../../shared/eta'
+import type { RoomPhase } from '../../types'
+
+// Quick extensions, in minutes
+const EXTENSIONS = [15, 30, 60]
+
+const PHASE_MESSAGES: Record<RoomPhase, string> = {
+  running: '',
+  'last-song': 'Almost time: the next song is the last one',
+  expired: 'Time is up: no more songs can be added',
+}
+
+interface RoomPanelProps {
+  className?: string
+}
+
+export default function RoomPanel({ className = '' }: RoomPanelProps) {
+  const { timer, warnMinutes, startTimer, extendTimer, stopTimer, setWarnMinutes } = useRoomStore()
+  const status = useRoomCountdown(timer)
+  const [minutes, setMinutes] = useState(120)
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="space-y-1">
+        <h2 className="text-xl font-semibold text-gray-900">Room Timer</h2>
+        <p className="text-sm text-gray-600">Count down the paid time slot on both screens</p>
+      </div>
+
+      {status ? (
+        <div className={`p-3 border rounded-lg space-y-2 ${
+          status.phase === 'running' ? 'bg-blue-50 border-blue-200' :
+          status.phase === 'last-song' ? 'bg-yellow-50 border-yellow-300' : 'bg-red-50 border-red-300'
+        }`}>
+          <div className="flex items-center gap-2">
+            <span className="flex-1 text-2xl font-mono font-bold">{formatCountdown(status.remaining)}</span>
+            <span className="text-xs text-gray-500 shrink-0">ends {formatClock(status.endsAt)}</span>
+          </div>
+          {PHASE_MESSAGES[status.phase] && <p className="text-xs text-gray-700">{PHASE_MESSAGES[status.phase]}</p>}
+          <div className="flex items-center gap-1">
+            {EXTENSIONS.map((m) => (
+              <button
+                key={m}
+                onClick={() => extendTimer(m)}
+                className="flex-1 px-2 py-0.5 text-xs bg-gray-100 rounded hover:bg-gray-200"
+              >
+                +{m} min
+              </button>
+            ))}
+            <button
+              onClick={stopTimer}
+              className="px-2 py-0.5 text-xs text-red-600 hover:bg-red-100 rounded"
+            >
+              Stop
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="number"
+            min={1}
+            value={minutes}
+            onChange={(e) => setMinutes(Math.max(1, Number(e.target.value) || 1))}
+            className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+          />
+          min
+          <button
+            onClick={() => startTimer(minutes)}
+            className="ml-auto px-4 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
+          >
+            Start
+          </button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-1 text-sm text-gray-700">
+        Announce the last song
+        <input
+          type="number"
+          min={0}
+          value={warnMinutes}
+          onChange={(e) => setWarnMinutes(Math.max(0, Number(e.target.value) || 0))}
+          className="w-12 px-1 py-0.5 border border-gray-300 rounded"
+        />
+        min before the end
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { useHistoryStore, useSessionStore } from '../../store'
+import { summarizeSession } from '../../store/sessionStore'
+import { downloadFile, reportFilename, summaryToHtml, summaryToJson } from '../../services/sessionReport'
+import type { PartySession } from '../../types'
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+interface SessionPanelProps {
+  className?: string
+}
+
+export default function SessionPanel({ className = '' }: SessionPanelProps) {
+  const { sessions, startSession, endSession, removeSession } = useSessionStore()
+  const entries = useHistoryStore((state) => state.entries)
+  const [newName, setNewName] = useState('')
+  // Session whose summary is on the display window
+  const [shownId, setShownId] = useState<string | null>(null)
+
+  const active = sessions.find((s) => s.endedAt === null) ?? null
+  const past = sessions.filter((s) => s.endedAt !== null).reverse()
+  const live = active && summarizeSession(active, entries)
+
+  const showOnDisplay = (session: PartySession | null) => {
+    const summary = session && summarizeSession(session, useHistoryStore.getState().entries)
+    window.electron?.ipcRenderer?.send('session-summary-show', summary)
+    setShownId(session?.id ?? null)
+  }
+
+  const handleStart = () => {
+    startSession(newName)
+    setNewName('')
+    if (shownId) showOnDisplay(null)
+  }
+
+  const handleEnd = () => {
+    const ended = endSession()
+    if (ended) showOnDisplay(ended)
+  }
+
+  const handleExport = (session: PartySession, extension: 'html' | 'json') => {
+    const summary = summarizeSession(session, entries)
+    if (extension === 'html') {
+      downloadFile(reportFilename(summary, 'html'), summaryToHtml(summary), 'text/html')
+    } else {
+      downloadFile(reportFilename(summary, 'json'), summaryToJson(summary), 'application/json')
+    }
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="space-y-1">
+        <h2 className="text-xl font-semibold text-gray-900">Party Session</h2>
+        <p className="text-sm text-gray-600">History and singer counts follow the running session</p>
+      </div>
+
+      {active && live ? (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="flex-1 min-w-0 font-medium truncate">{active.name}</span>
+            <span className="text-xs text-gray-500 shrink-0">since {formatTime(active.startedAt)}</span>
+          </div>
+          <p className="text-xs text-gray-600">
+            {live.songsSung} sung · {live.songsSkipped} skipped · {live.singers.filter((s) => s.singer).length} singers
+          </p>
+          <button
+            onClick={handleEnd}
+            className="w-full px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700"
+          >
+            End session
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleStart()}
+            placeholder="Session name (optional)"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+          <button
+            onClick={handleStart}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
+          >
+            Start
+          </button>
+        </div>
+      )}
+
+      {past.length > 0 && (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {past.map((session) => (
+            <div key={session.id} className="p-2 bg-white border border-gray-200 rounded-lg space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 min-w-0 text-sm font-medium truncate">{session.name}</span>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {new Date(session.startedAt).toLocaleDateString()} {formatTime(session.startedAt)}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => showOnDisplay(shownId === session.id ? null : session)}
+                  className="flex-1 px-2 py-0.5 text-xs bg-gray-100 rounded hover:bg-gray-200"
+                >
+                  {shownId === session.id ? 'Hide from display' : 'Show on display'}
+                </button>
+                <button
+                  onClick={() => handleExport(session, 'html')}
+                  className="px-2 py-0.5 text-xs bg-gray-100 rounded hover:bg-gray-200"
+                >
+                  HTML
+                </button>
+                <button
+                  onClick={() => handleExport(session, 'json')}
+                  className="px-2 py-0.5 text-xs bg-gray-100 rounded hover:bg-gray-200"
+                >
+                  JSON
+                </button>
+                <button
+                  onClick={() => {
+                    if (shownId === session.id) showOnDisplay(null)
+                    removeSession(session.id)
+                  }}
+                  title="Remove session (history is kept)"
+                  className="px-1 text-xs text-gray-400 hover:text-red-600"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
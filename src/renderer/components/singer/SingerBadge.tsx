@@ -0,0 +1,29 @@
+import type { Singer } from '../../types'
+
+interface SingerBadgeProps {
+  singer: Singer
+  // Hide the name and show only the avatar circle
+  compact?: boolean
+  className?: string
+}
+
+export default function SingerBadge({ singer, compact = false, className = '' }: SingerBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 max-w-full ${className}`}
+      title={singer.name}
+    >
+      <span
+        className="inline-flex items-center justify-center w-5 h-5 shrink-0 rounded-full text-[11px] font-bold text-white"
+        style={{ backgroundColor: singer.color }}
+      >
+        {singer.avatar}
+      </span>
+      {!compact && (
+        <span className="text-xs font-medium truncate" style={{ color: singer.color }}>
+          {singer.name}
+        </span>
+      )}
+    </span>
+  )
+}
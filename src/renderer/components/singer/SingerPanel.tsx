@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { useHistoryStore, useSessionStore, useSingerStore } from '../../store'
+import { sessionEntries } from '../../store/sessionStore'
+import type { Singer } from '../../types'
+import SingerBadge from './SingerBadge'
+
+interface SingerPanelProps {
+  className?: string
+}
+
+export default function SingerPanel({ className = '' }: SingerPanelProps) {
+  const { singers, activeSingerId, addSinger, updateSinger, removeSinger, setActiveSinger } = useSingerStore()
+  const [newName, setNewName] = useState('')
+  const [newAvatar, setNewAvatar] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const entries = useHistoryStore((state) => state.entries)
+  const active = useSessionStore((state) => state.sessions.find((s) => s.endedAt === null))
+
+  // Songs each singer finished during the running session
+  const sung = new Map<string, number>()
+  for (const entry of active ? sessionEntries(entries, active) : []) {
+    const id = entry.song.singer?.id
+    if (id && entry.endReason === 'completed') sung.set(id, (sung.get(id) ?? 0) + 1)
+  }
+
+  const handleAdd = () => {
+    const name = newName.trim()
+    if (!name) return
+    const singer = addSinger(name, newAvatar.trim() || undefined)
+    setActiveSinger(singer.id)
+    setNewName('')
+    setNewAvatar('')
+  }
+
+  const editing = singers.find((s) => s.id === editingId)
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="space-y-1">
+        <h2 className="text-xl font-semibold text-gray-900">Singers</h2>
+        <p className="text-sm text-gray-600">
+          Songs you add are credited to the selected singer
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <button
+          onClick={() => setActiveSinger(null)}
+          className={`px-2 py-1 text-xs rounded-full border ${
+            activeSingerId === null ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-100'
+          }`}
+        >
+          Nobody
+        </button>
+        {singers.map((singer: Singer) => (
+          <button
+            key={singer.id}
+            onClick={() => setActiveSinger(singer.id)}
+            onDoubleClick={() => setEditingId(singer.id)}
+            title={active ? `${sung.get(singer.id) ?? 0} songs this session · double-click to edit` : 'Double-click to edit'}
+            className={`px-2 py-1 rounded-full border max-w-[9rem] ${
+              activeSingerId === singer.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-100'
+            }`}
+          >
+            <SingerBadge singer={singer} />
+            {sung.has(singer.id) && <span className="ml-1 text-xs text-gray-500">×{sung.get(singer.id)}</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newAvatar}
+          onChange={(e) => setNewAvatar(e.target.value)}
+          placeholder="🎤"
+          maxLength={2}
+          className="w-10 px-2 py-2 border border-gray-300 rounded-lg text-center text-sm"
+        />
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="New singer"
+          maxLength={40}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {editing && (
+        <div className="flex items-center gap-2 p-2 bg-white border border-gray-200 rounded-lg">
+          <input
+            type="color"
+            value={editing.color}
+            onChange={(e) => updateSinger(editing.id, { color: e.target.value })}
+            className="w-8 h-8 shrink-0"
+          />
+          <input
+            type="text"
+            value={editing.avatar}
+            onChange={(e) => updateSinger(editing.id, { avatar: e.target.value })}
+            maxLength={2}
+            className="w-10 px-2 py-1 border border-gray-300 rounded text-center text-sm"
+          />
+          <input
+            type="text"
+            value={editing.name}
+            onChange={(e) => updateSinger(editing.id, { name: e.target.value })}
+            maxLength={40}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <button
+            onClick={() => {
+              removeSinger(editing.id)
+              setEditingId(null)
+            }}
+            className="px-2 py-1 text-xs text-red-600 hover:bg-red-100 rounded"
+          >
+            Delete
+          </button>
+          <button
+            onClick={() => setEditingId(null)}
+            className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+          >
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+import type { JoinInfo } from '../../shared/types'
+
+/**
+ * Phone remote join link + QR code, kept current when the host changes
+ * remote settings or regenerates the join token.
+ */
+export const useJoinInfo = (): JoinInfo | null => {
+  const [joinInfo, setJoinInfo] = useState<JoinInfo | null>(null)
+
+  useEffect(() => {
+    if (!window.electron?.remote) return
+    const { ipcRenderer, remote } = window.electron
+
+    remote.getJoinInfo().then(setJoinInfo).catch(() => setJoinInfo(null))
+
+    const handleJoinChanged = (info: JoinInfo) => setJoinInfo(info)
+    ipcRenderer.on('remote-join-changed', handleJoinChanged)
+    return () => {
+      window.electron?.ipcRenderer?.removeAllListeners('remote-join-changed')
+    }
+  }, [])
+
+  return joinInfo
+}
+
+export default useJoinInfo
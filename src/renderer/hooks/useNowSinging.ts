@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+import type { Singer } from '../../shared/types'
+
+/**
+ * Singer of the current queue entry, for the display window. Asked for on
+ * load (the display reloads per song) and pushed when the current song or
+ * its singer changes.
+ */
+export const useNowSinging = (): Singer | null => {
+  const [singer, setSinger] = useState<Singer | null>(null)
+
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return
+    const { ipcRenderer } = window.electron
+
+    ipcRenderer.invoke('now-singing').then(setSinger).catch(() => setSinger(null))
+
+    const handleChanged = (next: Singer | null) => setSinger(next)
+    ipcRenderer.on('now-singing-changed', handleChanged)
+    return () => {
+      window.electron?.ipcRenderer?.removeAllListeners('now-singing-changed')
+    }
+  }, [])
+
+  return singer
+}
+
+export default useNowSinging
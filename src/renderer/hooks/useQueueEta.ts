@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react'
+import { estimateQueue } from '../../shared/eta'
+import type { QueueEta } from '../../shared/eta'
+import { useQueueStore } from '../store'
+import { entryKey } from '../store/queueStore'
+
+// Start times are shown to the minute
+const TICK_MS = 30_000
+
+/**
+ * Estimated start times for the upcoming songs, kept current with the
+ * checkpointed playback position. `now` is the time the estimate was made.
+ */
+export const useQueueEta = (): QueueEta & { now: number } => {
+  const currentSong = useQueueStore((state) => state.currentSong)
+  const upcomingSongs = useQueueStore((state) => state.upcomingSongs)
+  const position = useQueueStore((state) => state.playbackPosition)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const elapsed = currentSong && position?.entry === entryKey(currentSong) ? position.time : 0
+  return { ...estimateQueue(currentSong, upcomingSongs, elapsed), now }
+}
+
+export default useQueueEta
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react'
+import { roomStatus } from '../../shared/roomTimer'
+import type { RoomStatus, RoomTimer } from '../../shared/types'
+
+// The countdown shows seconds
+const TICK_MS = 1000
+
+/** Live status of a room timer, ticking every second; null without a timer */
+export const useRoomCountdown = (timer: RoomTimer | null): RoomStatus | null => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  return timer && roomStatus(timer, now)
+}
+
+export default useRoomCountdown
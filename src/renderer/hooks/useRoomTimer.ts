@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+import type { RoomTimer } from '../../shared/types'
+
+/**
+ * The room timer, for the display window. Asked for on load (the display
+ * reloads per song) and pushed when the host starts, extends or stops it.
+ */
+export const useRoomTimer = (): RoomTimer | null => {
+  const [timer, setTimer] = useState<RoomTimer | null>(null)
+
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return
+    const { ipcRenderer } = window.electron
+
+    ipcRenderer.invoke('room-timer').then(setTimer).catch(() => setTimer(null))
+
+    const handleChanged = (next: RoomTimer | null) => setTimer(next)
+    ipcRenderer.on('room-timer-changed', handleChanged)
+    return () => {
+      window.electron?.ipcRenderer?.removeAllListeners('room-timer-changed')
+    }
+  }, [])
+
+  return timer
+}
+
+export default useRoomTimer
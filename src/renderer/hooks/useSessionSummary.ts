@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+import type { SessionSummary } from '../../shared/types'
+
+/**
+ * The session summary the host put on the display window, or null. Asked
+ * for on load (the display reloads per song) and pushed when the host shows
+ * or hides it.
+ */
+export const useSessionSummary = (): SessionSummary | null => {
+  const [summary, setSummary] = useState<SessionSummary | null>(null)
+
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return
+    const { ipcRenderer } = window.electron
+
+    ipcRenderer.invoke('session-summary').then(setSummary).catch(() => setSummary(null))
+
+    const handleChanged = (next: SessionSummary | null) => setSummary(next)
+    ipcRenderer.on('session-summary-changed', handleChanged)
+    return () => {
+      window.electron?.ipcRenderer?.removeAllListeners('session-summary-changed')
+    }
+  }, [])
+
+  return summary
+}
+
+export default useSessionSummary
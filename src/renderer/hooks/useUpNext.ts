@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+import type { UpNext } from '../../shared/types'
+
+/**
+ * The next few songs with estimated start times, for the display window.
+ * Asked for on load (the display reloads per song) and pushed when the
+ * queue changes.
+ */
+export const useUpNext = (): UpNext | null => {
+  const [upNext, setUpNext] = useState<UpNext | null>(null)
+
+  useEffect(() => {
+    if (!window.electron?.ipcRenderer) return
+    const { ipcRenderer } = window.electron
+
+    ipcRenderer.invoke('up-next').then(setUpNext).catch(() => setUpNext(null))
+
+    const handleChanged = (next: UpNext) => setUpNext(next)
+    ipcRenderer.on('up-next-changed', handleChanged)
+    return () => {
+      window.electron?.ipcRenderer?.removeAllListeners('up-next-changed')
+    }
+  }, [])
+
+  return upNext
+}
+
+export default useUpNext
@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useState } from 'react'
 import { PlaybackState, PlayerStateInfo, YouTubePlayerCommand } from '../../shared/types'
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from '../../shared/playbackRate'
 
 interface UseYouTubePlayerReturn {
   // Display window management
@@ -13,6 +14,7 @@ interface UseYouTubePlayerReturn {
   stopVideo: () => Promise<boolean>
   seekTo: (seconds: number) => Promise<boolean>
   setVolume: (volume: number) => Promise<boolean>
+  setPlaybackRate: (rate: number) => Promise<boolean>
   mute: () => Promise<boolean>
   unmute: () => Promise<boolean>
   getPlayerState: () => Promise<PlayerStateInfo | null>
@@ -136,6 +138,14 @@ export const useYouTubePlayer = (): UseYouTubePlayerReturn => {
     return sendPlayerCommand('set-volume', volume)
   }, [sendPlayerCommand])
 
+  const setPlaybackRate = useCallback(async (rate: number): Promise<boolean> => {
+    if (rate < MIN_PLAYBACK_RATE || rate > MAX_PLAYBACK_RATE) {
+      setLastError(`Playback rate must be between ${MIN_PLAYBACK_RATE} and ${MAX_PLAYBACK_RATE}`)
+      return false
+    }
+    return sendPlayerCommand('set-playback-rate', rate)
+  }, [sendPlayerCommand])
+
   const mute = useCallback(async (): Promise<boolean> => {
     return sendPlayerCommand('mute')
   }, [sendPlayerCommand])
@@ -234,6 +244,7 @@ export const useYouTubePlayer = (): UseYouTubePlayerReturn => {
     stopVideo,
     seekTo,
     setVolume,
+    setPlaybackRate,
     mute,
     unmute,
     getPlayerState,
@@ -0,0 +1,32 @@
+// Practice speeds remembered per video, so a song comes back at the speed it
+// was last practised at. Kept by the display window, which applies them.
+import { normalizePlaybackRate } from '../../shared/playbackRate'
+
+const STORAGE_KEY = 'ktv-playback-rates'
+// Oldest videos are forgotten past this many
+const MAX_REMEMBERED = 200
+
+function load(): Record<string, number> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/** The rate `videoId` was last played at, or 1 */
+export function rememberedRate(videoId: string): number {
+  const rate = load()[videoId]
+  return typeof rate === 'number' ? normalizePlaybackRate(rate) : 1
+}
+
+/** Remember `rate` for `videoId`; normal speed is forgotten */
+export function rememberRate(videoId: string, rate: number) {
+  const rates = load()
+  delete rates[videoId]
+  if (rate !== 1) rates[videoId] = rate
+  // Insertion order is oldest first
+  const kept = Object.entries(rates).slice(-MAX_REMEMBERED)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)))
+}
@@ -0,0 +1,21 @@
+// The display's player state, fed into the queue store's playbackState
+import type { PlayerStateInfo } from '../../shared/types'
+import type { ElectronIpcRenderer } from '../types/global'
+import { useQueueStore } from '../store/queueStore'
+
+/**
+ * Keep the queue's playbackState in step with the display's
+ * `player-state-changed` reports, so it goes playing, paused and so on
+ * rather than staying at loading. Reports about another video (the last
+ * song winding down) are ignored. Returns a function that stops listening.
+ */
+export function syncPlayerState(ipcRenderer: Pick<ElectronIpcRenderer, 'on' | 'removeAllListeners'>): () => void {
+  const handleStateChanged = (info: PlayerStateInfo) => {
+    const { currentSong, playbackState, setPlaybackState } = useQueueStore.getState()
+    if (!currentSong || (info.videoId && info.videoId !== currentSong.videoId)) return
+    if (info.state !== playbackState) setPlaybackState(info.state)
+  }
+
+  ipcRenderer.on('player-state-changed', handleStateChanged)
+  return () => ipcRenderer.removeAllListeners('player-state-changed')
+}
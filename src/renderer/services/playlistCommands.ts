@@ -0,0 +1,68 @@
+// Playlist commands sent by the Skill API - run against usePlaylistStore
+import type { Playlist, PlaylistCommand, PlaylistSummary } from '../../shared/types'
+import { usePlaylistStore } from '../store/playlistStore'
+
+export function summarizePlaylist(playlist: Playlist): PlaylistSummary {
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    songCount: playlist.songs.length,
+    createdAt: playlist.createdAt,
+  }
+}
+
+/**
+ * Run a playlist command and return a JSON-safe result for the main process.
+ * Commands that target a playlist return `null` when it doesn't exist.
+ */
+export function runPlaylistCommand(command: PlaylistCommand): unknown {
+  const store = usePlaylistStore.getState()
+  const find = (id: string) => usePlaylistStore.getState().getPlaylist(id) ?? null
+
+  switch (command.action) {
+    case 'list':
+      return store.playlists.map(summarizePlaylist)
+
+    case 'get':
+      return find(command.playlistId)
+
+    case 'create':
+      return store.createPlaylist(command.name, command.songs ?? [])
+
+    case 'rename':
+      if (!find(command.playlistId)) return null
+      store.renamePlaylist(command.playlistId, command.name)
+      return find(command.playlistId)
+
+    case 'delete': {
+      const playlist = find(command.playlistId)
+      if (playlist) store.deletePlaylist(command.playlistId)
+      return playlist
+    }
+
+    case 'add-song':
+      if (!find(command.playlistId)) return null
+      store.addSongToPlaylist(command.playlistId, command.song)
+      return find(command.playlistId)
+
+    case 'remove-song':
+      if (!find(command.playlistId)) return null
+      store.removeSongFromPlaylist(command.playlistId, command.index)
+      return find(command.playlistId)
+
+    case 'load': {
+      const playlist = find(command.playlistId)
+      if (!playlist) return null
+      return { playlist: summarizePlaylist(playlist), ...store.loadPlaylistToQueue(command.playlistId, command.replace) }
+    }
+
+    case 'export': {
+      if (command.playlistId === undefined) return store.playlists
+      const playlist = find(command.playlistId)
+      return playlist && [playlist]
+    }
+
+    case 'import':
+      return store.importPlaylists(command.playlists, command.onCollision)
+  }
+}
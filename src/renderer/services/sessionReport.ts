@@ -0,0 +1,69 @@
+// Session summary exports - a standalone HTML page and the raw JSON
+import type { SessionSummary } from '../../shared/types'
+import { formatRemaining } from '../../shared/eta'
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!)
+
+const formatDateTime = (ts: number) => new Date(ts).toLocaleString()
+
+export function summaryToJson(summary: SessionSummary): string {
+  return JSON.stringify(summary, null, 2)
+}
+
+export function summaryToHtml(summary: SessionSummary): string {
+  const { session } = summary
+  const name = escapeHtml(session.name)
+  const singers = summary.singers
+    .map(({ singer, songs }) => `<tr><td>${escapeHtml(singer?.name ?? 'Nobody')}</td><td>${songs}</td></tr>`)
+    .join('\n')
+  const skipped = summary.mostSkipped
+    .map(({ title, skips }) => `<tr><td>${escapeHtml(title)}</td><td>${skips}</td></tr>`)
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${name}</title>
+<style>
+body { font-family: sans-serif; max-width: 40rem; margin: 2rem auto; color: #222; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+td, th { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #ddd; }
+</style>
+</head>
+<body>
+<h1>${name}</h1>
+<p>${formatDateTime(session.startedAt)} – ${session.endedAt ? formatDateTime(session.endedAt) : 'still running'}</p>
+<table>
+<tr><th>Songs sung</th><td>${summary.songsSung}</td></tr>
+<tr><th>Songs skipped</th><td>${summary.songsSkipped}</td></tr>
+<tr><th>Total time</th><td>${formatRemaining(summary.duration)}</td></tr>
+<tr><th>Time singing</th><td>${formatRemaining(summary.singingTime)}</td></tr>
+</table>
+<h2>Singers</h2>
+${singers ? `<table>\n<tr><th>Singer</th><th>Songs</th></tr>\n${singers}\n</table>` : '<p>Nobody sang.</p>'}
+<h2>Most skipped</h2>
+${skipped ? `<table>\n<tr><th>Song</th><th>Skips</th></tr>\n${skipped}\n</table>` : '<p>Nothing was skipped.</p>'}
+</body>
+</html>
+`
+}
+
+/** Save `content` through the browser's download prompt */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/** File name for an export, e.g. "friday-night-2026-10-19.html" */
+export function reportFilename(summary: SessionSummary, extension: 'html' | 'json'): string {
+  const d = new Date(summary.session.startedAt)
+  const date = [d.getFullYear(), d.getMonth() + 1, d.getDate()].map((n) => String(n).padStart(2, '0')).join('-')
+  const slug = summary.session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug ? `${slug}-` : 'session-'}${date}.${extension}`
+}
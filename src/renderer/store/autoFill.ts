@@ -0,0 +1,65 @@
+import type { AutoFillSettings, HistoryEntry, Playlist, Song } from '../types'
+
+export const DEFAULT_AUTO_FILL: AutoFillSettings = { enabled: false, source: 'history', playlistId: null }
+
+// The 'history' source picks from this many of the most sung songs
+export const MOST_SUNG = 20
+
+// Songs among the last this many played aren't picked again, if there's a choice
+export const RECENT_SONGS = 10
+
+export interface AutoFillSources {
+  playlists: Playlist[]
+  favourites: Song[]
+  history: HistoryEntry[] // newest first
+}
+
+/**
+ * Pick a song to play when the queue runs dry, or null if the source has
+ * none. The song comes without a singer or queue bookkeeping.
+ */
+export function pickAutoFill(
+  settings: AutoFillSettings,
+  sources: AutoFillSources,
+  random = Math.random
+): Song | null {
+  const candidates = candidatesFor(settings, sources)
+  if (candidates.length === 0) return null
+
+  const recent = new Set(sources.history.slice(0, RECENT_SONGS).map((e) => e.song.videoId))
+  const fresh = candidates.filter((s) => !recent.has(s.videoId))
+  const pool = fresh.length > 0 ? fresh : candidates
+  const { videoId, title, channel, thumbnail, duration } = pool[Math.floor(random() * pool.length)]
+  return { videoId, title, channel, thumbnail, duration }
+}
+
+function candidatesFor(settings: AutoFillSettings, sources: AutoFillSources): Song[] {
+  switch (settings.source) {
+    case 'playlist':
+      return sources.playlists.find((p) => p.id === settings.playlistId)?.songs ?? []
+    case 'favourites':
+      return sources.favourites
+    case 'history':
+      return mostSung(sources.history)
+  }
+}
+
+/** Songs sung to the end most often, most sung first; auto-fill picks don't count */
+export function mostSung(history: HistoryEntry[], limit = MOST_SUNG): Song[] {
+  const counts = new Map<string, { song: Song; count: number }>()
+  for (const entry of history) {
+    if (entry.endReason !== 'completed' || entry.song.autoAdded) continue
+    const seen = counts.get(entry.song.videoId)
+    if (seen) {
+      seen.count++
+    } else {
+      // History is newest first, so this is the latest copy of the song
+      counts.set(entry.song.videoId, { song: entry.song, count: 1 })
+    }
+  }
+  // Stable sort: ties stay most recently sung first
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map((c) => c.song)
+}
@@ -0,0 +1,54 @@
+import type { DuplicateCheck, DuplicatePolicy, HistoryEntry, Queue, Song } from '../types'
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = { mode: 'allow', recentSongs: 0, recentMinutes: 0 }
+
+/**
+ * Check `song` against what's playing, what's queued and, if the policy has
+ * a recent window, the newest history entries. Songs match by videoId, so a
+ * different upload of the same hit is not a duplicate.
+ */
+export function checkDuplicate(
+  song: Song,
+  queue: Pick<Queue, 'currentSong' | 'upcomingSongs'>,
+  history: HistoryEntry[],
+  policy: DuplicatePolicy,
+  now = Date.now()
+): DuplicateCheck {
+  if (policy.mode === 'allow') return { rejected: false }
+
+  const duplicate = findDuplicate(song, queue, history, policy, now)
+  if (!duplicate) return { rejected: false }
+  return { rejected: policy.mode === 'reject', duplicate }
+}
+
+function findDuplicate(
+  song: Song,
+  queue: Pick<Queue, 'currentSong' | 'upcomingSongs'>,
+  history: HistoryEntry[],
+  policy: DuplicatePolicy,
+  now: number
+): DuplicateCheck['duplicate'] {
+  if (queue.currentSong?.videoId === song.videoId) {
+    return { reason: 'playing', message: `"${song.title}" is playing now` }
+  }
+
+  const position = queue.upcomingSongs.findIndex((s) => s.videoId === song.videoId)
+  if (position !== -1) {
+    return { reason: 'queued', message: `"${song.title}" is already queued (#${position + 1} up next)` }
+  }
+
+  // History is newest first. The open entry is the current song, handled
+  // above, and skipped songs weren't sung, so neither counts towards the window
+  const since = now - policy.recentMinutes * 60_000
+  const finished = history.filter((entry) => entry.endedAt !== null && entry.endReason !== 'skipped')
+  const sung = finished.find((entry, i) =>
+    entry.song.videoId === song.videoId &&
+    (i < policy.recentSongs || (policy.recentMinutes > 0 && entry.startedAt >= since))
+  )
+  if (sung) {
+    const minutes = Math.max(1, Math.round((now - sung.startedAt) / 60_000))
+    return { reason: 'recently-sung', message: `"${song.title}" was sung ${minutes} min ago` }
+  }
+
+  return undefined
+}
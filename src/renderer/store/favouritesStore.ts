@@ -0,0 +1,53 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { Song } from '../../shared/types'
+
+interface FavouritesActions {
+  // Star the song, or unstar it if it's already a favourite
+  toggleFavourite: (song: Song) => void
+  isFavourite: (videoId: string) => boolean
+}
+
+interface FavouritesStore {
+  // Newest first; one per video
+  songs: Song[]
+}
+
+interface FavouritesStoreWithActions extends FavouritesStore, FavouritesActions {}
+
+export const useFavouritesStore = create<FavouritesStoreWithActions>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        // Initial state
+        songs: [],
+
+        // Actions
+        toggleFavourite: (song: Song) =>
+          set(
+            (state) => ({
+              songs: state.songs.some((s) => s.videoId === song.videoId)
+                ? state.songs.filter((s) => s.videoId !== song.videoId)
+                : [plainSong(song), ...state.songs],
+            }),
+            false,
+            'toggleFavourite'
+          ),
+
+        isFavourite: (videoId: string) => get().songs.some((s) => s.videoId === videoId),
+      }),
+      {
+        name: 'ktv-favourites',
+        partialize: (state) => ({ songs: state.songs }),
+      }
+    ),
+    {
+      name: 'favourites-store',
+    }
+  )
+)
+
+// A favourite is the song itself, not one queue entry of it
+function plainSong({ videoId, title, channel, thumbnail, duration }: Song): Song {
+  return { videoId, title, channel, thumbnail, duration }
+}
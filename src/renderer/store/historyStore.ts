@@ -0,0 +1,107 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { HistoryEntry, HistoryQuery, Song, SongEndReason } from '../../shared/types'
+
+// Oldest entries are dropped past this many
+export const MAX_HISTORY = 1000
+
+interface HistoryActions {
+  recordStart: (song: Song) => void
+  recordEnd: (reason: SongEndReason) => void
+  removeEntry: (id: string) => void
+  clearHistory: () => void
+}
+
+interface HistoryStore {
+  // Newest first; at most one entry (the first) is still playing
+  entries: HistoryEntry[]
+}
+
+interface HistoryStoreWithActions extends HistoryStore, HistoryActions {}
+
+const entryKey = (song: Song) => song.entryId ?? song.videoId
+
+export const useHistoryStore = create<HistoryStoreWithActions>()(
+  devtools(
+    persist(
+      (set) => ({
+        // Initial state
+        entries: [],
+
+        // Actions
+        // Called whenever the current song changes. The same entry (e.g. after
+        // a restart) is not recorded twice; a song still open was skipped.
+        recordStart: (song: Song) =>
+          set(
+            (state) => {
+              const [latest] = state.entries
+              if (latest && latest.endedAt === null && entryKey(latest.song) === entryKey(song)) {
+                // Same entry, maybe with a new singer
+                return { entries: [{ ...latest, song }, ...state.entries.slice(1)] }
+              }
+              const now = Date.now()
+              const entry: HistoryEntry = {
+                id: generateId(),
+                song,
+                startedAt: now,
+                endedAt: null,
+                endReason: null,
+              }
+              return {
+                entries: [entry, ...state.entries.map((e) => close(e, 'skipped', now))].slice(0, MAX_HISTORY),
+              }
+            },
+            false,
+            'recordStart'
+          ),
+
+        recordEnd: (reason: SongEndReason) =>
+          set(
+            (state) => {
+              const now = Date.now()
+              return { entries: state.entries.map((e) => close(e, reason, now)) }
+            },
+            false,
+            'recordEnd'
+          ),
+
+        removeEntry: (id: string) =>
+          set(
+            (state) => ({ entries: state.entries.filter((e) => e.id !== id) }),
+            false,
+            'removeEntry'
+          ),
+
+        clearHistory: () => set({ entries: [] }, false, 'clearHistory'),
+      }),
+      {
+        name: 'ktv-history',
+        partialize: (state) => ({ entries: state.entries }),
+      }
+    ),
+    {
+      name: 'history-store',
+    }
+  )
+)
+
+function close(entry: HistoryEntry, reason: SongEndReason, now: number): HistoryEntry {
+  return entry.endedAt === null ? { ...entry, endedAt: now, endReason: reason } : entry
+}
+
+/** Local calendar day (YYYY-MM-DD) of a timestamp */
+export function localDate(timestamp: number): string {
+  const d = new Date(timestamp)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
+/** Entries started on `query.date` (local time), newest first, up to `query.limit` */
+export function queryHistory(entries: HistoryEntry[], query: HistoryQuery = {}): HistoryEntry[] {
+  const matching = query.date ? entries.filter((e) => localDate(e.startedAt) === query.date) : entries
+  return query.limit !== undefined ? matching.slice(0, query.limit) : matching
+}
+
+function generateId(): string {
+  return 'h' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36)
+}
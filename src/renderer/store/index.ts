@@ -3,6 +3,12 @@
 
 export { useQueueStore } from './queueStore';
 export { usePlaylistStore } from './playlistStore';
+export { useSingerStore } from './singerStore';
+export { useHistoryStore } from './historyStore';
+export { useSessionStore } from './sessionStore';
+export { useModerationStore } from './moderationStore';
+export { useFavouritesStore } from './favouritesStore';
+export { useRoomStore } from './roomStore';
 
 // Re-export types from the types module
-export type { Song, Queue, Playlist, PlaybackState } from '../types';
\ No newline at end of file
+export type { Song, Singer, Queue, Playlist, HistoryEntry, PartySession, PlaybackState } from '../types';
\ No newline at end of file
@@ -0,0 +1,55 @@
+import type { AddCheck, QueueLimits, RoomTimer, Song } from '../types'
+import { formatRemaining } from '../../shared/eta'
+import { roomStatus } from '../../shared/roomTimer'
+
+export const DEFAULT_QUEUE_LIMITS: QueueLimits = { maxSongsPerSinger: 0, maxDuration: 0, cooldownMinutes: 0 }
+
+/**
+ * Check `song` against the request limits. `lastAddAt` is when its singer
+ * last added a song, if ever. Returns the first limit broken, if any.
+ */
+export function checkLimits(
+  song: Song,
+  upcomingSongs: Song[],
+  lastAddAt: number | undefined,
+  limits: QueueLimits,
+  now = Date.now()
+): AddCheck['limit'] {
+  if (limits.maxDuration > 0 && song.duration > limits.maxDuration) {
+    return {
+      reason: 'song-too-long',
+      message: `"${song.title}" is longer than the ${formatRemaining(limits.maxDuration)} limit`,
+    }
+  }
+
+  const singer = song.singer
+  if (!singer) return undefined
+
+  if (limits.maxSongsPerSinger > 0) {
+    const queued = upcomingSongs.filter((s) => s.singer?.id === singer.id).length
+    if (queued >= limits.maxSongsPerSinger) {
+      return {
+        reason: 'singer-queue-full',
+        message: `${singer.name} already has ${queued} song${queued === 1 ? '' : 's'} queued (limit ${limits.maxSongsPerSinger})`,
+      }
+    }
+  }
+
+  if (limits.cooldownMinutes > 0 && lastAddAt !== undefined) {
+    const wait = lastAddAt + limits.cooldownMinutes * 60_000 - now
+    if (wait > 0) {
+      return {
+        reason: 'singer-cooldown',
+        message: `${singer.name} can add another song in ${formatRemaining(wait / 1000)}`,
+      }
+    }
+  }
+
+  return undefined
+}
+
+/** Once the room's time is up no more songs are taken, whoever adds them */
+export function checkRoomTime(timer: RoomTimer | null, now = Date.now()): AddCheck['limit'] {
+  if (!timer || roomStatus(timer, now).phase !== 'expired') return undefined
+  return { reason: 'room-time-up', message: 'Room time is up; extend it to add more songs' }
+}
@@ -0,0 +1,81 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { AddCheck, PendingSong, QueuePosition, Song } from '../../shared/types'
+import { useQueueStore } from './queueStore'
+
+interface ModerationActions {
+  setHostMode: (enabled: boolean) => void
+  setQueueLocked: (locked: boolean) => void
+  requestSong: (song: Song, position: QueuePosition, requestedBy: string) => PendingSong
+  // The add check; a rejected song stays pending. Null if the request is gone.
+  approve: (id: string) => AddCheck | null
+  reject: (id: string) => void
+}
+
+interface ModerationStore {
+  // Songs from the Skill API and the phone remote wait for approval
+  hostMode: boolean
+  // The Skill API can't reorder, remove or clear; the control window still can
+  queueLocked: boolean
+  // Oldest first
+  pendingSongs: PendingSong[]
+}
+
+interface ModerationStoreWithActions extends ModerationStore, ModerationActions {}
+
+export const useModerationStore = create<ModerationStoreWithActions>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        // Initial state
+        hostMode: false,
+        queueLocked: false,
+        pendingSongs: [],
+
+        // Actions
+        setHostMode: (enabled: boolean) => set({ hostMode: enabled }, false, 'setHostMode'),
+
+        setQueueLocked: (locked: boolean) => set({ queueLocked: locked }, false, 'setQueueLocked'),
+
+        requestSong: (song: Song, position: QueuePosition, requestedBy: string) => {
+          const request: PendingSong = { id: generateId(), song, position, requestedBy, requestedAt: Date.now() }
+          set((state) => ({ pendingSongs: [...state.pendingSongs, request] }), false, 'requestSong')
+          return request
+        },
+
+        approve: (id: string) => {
+          const request = get().pendingSongs.find((p) => p.id === id)
+          if (!request) return null
+          const queue = useQueueStore.getState()
+          const add = request.position === 'now' ? queue.playNow :
+            request.position === 'next' ? queue.insertNext : queue.addSong
+          const check = add(request.song)
+          if (!check.rejected) get().reject(id)
+          return check
+        },
+
+        reject: (id: string) =>
+          set(
+            (state) => ({ pendingSongs: state.pendingSongs.filter((p) => p.id !== id) }),
+            false,
+            'reject'
+          ),
+      }),
+      {
+        name: 'ktv-moderation',
+        partialize: (state) => ({
+          hostMode: state.hostMode,
+          queueLocked: state.queueLocked,
+          pendingSongs: state.pendingSongs,
+        }),
+      }
+    ),
+    {
+      name: 'moderation-store',
+    }
+  )
+)
+
+function generateId(): string {
+  return 'r' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36)
+}
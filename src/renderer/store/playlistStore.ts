@@ -1,6 +1,6 @@
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
-import type { Song, Playlist } from '../types'
+import type { Song, Playlist, ImportedPlaylist, ImportedPlaylistResult, PlaylistCollision, RejectedSong } from '../types'
 import { useQueueStore } from './queueStore'
 
 interface PlaylistActions {
@@ -8,12 +8,15 @@ interface PlaylistActions {
   deletePlaylist: (id: string) => void
   addSongToPlaylist: (playlistId: string, song: Song) => void
   removeSongFromPlaylist: (playlistId: string, songIndex: number) => void
-  loadPlaylistToQueue: (playlistId: string, replace?: boolean) => void
+  // Returns how many songs were queued and the songs the add checks rejected
+  loadPlaylistToQueue: (playlistId: string, replace?: boolean) => { queued: number; skipped: RejectedSong[] }
   updatePlaylistName: (id: string, name: string) => void
   renamePlaylist: (id: string, name: string) => void
   moveSongInPlaylist: (playlistId: string, fromIndex: number, toIndex: number) => void
   getPlaylist: (id: string) => Playlist | undefined
   clearPlaylist: (id: string) => void
+  // Save playlists read from an import file, in order
+  importPlaylists: (playlists: ImportedPlaylist[], onCollision: PlaylistCollision) => ImportedPlaylistResult[]
 }
 
 interface PlaylistStore {
@@ -88,17 +91,27 @@ export const usePlaylistStore = create<PlaylistStoreWithActions>()(
         loadPlaylistToQueue: (playlistId: string, replace: boolean = false) => {
           const state = get()
           const playlist = state.playlists.find((p) => p.id === playlistId)
-          if (!playlist) return
+          if (!playlist) return { queued: 0, skipped: [] }
 
           const queueStore = useQueueStore.getState()
-          
-          if (replace) {
-            queueStore.clearQueue()
-          }
 
-          playlist.songs.forEach((song) => {
-            queueStore.addSong(song)
+          let queued = 0
+          const skipped: RejectedSong[] = []
+          // One undo step for the whole load
+          queueStore.batch(`Loaded ${playlist.name}`, () => {
+            if (replace) {
+              queueStore.clearQueue()
+            }
+
+            const fromPlaylist = { id: playlist.id, name: playlist.name }
+            playlist.songs.forEach((song) => {
+              const check = queueStore.addSong({ ...song, fromPlaylist })
+              const rejection = check.rejected && (check.limit ?? check.duplicate)
+              if (!rejection) queued++
+              else skipped.push({ videoId: song.videoId, title: song.title, ...rejection })
+            })
           })
+          return { queued, skipped }
         },
 
         updatePlaylistName: (id: string, name: string) =>
@@ -150,6 +163,40 @@ export const usePlaylistStore = create<PlaylistStoreWithActions>()(
             false,
             'clearPlaylist'
           ),
+
+        // Names match ignoring case. Merging adds only songs the playlist
+        // doesn't have yet; a duplicate gets the next free "Name (2)".
+        importPlaylists: (playlists: ImportedPlaylist[], onCollision: PlaylistCollision) =>
+          playlists.map(({ name, songs }) => {
+            const state = get()
+            const existing = state.playlists.find((p) => sameName(p.name, name))
+            if (existing && onCollision === 'merge') {
+              const have = new Set(existing.songs.map((s) => s.videoId))
+              const added: Song[] = []
+              for (const song of songs) {
+                if (have.has(song.videoId)) continue
+                have.add(song.videoId)
+                added.push(song)
+              }
+              set(
+                (current) => ({
+                  playlists: current.playlists.map((p) =>
+                    p.id === existing.id ? { ...p, songs: [...p.songs, ...added] } : p
+                  ),
+                }),
+                false,
+                'importPlaylists'
+              )
+              return { id: existing.id, name: existing.name, added: added.length, merged: true }
+            }
+
+            let unique = name
+            for (let n = 2; state.playlists.some((p) => sameName(p.name, unique)); n++) {
+              unique = `${name} (${n})`
+            }
+            const playlist = state.createPlaylist(unique, songs)
+            return { id: playlist.id, name: playlist.name, added: songs.length, merged: false }
+          }),
       }),
       {
         name: 'playlist-store',
@@ -163,6 +210,10 @@ export const usePlaylistStore = create<PlaylistStoreWithActions>()(
   )
 )
 
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
 /** Generate unique ID for playlists */
 function generateId(): string {
   return Math.random().toString(36).substr(2, 9) + Date.now().toString(36)
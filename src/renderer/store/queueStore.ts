@@ -1,11 +1,28 @@
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
-import type { Song, Queue } from '../types'
+import type { Song, Singer, Queue, DuplicatePolicy, AddCheck, QueueLimits, AutoFillSettings } from '../types'
 import { PlaybackState } from '../types'
+import { checkDuplicate, DEFAULT_DUPLICATE_POLICY } from './duplicates'
+import { checkLimits, checkRoomTime, DEFAULT_QUEUE_LIMITS } from './limits'
+import { useHistoryStore } from './historyStore'
+import { usePlaylistStore } from './playlistStore'
+import { useFavouritesStore } from './favouritesStore'
+import { useRoomStore } from './roomStore'
+import { DEFAULT_AUTO_FILL, pickAutoFill } from './autoFill'
+import { fairOrder } from './rotation'
 
 interface QueueActions {
-  addSong: (song: Song) => void
+  // All return the add check; a rejected song is not queued
+  addSong: (song: Song) => AddCheck
+  insertNext: (song: Song) => AddCheck
+  playNow: (song: Song) => AddCheck
   removeSong: (index: number) => void
+  removeEntry: (entryId: string) => void
+  moveEntry: (entryId: string, toIndex: number) => void
+  setEntrySinger: (entryId: string, singer: Singer | null) => void
+  syncSinger: (singer: Singer) => void
+  setDuration: (videoId: string, duration: number) => void
+  setPlaybackPosition: (time: number) => void
   nextSong: () => void
   clearQueue: () => void
   reorderQueue: (fromIndex: number, toIndex: number) => void
@@ -15,9 +32,53 @@ interface QueueActions {
   setCurrentSong: (song: Song | null) => void
   shuffleQueue: () => void
   moveInQueue: (fromIndex: number, toIndex: number) => void
+  setRotationMode: (enabled: boolean) => void
+  unpinEntry: (entryId: string) => void
+  setDuplicatePolicy: (policy: DuplicatePolicy) => void
+  setQueueLimits: (limits: QueueLimits) => void
+  setAutoFill: (settings: AutoFillSettings) => void
+  // Room time first, then request limits, then the duplicate policy
+  checkAdd: (song: Song) => AddCheck
+  undo: () => string | null
+  redo: () => string | null
+  batch: (label: string, fn: () => void) => void
 }
 
-interface QueueStore extends Queue, QueueActions {}
+// Queue contents before (undo) or after (redo) an edit
+export interface QueueUndoEntry {
+  label: string // e.g. "Removed Song Title", shown on the Undo toast
+  currentSong: Song | null
+  upcomingSongs: Song[]
+}
+
+// Undo steps kept; older ones are dropped
+export const MAX_UNDO = 50
+
+// Playback position is checkpointed when it moves by at least this many seconds
+export const POSITION_CHECKPOINT_SECONDS = 5
+
+// How far into a queue entry playback got, for resuming after a restart
+export interface PlaybackPosition {
+  entry: string // entryId (videoId for pre-entryId songs)
+  time: number // seconds
+}
+
+interface QueueStore extends Queue, QueueActions {
+  // Fair rotation: interleave upcoming songs by singer
+  rotationMode: boolean
+  duplicatePolicy: DuplicatePolicy
+  queueLimits: QueueLimits
+  // When each singer (by ID) last added a song, for the cooldown
+  lastAddBySinger: Record<string, number>
+  // What plays when the queue runs dry
+  autoFill: AutoFillSettings
+  playbackPosition: PlaybackPosition | null
+  undoStack: QueueUndoEntry[]
+  redoStack: QueueUndoEntry[]
+}
+
+// While > 0, edits are part of a batch and share its single undo step
+let batchDepth = 0
 
 export const useQueueStore = create<QueueStore>()(
   devtools(
@@ -27,59 +88,211 @@ export const useQueueStore = create<QueueStore>()(
       currentSong: null,
       upcomingSongs: [],
       playbackState: PlaybackState.IDLE,
+      rotationMode: false,
+      duplicatePolicy: DEFAULT_DUPLICATE_POLICY,
+      queueLimits: DEFAULT_QUEUE_LIMITS,
+      lastAddBySinger: {},
+      autoFill: DEFAULT_AUTO_FILL,
+      playbackPosition: null,
+      undoStack: [],
+      redoStack: [],
 
       // Actions
-      addSong: (song: Song) =>
+      addSong: (song: Song) => {
+        const check = get().checkAdd(song)
+        if (check.rejected) return check
+        checkpoint(`Added ${song.title}`)
+        recordAdd(song)
         set(
           (state) => {
-            // Auto-play: if nothing is playing, set as current song
-            if (!state.currentSong) {
+            const entry = toEntry(song)
+            // Auto-play: if nothing (or an auto-fill pick that hasn't started) is playing, set as current song
+            if (canTakeOver(state)) {
               return {
-                currentSong: song,
+                currentSong: entry,
                 playbackState: PlaybackState.LOADING,
               }
             }
             return {
-              upcomingSongs: [...state.upcomingSongs, song],
+              upcomingSongs: arrange(state, state.currentSong, [...state.upcomingSongs, entry]),
             }
           },
           false,
           'addSong'
-        ),
+        )
+        return check
+      },
+
+      // 插歌: queue a song directly after the current one
+      insertNext: (song: Song) => {
+        const check = get().checkAdd(song)
+        if (check.rejected) return check
+        checkpoint(`Queued ${song.title} next`)
+        recordAdd(song)
+        set(
+          (state) => {
+            // Under fair rotation this is a manual placement, so it's pinned
+            const entry = state.rotationMode ? { ...toEntry(song), pinned: true } : toEntry(song)
+            if (canTakeOver(state)) {
+              return {
+                currentSong: entry,
+                playbackState: PlaybackState.LOADING,
+              }
+            }
+            return {
+              upcomingSongs: arrange(state, state.currentSong, [entry, ...state.upcomingSongs]),
+            }
+          },
+          false,
+          'insertNext'
+        )
+        return check
+      },
 
-      removeSong: (index: number) =>
+      // Interrupt the current song. An upcoming entry (matched by entryId) is
+      // taken out of the queue; anything else is a new entry.
+      playNow: (song: Song) => {
+        const queued = get().upcomingSongs.find((s) => song.entryId !== undefined && s.entryId === song.entryId)
+        const check: AddCheck = queued ? { rejected: false } : get().checkAdd(song)
+        if (check.rejected) return check
+        if (!queued) recordAdd(song)
+        // Like nextSong, a song change ends undo
+        set(
+          (state) => {
+            const entry = queued ? unpinned(queued) : toEntry(song)
+            const rest = state.upcomingSongs.filter((s) => s !== queued)
+            return {
+              currentSong: entry,
+              upcomingSongs: arrange(state, entry, rest),
+              playbackState: PlaybackState.LOADING,
+              undoStack: [],
+              redoStack: [],
+            }
+          },
+          false,
+          'playNow'
+        )
+        return check
+      },
+
+      removeSong: (index: number) => {
+        const removed = get().upcomingSongs[index]
+        if (!removed) return
+        checkpoint(`Removed ${removed.title}`)
         set(
           (state) => {
             const newUpcomingSongs = [...state.upcomingSongs]
             newUpcomingSongs.splice(index, 1)
-            return { upcomingSongs: newUpcomingSongs }
+            return { upcomingSongs: arrange(state, state.currentSong, newUpcomingSongs) }
           },
           false,
           'removeSong'
+        )
+      },
+
+      removeEntry: (entryId: string) => {
+        const state = get()
+        const index = state.upcomingSongs.findIndex((s) => s.entryId === entryId)
+        if (index !== -1) state.removeSong(index)
+      },
+
+      moveEntry: (entryId: string, toIndex: number) => {
+        const state = get()
+        const index = state.upcomingSongs.findIndex((s) => s.entryId === entryId)
+        if (index === -1) return
+        const clamped = Math.max(0, Math.min(toIndex, state.upcomingSongs.length - 1))
+        state.reorderQueue(index, clamped)
+      },
+
+      setEntrySinger: (entryId: string, singer: Singer | null) =>
+        set(
+          (state) => {
+            const assign = (song: Song): Song =>
+              song.entryId === entryId ? { ...song, singer: singer ?? undefined } : song
+            const currentSong = state.currentSong && assign(state.currentSong)
+            return {
+              currentSong,
+              upcomingSongs: arrange(state, currentSong, state.upcomingSongs.map(assign)),
+            }
+          },
+          false,
+          'setEntrySinger'
         ),
 
+      // Refresh the singer copy on entries after the profile was edited
+      syncSinger: (singer: Singer) =>
+        set(
+          (state) => {
+            const refresh = (song: Song): Song =>
+              song.singer?.id === singer.id ? { ...song, singer } : song
+            return {
+              currentSong: state.currentSong && refresh(state.currentSong),
+              upcomingSongs: state.upcomingSongs.map(refresh),
+            }
+          },
+          false,
+          'syncSinger'
+        ),
+
+      // Fill in a duration looked up by the main process for every entry of
+      // the video that was queued without one
+      setDuration: (videoId: string, duration: number) =>
+        set(
+          (state) => {
+            const fill = (song: Song) =>
+              song.videoId === videoId && !(song.duration > 0) ? { ...song, duration } : song
+            return {
+              currentSong: state.currentSong && fill(state.currentSong),
+              upcomingSongs: state.upcomingSongs.map(fill),
+            }
+          },
+          false,
+          'setDuration'
+        ),
+
+      // Position the display reported for the current song
+      setPlaybackPosition: (time: number) => {
+        const { currentSong, playbackPosition } = get()
+        if (!currentSong) return
+        const entry = entryKey(currentSong)
+        if (
+          playbackPosition?.entry === entry &&
+          Math.abs(playbackPosition.time - time) < POSITION_CHECKPOINT_SECONDS
+        ) return
+        set({ playbackPosition: { entry, time } }, false, 'setPlaybackPosition')
+      },
+
+      // Undo can't reach past a song change: it would bring back a sung song
       nextSong: () =>
         set(
           (state) => {
             if (state.upcomingSongs.length === 0) {
+              // Nothing is auto-filled once the room's time is up
+              const timeUp = checkRoomTime(useRoomStore.getState().timer) !== undefined
+              const filler = state.autoFill.enabled && !timeUp ? autoFillSong(state.autoFill) : null
               return {
-                currentSong: null,
-                playbackState: PlaybackState.IDLE,
+                currentSong: filler,
+                playbackState: filler ? PlaybackState.LOADING : PlaybackState.IDLE,
+                undoStack: [],
+                redoStack: [],
               }
             }
 
             const [nextSong, ...remainingSongs] = state.upcomingSongs
             return {
               currentSong: nextSong,
-              upcomingSongs: remainingSongs,
+              upcomingSongs: arrange(state, nextSong, remainingSongs),
               playbackState: PlaybackState.LOADING,
+              undoStack: [],
+              redoStack: [],
             }
           },
           false,
           'nextSong'
         ),
 
-      clearQueue: () =>
+      clearQueue: () => {
+        checkpoint('Cleared the queue')
         set(
           {
             currentSong: null,
@@ -88,19 +301,25 @@ export const useQueueStore = create<QueueStore>()(
           },
           false,
           'clearQueue'
-        ),
+        )
+      },
 
-      reorderQueue: (fromIndex: number, toIndex: number) =>
+      reorderQueue: (fromIndex: number, toIndex: number) => {
+        const moved = get().upcomingSongs[fromIndex]
+        if (!moved) return
+        checkpoint(`Moved ${moved.title}`)
         set(
           (state) => {
             const newUpcomingSongs = [...state.upcomingSongs]
             const [movedSong] = newUpcomingSongs.splice(fromIndex, 1)
-            newUpcomingSongs.splice(toIndex, 0, movedSong)
-            return { upcomingSongs: newUpcomingSongs }
+            // Under fair rotation a manual move pins the entry where it was put
+            newUpcomingSongs.splice(toIndex, 0, state.rotationMode ? { ...movedSong, pinned: true } : movedSong)
+            return { upcomingSongs: arrange(state, state.currentSong, newUpcomingSongs) }
           },
           false,
           'reorderQueue'
-        ),
+        )
+      },
 
       setPlaybackState: (playbackState: PlaybackState) =>
         set(
@@ -133,36 +352,194 @@ export const useQueueStore = create<QueueStore>()(
           'setCurrentSong'
         ),
 
-      shuffleQueue: () =>
+      shuffleQueue: () => {
+        checkpoint('Shuffled the queue')
         set(
           (state) => {
-            const shuffled = [...state.upcomingSongs]
+            const shuffled = state.upcomingSongs.map(unpinned)
             for (let i = shuffled.length - 1; i > 0; i--) {
               const j = Math.floor(Math.random() * (i + 1))
               ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
             }
-            return { upcomingSongs: shuffled }
+            return { upcomingSongs: arrange(state, state.currentSong, shuffled) }
           },
           false,
           'shuffleQueue'
-        ),
+        )
+      },
 
       moveInQueue: (fromIndex: number, toIndex: number) => {
         // Alias for reorderQueue for backward compatibility
         const state = get()
         state.reorderQueue(fromIndex, toIndex)
       },
+
+      // Pins only mean something under rotation, so turning it off drops them
+      setRotationMode: (enabled: boolean) =>
+        set(
+          (state) => ({
+            rotationMode: enabled,
+            upcomingSongs: enabled
+              ? fairOrder(state.upcomingSongs, state.currentSong)
+              : state.upcomingSongs.map(unpinned),
+          }),
+          false,
+          'setRotationMode'
+        ),
+
+      unpinEntry: (entryId: string) =>
+        set(
+          (state) => ({
+            upcomingSongs: arrange(
+              state,
+              state.currentSong,
+              state.upcomingSongs.map((s) => (s.entryId === entryId ? unpinned(s) : s))
+            ),
+          }),
+          false,
+          'unpinEntry'
+        ),
+
+      setDuplicatePolicy: (duplicatePolicy: DuplicatePolicy) =>
+        set({ duplicatePolicy }, false, 'setDuplicatePolicy'),
+
+      setQueueLimits: (queueLimits: QueueLimits) =>
+        set({ queueLimits }, false, 'setQueueLimits'),
+
+      setAutoFill: (autoFill: AutoFillSettings) =>
+        set({ autoFill }, false, 'setAutoFill'),
+
+      checkAdd: (song: Song) => {
+        const { currentSong, upcomingSongs, duplicatePolicy, queueLimits, lastAddBySinger } = get()
+        const lastAddAt = song.singer ? lastAddBySinger[song.singer.id] : undefined
+        const limit = checkRoomTime(useRoomStore.getState().timer) ??
+          checkLimits(song, upcomingSongs, lastAddAt, queueLimits)
+        if (limit) return { rejected: true, limit }
+        return checkDuplicate(song, { currentSong, upcomingSongs }, useHistoryStore.getState().entries, duplicatePolicy)
+      },
+
+      undo: () => restore('undoStack', 'redoStack'),
+
+      redo: () => restore('redoStack', 'undoStack'),
+
+      // Run several edits (e.g. loading a playlist) as one undo step
+      batch: (label: string, fn: () => void) => {
+        checkpoint(label)
+        batchDepth++
+        try {
+          fn()
+        } finally {
+          batchDepth--
+        }
+      },
     }),
     {
       name: 'ktv-queue',
+      version: 1,
       partialize: (state) => ({
         currentSong: state.currentSong,
         upcomingSongs: state.upcomingSongs,
+        rotationMode: state.rotationMode,
+        duplicatePolicy: state.duplicatePolicy,
+        queueLimits: state.queueLimits,
+        lastAddBySinger: state.lastAddBySinger,
+        autoFill: state.autoFill,
+        playbackPosition: state.playbackPosition,
       }),
+      // v0 entries predate entryId
+      migrate: (persisted, version) => {
+        const state = persisted as Pick<Queue, 'currentSong' | 'upcomingSongs'>
+        if (version < 1) {
+          return {
+            ...state,
+            currentSong: state.currentSong ? toEntry(state.currentSong) : null,
+            upcomingSongs: (state.upcomingSongs ?? []).map(toEntry),
+          }
+        }
+        return state
+      },
     }
     ),
     {
       name: 'queue-store',
     }
   )
-)
\ No newline at end of file
+)
+
+// A queue entry picked by auto-fill, or null if its source has no songs
+function autoFillSong(settings: AutoFillSettings): Song | null {
+  const song = pickAutoFill(settings, {
+    playlists: usePlaylistStore.getState().playlists,
+    favourites: useFavouritesStore.getState().songs,
+    history: useHistoryStore.getState().entries,
+  })
+  return song && { ...toEntry(song), autoAdded: true }
+}
+
+// A new request becomes the current song when nothing is playing, or when
+// the current song is an auto-fill pick still loading; once the display has
+// reported it playing (syncPlayerState) it plays out and the request is
+// queued after it
+function canTakeOver(state: Pick<Queue, 'currentSong' | 'playbackState'>): boolean {
+  return !state.currentSong || (!!state.currentSong.autoAdded && state.playbackState === PlaybackState.LOADING)
+}
+
+// Start the singer's cooldown
+function recordAdd(song: Song) {
+  if (!song.singer) return
+  const { lastAddBySinger } = useQueueStore.getState()
+  useQueueStore.setState({ lastAddBySinger: { ...lastAddBySinger, [song.singer.id]: Date.now() } })
+}
+
+// Remember the queue before an edit so it can be undone
+function checkpoint(label: string) {
+  if (batchDepth > 0) return
+  const { currentSong, upcomingSongs, undoStack } = useQueueStore.getState()
+  useQueueStore.setState({
+    undoStack: [...undoStack, { label, currentSong, upcomingSongs }].slice(-MAX_UNDO),
+    redoStack: [],
+  })
+}
+
+// Put back the queue on top of `from`, saving the current queue on `to`
+function restore(from: 'undoStack' | 'redoStack', to: 'undoStack' | 'redoStack'): string | null {
+  const state = useQueueStore.getState()
+  const entry = state[from][state[from].length - 1]
+  if (!entry) return null
+  const sameSong = (entry.currentSong?.entryId ?? null) === (state.currentSong?.entryId ?? null)
+  useQueueStore.setState({
+    currentSong: entry.currentSong,
+    upcomingSongs: entry.upcomingSongs,
+    playbackState: !entry.currentSong ? PlaybackState.IDLE : sameSong ? state.playbackState : PlaybackState.LOADING,
+    [from]: state[from].slice(0, -1),
+    [to]: [...state[to], { label: entry.label, currentSong: state.currentSong, upcomingSongs: state.upcomingSongs }],
+  })
+  return entry.label
+}
+
+/**
+ * Stamp a song with a fresh queue entry ID. Always fresh: the same song
+ * (e.g. from a playlist saved off the queue) can be queued many times.
+ * Queued copies of an auto-fill pick are real requests.
+ */
+function toEntry(song: Song): Song {
+  return { ...song, entryId: generateEntryId(), pinned: undefined, autoAdded: undefined }
+}
+
+/** Key of a queue entry: its entryId, or videoId for pre-entryId songs */
+export function entryKey(song: Song): string {
+  return song.entryId ?? song.videoId
+}
+
+function unpinned(song: Song): Song {
+  return song.pinned ? { ...song, pinned: undefined } : song
+}
+
+/** Upcoming songs in play order: as given, or fairly rotated when enabled */
+function arrange(state: { rotationMode: boolean }, currentSong: Song | null, upcomingSongs: Song[]): Song[] {
+  return state.rotationMode ? fairOrder(upcomingSongs, currentSong) : upcomingSongs
+}
+
+function generateEntryId(): string {
+  return 'e' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36)
+}
@@ -0,0 +1,71 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { RoomTimer } from '../../shared/types'
+import { DEFAULT_WARN_MINUTES, extendRoom } from '../../shared/roomTimer'
+
+interface RoomActions {
+  startTimer: (minutes: number) => RoomTimer
+  // The extended timer, or null if none is running
+  extendTimer: (minutes: number) => RoomTimer | null
+  stopTimer: () => void
+  setWarnMinutes: (minutes: number) => void
+}
+
+interface RoomStore {
+  // Paid time slot; null when the room isn't on the clock
+  timer: RoomTimer | null
+  // Used for the next timer too
+  warnMinutes: number
+}
+
+interface RoomStoreWithActions extends RoomStore, RoomActions {}
+
+export const useRoomStore = create<RoomStoreWithActions>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        // Initial state
+        timer: null,
+        warnMinutes: DEFAULT_WARN_MINUTES,
+
+        // Actions
+        startTimer: (minutes: number) => {
+          const now = Date.now()
+          const timer: RoomTimer = { startedAt: now, endsAt: now + minutes * 60_000, warnMinutes: get().warnMinutes }
+          set({ timer }, false, 'startTimer')
+          return timer
+        },
+
+        extendTimer: (minutes: number) => {
+          const { timer } = get()
+          if (!timer) return null
+          const extended = extendRoom(timer, minutes)
+          set({ timer: extended }, false, 'extendTimer')
+          return extended
+        },
+
+        stopTimer: () => set({ timer: null }, false, 'stopTimer'),
+
+        setWarnMinutes: (minutes: number) =>
+          set(
+            (state) => ({
+              warnMinutes: minutes,
+              timer: state.timer && { ...state.timer, warnMinutes: minutes },
+            }),
+            false,
+            'setWarnMinutes'
+          ),
+      }),
+      {
+        name: 'ktv-room',
+        partialize: (state) => ({
+          timer: state.timer,
+          warnMinutes: state.warnMinutes,
+        }),
+      }
+    ),
+    {
+      name: 'room-store',
+    }
+  )
+)
@@ -0,0 +1,39 @@
+import type { Song } from '../types'
+
+// Entries without a singer take turns as one anonymous singer
+const singerKey = (song: Song) => song.singer?.id ?? ''
+
+/**
+ * Fair rotation (輪唱): interleave upcoming entries one song per singer per
+ * round, keeping each singer's own songs in their queued order. Singers take
+ * turns in order of their first upcoming song, except that whoever is singing
+ * now goes last. Pinned entries (manual reorders) keep their index and the
+ * rotation flows around them.
+ */
+export function fairOrder(upcomingSongs: Song[], currentSong: Song | null): Song[] {
+  const groups = new Map<string, Song[]>()
+  for (const song of upcomingSongs) {
+    if (song.pinned) continue
+    const key = singerKey(song)
+    groups.set(key, [...(groups.get(key) ?? []), song])
+  }
+
+  const turnOrder = [...groups.keys()]
+  if (currentSong) {
+    const current = turnOrder.indexOf(singerKey(currentSong))
+    if (current !== -1) turnOrder.push(...turnOrder.splice(current, 1))
+  }
+
+  const rotation: Song[] = []
+  for (let round = 0; rotation.length < upcomingSongs.length; round++) {
+    const before = rotation.length
+    for (const key of turnOrder) {
+      const song = groups.get(key)![round]
+      if (song) rotation.push(song)
+    }
+    if (rotation.length === before) break // only pinned entries left
+  }
+
+  let next = 0
+  return upcomingSongs.map((song) => (song.pinned ? song : rotation[next++]))
+}
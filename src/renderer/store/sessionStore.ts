@@ -0,0 +1,127 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { HistoryEntry, PartySession, SessionSummary, Singer } from '../../shared/types'
+
+// How many songs the summary lists as most skipped
+const MOST_SKIPPED_COUNT = 3
+
+interface SessionActions {
+  startSession: (name: string) => PartySession
+  endSession: () => PartySession | null
+  removeSession: (id: string) => void
+  getActiveSession: () => PartySession | null
+}
+
+interface SessionStore {
+  // Oldest first; only the last one can still be running
+  sessions: PartySession[]
+}
+
+interface SessionStoreWithActions extends SessionStore, SessionActions {}
+
+export const useSessionStore = create<SessionStoreWithActions>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        // Initial state
+        sessions: [],
+
+        // Actions
+        // Starting a session ends the one still running, if any
+        startSession: (name: string) => {
+          const now = Date.now()
+          const session: PartySession = {
+            id: generateId(),
+            name: name.trim() || new Date(now).toLocaleDateString(),
+            startedAt: now,
+            endedAt: null,
+          }
+          set(
+            (state) => ({ sessions: [...state.sessions.map((s) => end(s, now)), session] }),
+            false,
+            'startSession'
+          )
+          return session
+        },
+
+        endSession: () => {
+          const active = get().getActiveSession()
+          if (!active) return null
+          const ended = end(active, Date.now())
+          set(
+            (state) => ({ sessions: state.sessions.map((s) => (s.id === active.id ? ended : s)) }),
+            false,
+            'endSession'
+          )
+          return ended
+        },
+
+        removeSession: (id: string) =>
+          set(
+            (state) => ({ sessions: state.sessions.filter((s) => s.id !== id) }),
+            false,
+            'removeSession'
+          ),
+
+        getActiveSession: () => get().sessions.find((s) => s.endedAt === null) ?? null,
+      }),
+      {
+        name: 'ktv-sessions',
+        partialize: (state) => ({ sessions: state.sessions }),
+      }
+    ),
+    {
+      name: 'session-store',
+    }
+  )
+)
+
+function end(session: PartySession, now: number): PartySession {
+  return session.endedAt === null ? { ...session, endedAt: now } : session
+}
+
+/** History entries started during `session` (history is newest first) */
+export function sessionEntries(entries: HistoryEntry[], session: PartySession): HistoryEntry[] {
+  return entries.filter(
+    (e) => e.startedAt >= session.startedAt && (session.endedAt === null || e.startedAt < session.endedAt)
+  )
+}
+
+/** Songs sung, per-singer counts, total time and most-skipped songs of a session */
+export function summarizeSession(
+  session: PartySession,
+  entries: HistoryEntry[],
+  now = Date.now()
+): SessionSummary {
+  const played = sessionEntries(entries, session)
+  const sung = played.filter((e) => e.endReason === 'completed')
+  const skipped = played.filter((e) => e.endReason === 'skipped')
+
+  const singers = new Map<string, { singer: Singer | null; songs: number }>()
+  for (const entry of sung) {
+    const key = entry.song.singer?.id ?? ''
+    const counted = singers.get(key) ?? { singer: entry.song.singer ?? null, songs: 0 }
+    singers.set(key, { ...counted, songs: counted.songs + 1 })
+  }
+
+  const skips = new Map<string, SessionSummary['mostSkipped'][number]>()
+  for (const entry of skipped) {
+    const { videoId, title } = entry.song
+    skips.set(videoId, { videoId, title, skips: (skips.get(videoId)?.skips ?? 0) + 1 })
+  }
+
+  const seconds = (from: number, to: number) => Math.max(0, Math.round((to - from) / 1000))
+  return {
+    session,
+    songsSung: sung.length,
+    songsSkipped: skipped.length,
+    duration: seconds(session.startedAt, session.endedAt ?? now),
+    singingTime: played.reduce((total, e) => total + seconds(e.startedAt, e.endedAt ?? now), 0),
+    singers: [...singers.values()].sort((a, b) => b.songs - a.songs),
+    mostSkipped: [...skips.values()].sort((a, b) => b.skips - a.skips).slice(0, MOST_SKIPPED_COUNT),
+  }
+}
+
+function generateId(): string {
+  return 'p' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36)
+}
@@ -0,0 +1,114 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { Singer } from '../types'
+import { useQueueStore } from './queueStore'
+
+// Badge colours, handed out in order so neighbours in the queue differ
+export const SINGER_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
+  '#3b82f6', '#8b5cf6', '#ec4899', '#64748b', '#a16207',
+]
+
+interface SingerActions {
+  addSinger: (name: string, avatar?: string) => Singer
+  updateSinger: (id: string, patch: Partial<Omit<Singer, 'id'>>) => void
+  removeSinger: (id: string) => void
+  setActiveSinger: (id: string | null) => void
+  getActiveSinger: () => Singer | null
+  findOrCreateSinger: (name: string) => Singer
+}
+
+interface SingerStore {
+  singers: Singer[]
+  // Singer credited for songs added from the control window
+  activeSingerId: string | null
+}
+
+interface SingerStoreWithActions extends SingerStore, SingerActions {}
+
+export const useSingerStore = create<SingerStoreWithActions>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        // Initial state
+        singers: [],
+        activeSingerId: null,
+
+        // Actions
+        addSinger: (name: string, avatar?: string) => {
+          const trimmed = name.trim()
+          const singer: Singer = {
+            id: generateId(),
+            name: trimmed,
+            color: SINGER_COLORS[get().singers.length % SINGER_COLORS.length],
+            avatar: avatar || initialOf(trimmed),
+          }
+          set(
+            (state) => ({ singers: [...state.singers, singer] }),
+            false,
+            'addSinger'
+          )
+          return singer
+        },
+
+        updateSinger: (id: string, patch: Partial<Omit<Singer, 'id'>>) => {
+          set(
+            (state) => ({
+              singers: state.singers.map((singer) =>
+                singer.id === id ? { ...singer, ...patch } : singer
+              ),
+            }),
+            false,
+            'updateSinger'
+          )
+          const updated = get().singers.find((singer) => singer.id === id)
+          if (updated) useQueueStore.getState().syncSinger(updated)
+        },
+
+        // Queued entries keep their copy: the song was still requested by them
+        removeSinger: (id: string) =>
+          set(
+            (state) => ({
+              singers: state.singers.filter((singer) => singer.id !== id),
+              activeSingerId: state.activeSingerId === id ? null : state.activeSingerId,
+            }),
+            false,
+            'removeSinger'
+          ),
+
+        setActiveSinger: (id: string | null) =>
+          set({ activeSingerId: id }, false, 'setActiveSinger'),
+
+        getActiveSinger: () => {
+          const state = get()
+          return state.singers.find((singer) => singer.id === state.activeSingerId) ?? null
+        },
+
+        // Names from the Skill API and phone remote; matched case-insensitively
+        findOrCreateSinger: (name: string) => {
+          const key = name.trim().toLowerCase()
+          const existing = get().singers.find((singer) => singer.name.toLowerCase() === key)
+          return existing ?? get().addSinger(name)
+        },
+      }),
+      {
+        name: 'ktv-singers',
+        partialize: (state) => ({
+          singers: state.singers,
+          activeSingerId: state.activeSingerId,
+        }),
+      }
+    ),
+    {
+      name: 'singer-store',
+    }
+  )
+)
+
+function initialOf(name: string): string {
+  return Array.from(name)[0]?.toUpperCase() ?? '?'
+}
+
+function generateId(): string {
+  return 's' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36)
+}
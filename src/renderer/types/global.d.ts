@@ -1,4 +1,5 @@
 // Global type definitions for DisplayApp and YouTube Player
+import type { ApiScope, ApiToken, JoinInfo, RemoteInfo, RemoteSettings } from '../../shared/types'
 
 // YouTube IFrame Player API types
 export interface YouTubePlayer {
@@ -46,6 +47,7 @@ export interface ElectronIpcRenderer {
   off: (channel: string, listener?: (...args: any[]) => void) => void
   removeAllListeners: (channel: string) => void
   sendMessage: (channel: string, ...args: any[]) => void
+  send: (channel: string, ...args: unknown[]) => void
   invoke: (channel: string, ...args: any[]) => Promise<any>
 }
 
@@ -60,10 +62,26 @@ export interface ElectronSubtitleCacheAPI {
   write: (videoId: string, content: string) => Promise<{ success: boolean; error?: string }>
 }
 
+export interface ElectronSkillApiAPI {
+  listTokens: () => Promise<ApiToken[]>
+  createToken: (name: string, scopes: ApiScope[]) => Promise<{ success: boolean; token?: ApiToken; error?: string }>
+  rotateToken: (id: string) => Promise<{ success: boolean; token?: ApiToken; error?: string }>
+  revokeToken: (id: string) => Promise<{ success: boolean; error?: string }>
+}
+
+export interface ElectronRemoteAPI {
+  getInfo: () => Promise<RemoteInfo>
+  updateSettings: (patch: Partial<RemoteSettings>) => Promise<RemoteInfo>
+  getJoinInfo: () => Promise<JoinInfo>
+  rotateJoinToken: () => Promise<RemoteInfo>
+}
+
 export interface ElectronAPI {
   ipcRenderer: ElectronIpcRenderer
   youtubePlayer: ElectronYouTubePlayerAPI
   subtitleCache: ElectronSubtitleCacheAPI
+  skillApi: ElectronSkillApiAPI
+  remote: ElectronRemoteAPI
 }
 
 // Global window extensions
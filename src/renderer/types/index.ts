@@ -1,3 +1,3 @@
 // Re-export types from shared types for renderer-specific usage
-export type { Song, Queue, Playlist } from '../../shared/types'
+export type { Song, Singer, Queue, Playlist, HistoryEntry, DuplicatePolicy, DuplicateCheck, DuplicateReason, QueueLimits, LimitReason, AddCheck, RejectedSong, AutoFillSource, AutoFillSettings, RoomTimer, RoomPhase, RoomStatus, PlaylistFormat, PlaylistCollision, PlaylistExport, ImportedPlaylist, SkippedRow, ImportedPlaylistResult, QueuePosition, PendingSong, PartySession, SessionSummary } from '../../shared/types'
 export { PlaybackState } from '../../shared/types'
\ No newline at end of file
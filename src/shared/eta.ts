@@ -0,0 +1,48 @@
+import type { Song } from './types';
+
+// Assumed length of a song whose duration is still unknown (seconds)
+export const FALLBACK_DURATION = 240;
+
+export interface QueueEta {
+  // Seconds from now until each upcoming entry starts, in queue order
+  startsIn: number[];
+  // Seconds until the whole queue has been sung
+  remaining: number;
+  // Entries (current one included) counted at FALLBACK_DURATION
+  unknownDurations: number;
+}
+
+/**
+ * Estimate when each upcoming song starts, assuming songs play back to back.
+ * `elapsed` is how far into the current song playback is.
+ */
+export function estimateQueue(currentSong: Song | null, upcomingSongs: Song[], elapsed = 0): QueueEta {
+  let unknownDurations = 0;
+  const lengthOf = (song: Song) => {
+    if (song.duration > 0) return song.duration;
+    unknownDurations++;
+    return FALLBACK_DURATION;
+  };
+
+  let clock = currentSong ? Math.max(0, lengthOf(currentSong) - elapsed) : 0;
+  const startsIn = upcomingSongs.map((song) => {
+    const start = clock;
+    clock += lengthOf(song);
+    return start;
+  });
+
+  return { startsIn, remaining: clock, unknownDurations };
+}
+
+/** "1 h 05 min", "12 min" or "<1 min" */
+export function formatRemaining(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
+
+/** Local clock time (HH:MM) of a timestamp in milliseconds */
+export function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
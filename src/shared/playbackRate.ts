@@ -0,0 +1,16 @@
+// Speeds offered for practice; YouTube plays these on every video
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+export const MIN_PLAYBACK_RATE = PLAYBACK_RATES[0];
+export const MAX_PLAYBACK_RATE = PLAYBACK_RATES[PLAYBACK_RATES.length - 1];
+
+/** Clamp a requested rate to 0.5–1.5 and snap it to the nearest offered speed */
+export function normalizePlaybackRate(rate: number): number {
+  if (!Number.isFinite(rate)) return 1;
+  const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+  return PLAYBACK_RATES.reduce((best, r) => (Math.abs(r - clamped) < Math.abs(best - clamped) ? r : best));
+}
+
+/** "0.75×" */
+export function formatPlaybackRate(rate: number): string {
+  return `${rate}×`;
+}
@@ -0,0 +1,325 @@
+// Playlist files - a versioned JSON export, M3U with YouTube URLs, and CSV
+import type { ImportedPlaylist, Playlist, PlaylistExport, PlaylistFormat, SkippedRow, Song } from './types';
+
+export const PLAYLIST_EXPORT_FORMAT = 'aipc-ktv-playlists';
+export const PLAYLIST_EXPORT_VERSION = 1;
+
+// Playlist for songs whose file doesn't say which one they belong to
+export const DEFAULT_IMPORT_NAME = 'Imported';
+
+// Same limits as the Skill API's playlist names and song titles
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_LENGTH = 300;
+
+const VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+const CSV_COLUMNS = ['playlist', 'videoId', 'title', 'channel', 'duration'];
+
+/** The whole file can't be read: bad JSON, an unknown format, nothing in it */
+export class PlaylistFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlaylistFileError';
+  }
+}
+
+export interface ParsedPlaylists {
+  playlists: ImportedPlaylist[];
+  skipped: SkippedRow[];
+}
+
+/** Write `playlists` to one file in `format` */
+export function exportPlaylists(playlists: Playlist[], format: PlaylistFormat, now = Date.now()): string {
+  switch (format) {
+    case 'json':
+      return playlistsToJson(playlists, now);
+    case 'm3u':
+      return playlistsToM3u(playlists);
+    case 'csv':
+      return playlistsToCsv(playlists);
+  }
+}
+
+export function playlistsToJson(playlists: Playlist[], now = Date.now()): string {
+  const data: PlaylistExport = {
+    format: PLAYLIST_EXPORT_FORMAT,
+    version: PLAYLIST_EXPORT_VERSION,
+    exportedAt: now,
+    playlists: playlists.map((p) => ({ name: p.name, createdAt: p.createdAt, songs: p.songs.map(plainSong) })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/** Extended M3U; each playlist starts with a #PLAYLIST line */
+export function playlistsToM3u(playlists: Playlist[]): string {
+  const lines = ['#EXTM3U'];
+  for (const playlist of playlists) {
+    lines.push(`#PLAYLIST:${oneLine(playlist.name)}`);
+    for (const song of playlist.songs) {
+      lines.push(`#EXTINF:${song.duration > 0 ? Math.round(song.duration) : -1},${oneLine(song.title)}`);
+      lines.push(`https://www.youtube.com/watch?v=${song.videoId}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** One row per song, with the playlist it belongs to */
+export function playlistsToCsv(playlists: Playlist[]): string {
+  const rows = [
+    CSV_COLUMNS,
+    ...playlists.flatMap((p) =>
+      p.songs.map((s) => [p.name, s.videoId, s.title, s.channel, String(s.duration)])
+    ),
+  ];
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** File name for an export, e.g. "friday-night.m3u"; all playlists go to "ktv-playlists.*" */
+export function playlistFilename(name: string | null, format: PlaylistFormat): string {
+  const slug = (name ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || (name === null ? 'ktv-playlists' : 'playlist')}.${format}`;
+}
+
+/** Guess an import file's format from its name, or else its content */
+export function detectPlaylistFormat(text: string, filename?: string): PlaylistFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'json' || extension === 'csv') return extension;
+  if (extension === 'm3u' || extension === 'm3u8') return 'm3u';
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'json';
+  if (start.startsWith('#EXTM3U') || /^https?:\/\//m.test(start)) return 'm3u';
+  return 'csv';
+}
+
+/**
+ * Read the playlists in an import file. Rows that aren't valid songs are
+ * left out and reported in `skipped`; a file that can't be read at all
+ * throws a PlaylistFileError.
+ */
+export function parsePlaylists(text: string, format: PlaylistFormat): ParsedPlaylists {
+  const parsed = format === 'json' ? parseJson(text) : format === 'm3u' ? parseM3u(text) : parseCsv(text);
+  if (parsed.playlists.length === 0 && parsed.skipped.length === 0) {
+    throw new PlaylistFileError('No playlists found in the file');
+  }
+  return parsed;
+}
+
+function parseJson(text: string): ParsedPlaylists {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PlaylistFileError('The file is not valid JSON');
+  }
+  if (!isObject(data) || data.format !== PLAYLIST_EXPORT_FORMAT || !Array.isArray(data.playlists)) {
+    throw new PlaylistFileError('The file is not an AIPC KTV playlist export');
+  }
+  if (typeof data.version !== 'number' || data.version > PLAYLIST_EXPORT_VERSION) {
+    throw new PlaylistFileError(`The file was made by a newer version of AIPC KTV (format ${data.version})`);
+  }
+
+  const playlists: ImportedPlaylist[] = [];
+  const skipped: SkippedRow[] = [];
+  data.playlists.forEach((entry: unknown, i: number) => {
+    const playlist = isObject(entry) ? entry : {};
+    const name = playlistName(playlist.name, `${DEFAULT_IMPORT_NAME} ${i + 1}`);
+    if (!Array.isArray(playlist.songs)) {
+      skipped.push({ playlist: name, row: 0, reason: 'No song list' });
+      return;
+    }
+    const songs: Song[] = [];
+    playlist.songs.forEach((fields: unknown, j: number) => {
+      const song = toSong(isObject(fields) ? fields : {});
+      if (typeof song === 'string') skipped.push({ playlist: name, row: j + 1, reason: song });
+      else songs.push(song);
+    });
+    playlists.push({ name, songs });
+  });
+  return { playlists, skipped };
+}
+
+function parseM3u(text: string): ParsedPlaylists {
+  const collected = collector();
+  let name = DEFAULT_IMPORT_NAME;
+  // From the #EXTINF line before a URL
+  let info: { duration: number; title: string } | null = null;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith('#PLAYLIST:')) {
+      name = playlistName(line.slice('#PLAYLIST:'.length), DEFAULT_IMPORT_NAME);
+      collected.playlist(name);
+      info = null;
+    } else if (line.startsWith('#EXTINF:')) {
+      const match = /^#EXTINF:(-?\d+(?:\.\d+)?)[^,]*,(.*)$/.exec(line);
+      info = match ? { duration: Math.max(0, Number(match[1])), title: match[2] } : null;
+    } else if (!line.startsWith('#')) {
+      const videoId = videoIdFromUrl(line);
+      if (!videoId) collected.skip(name, i + 1, 'Not a YouTube video URL');
+      else collected.add(name, i + 1, toSong({ videoId, ...info }));
+      info = null;
+    }
+  });
+  return collected.result();
+}
+
+function parseCsv(text: string): ParsedPlaylists {
+  const [header, ...rows] = csvRecords(text);
+  if (!header) return { playlists: [], skipped: [] };
+  const columns = header.fields.map((f) => f.trim().toLowerCase());
+  const column = (fields: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index === -1 || fields[index] === undefined ? undefined : csvValue(fields[index]);
+  };
+  if (!columns.includes('videoid') && !columns.includes('url')) {
+    throw new PlaylistFileError('The CSV file needs a videoId or url column');
+  }
+
+  const collected = collector();
+  for (const { line, fields } of rows) {
+    const name = playlistName(column(fields, 'playlist'), DEFAULT_IMPORT_NAME);
+    const url = column(fields, 'url');
+    const videoId = columns.includes('videoid') ? column(fields, 'videoid') : url && videoIdFromUrl(url.trim());
+    if (videoId === null) {
+      collected.skip(name, line, 'Not a YouTube video URL');
+      continue;
+    }
+    collected.add(name, line, toSong({
+      videoId,
+      title: column(fields, 'title'),
+      channel: column(fields, 'channel'),
+      duration: column(fields, 'duration'),
+    }));
+  }
+  return collected.result();
+}
+
+// Playlists in file order, songs grouped under their playlist's name
+function collector() {
+  const playlists = new Map<string, ImportedPlaylist>();
+  const skipped: SkippedRow[] = [];
+  const playlist = (name: string) => {
+    if (!playlists.has(name)) playlists.set(name, { name, songs: [] });
+    return playlists.get(name)!;
+  };
+  return {
+    playlist,
+    skip: (name: string, row: number, reason: string) => skipped.push({ playlist: name, row, reason }),
+    add: (name: string, row: number, song: Song | string) => {
+      if (typeof song === 'string') skipped.push({ playlist: name, row, reason: song });
+      else playlist(name).songs.push(song);
+    },
+    result: (): ParsedPlaylists => ({ playlists: [...playlists.values()], skipped }),
+  };
+}
+
+/** A playlist song from untrusted fields, or why they don't make one */
+function toSong(fields: { videoId?: unknown; title?: unknown; channel?: unknown; duration?: unknown }): Song | string {
+  const videoId = typeof fields.videoId === 'string' ? fields.videoId.trim() : '';
+  if (!videoId) return 'Missing videoId';
+  if (!VIDEO_ID.test(videoId)) return `Invalid videoId "${videoId.slice(0, 20)}"`;
+
+  const raw = fields.duration;
+  const duration = raw === undefined || raw === null || raw === '' ? 0 : Number(raw);
+  if (!Number.isFinite(duration) || duration < 0) return `Invalid duration "${String(raw).slice(0, 20)}"`;
+
+  return {
+    videoId,
+    title: text(fields.title) || 'YouTube Video',
+    channel: text(fields.channel),
+    thumbnail: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+    duration,
+  };
+}
+
+/** The video ID in a youtube.com or youtu.be URL, or null */
+export function videoIdFromUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.replace(/^(www|m|music)\./, '');
+  const id = host === 'youtu.be' ? parsed.pathname.slice(1)
+    : host === 'youtube.com' ? parsed.searchParams.get('v') ?? /^\/(?:embed|shorts|live)\/([^/]+)/.exec(parsed.pathname)?.[1]
+    : null;
+  return id && VIDEO_ID.test(id) ? id : null;
+}
+
+// CSV records with the line each one starts on; quoted fields may span lines
+function csvRecords(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') line++;
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: start, fields });
+      fields = [];
+      field = '';
+      start = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: start, fields });
+  }
+  return records.filter((r) => r.fields.some((f) => f.trim()));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Spreadsheets run fields starting with these as formulas; a leading ' keeps them text
+const FORMULA_START = /^[=+\-@]/;
+
+function csvField(value: string): string {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Undo csvField's formula guard
+function csvValue(field: string): string {
+  return field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+function playlistName(value: unknown, fallback: string): string {
+  return text(value).slice(0, MAX_NAME_LENGTH) || fallback;
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? oneLine(value).trim().slice(0, MAX_TEXT_LENGTH) : '';
+}
+
+function oneLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+// A playlist holds the song itself, not who sang it or where it was queued from
+function plainSong({ videoId, title, channel, thumbnail, duration }: Song): Song {
+  return { videoId, title, channel, thumbnail, duration };
+}
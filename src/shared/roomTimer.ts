@@ -0,0 +1,28 @@
+import type { RoomStatus, RoomTimer } from './types';
+
+// Minutes before the end at which the last song is announced
+export const DEFAULT_WARN_MINUTES = 10;
+
+/** Time left on the room timer and what that means for the party */
+export function roomStatus(timer: RoomTimer, now = Date.now()): RoomStatus {
+  const remaining = Math.max(0, (timer.endsAt - now) / 1000);
+  const phase = remaining === 0 ? 'expired' : remaining <= timer.warnMinutes * 60 ? 'last-song' : 'running';
+  return { ...timer, remaining, phase };
+}
+
+/**
+ * Add `minutes` to the room. Time is added to the end of the slot, or to
+ * now if it has already run out.
+ */
+export function extendRoom(timer: RoomTimer, minutes: number, now = Date.now()): RoomTimer {
+  return { ...timer, endsAt: Math.max(timer.endsAt, now) + minutes * 60_000 };
+}
+
+/** "1:05:09" or "5:09" */
+export function formatCountdown(seconds: number): string {
+  const total = Math.ceil(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
@@ -9,6 +9,21 @@ export interface Song {
   channel: string;
   thumbnail: string;
   duration: number; // duration in seconds
+  entryId?: string; // assigned by the queue; identifies one queued occurrence
+  singer?: Singer; // who requested this queue entry
+  pinned?: boolean; // manually placed; fair rotation leaves it where it is
+  fromPlaylist?: { id: string; name: string }; // set when queued by loading a playlist
+  autoAdded?: boolean; // picked by auto-fill; a real request takes its place
+}
+
+/**
+ * Singer profile; queue entries keep a copy of the singer who requested them
+ */
+export interface Singer {
+  id: string;
+  name: string;
+  color: string; // CSS colour for the singer's badge
+  avatar: string; // emoji or short text shown in the badge
 }
 
 /**
@@ -50,6 +65,7 @@ export type YouTubePlayerCommand =
   | 'stop-video'
   | 'seek-to'
   | 'set-volume'
+  | 'set-playback-rate'
   | 'mute'
   | 'unmute'
   | 'get-player-state';
@@ -64,6 +80,7 @@ export interface PlayerStateInfo {
   volume: number;
   isMuted: boolean;
   videoId?: string | null;
+  playbackRate?: number; // 1 is normal speed
 }
 
 /**
@@ -83,4 +100,336 @@ export enum PlayerAction {
   PAUSE = 'pause',
   STOP = 'stop',
   LOAD = 'load',
-}
\ No newline at end of file
+}
+/**
+ * Permission scopes a Skill API token can hold.
+ * `admin` implies every other scope; `queue-add` and `skip` imply `read`.
+ */
+export type ApiScope = 'read' | 'queue-add' | 'skip' | 'admin';
+
+/**
+ * Bearer token issued to a Skill API client
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  token: string;
+  scopes: ApiScope[];
+  createdAt: number; // timestamp in milliseconds
+  host?: boolean; // the host's own token: skips host-mode approval and the queue lock
+}
+
+/**
+ * Event types pushed by the Skill API `/api/events` stream
+ */
+export type KtvEventType =
+  | 'song-started'
+  | 'song-ended'
+  | 'queue-changed'
+  | 'playback-state'
+  | 'volume-changed'
+  | 'display-opened'
+  | 'display-closed';
+
+/**
+ * A single event on the Skill API `/api/events` stream
+ */
+export interface KtvEvent<T = unknown> {
+  id: number;
+  type: KtvEventType;
+  data: T;
+  timestamp: number; // timestamp in milliseconds
+}
+
+/**
+ * Data of a `playback-state` event: the queue's playback state after it changed
+ */
+export interface PlaybackStateEvent {
+  playbackState: PlaybackState;
+}
+
+/**
+ * Host-controlled settings for the phone remote
+ */
+export interface RemoteSettings {
+  lanAccess: boolean; // bind the Skill API to 0.0.0.0 instead of 127.0.0.1
+  guestSkip: boolean; // let remote guests skip the current song
+  cornerQr: boolean; // keep a small join QR code on the display during playback
+}
+
+/**
+ * Remote settings plus the link guests should open
+ */
+export interface RemoteInfo extends RemoteSettings {
+  url: string;
+}
+
+/**
+ * Join link for the display window's QR code
+ */
+export interface JoinInfo {
+  url: string;
+  qrDataUrl: string; // PNG data URL, generated locally
+  available: boolean; // false until LAN access is enabled
+  cornerQr: boolean;
+}
+
+/**
+ * Playlist without its songs, as listed by the Skill API
+ */
+export interface PlaylistSummary {
+  id: string;
+  name: string;
+  songCount: number;
+  createdAt: number; // timestamp in milliseconds
+}
+
+/**
+ * Playlist operation the main process asks the control window to run
+ * on behalf of a Skill API call
+ */
+export type PlaylistCommand =
+  | { action: 'list' }
+  | { action: 'get'; playlistId: string }
+  | { action: 'create'; name: string; songs?: Song[] }
+  | { action: 'rename'; playlistId: string; name: string }
+  | { action: 'delete'; playlistId: string }
+  | { action: 'add-song'; playlistId: string; song: Song }
+  | { action: 'remove-song'; playlistId: string; index: number }
+  | { action: 'load'; playlistId: string; replace: boolean }
+  | { action: 'export'; playlistId?: string } // one playlist with its songs, or all of them
+  | { action: 'import'; playlists: ImportedPlaylist[]; onCollision: PlaylistCollision };
+
+/**
+ * File formats playlists are exported to and imported from
+ */
+export type PlaylistFormat = 'json' | 'm3u' | 'csv';
+
+/**
+ * What an import does with a playlist whose name is taken: add the new songs
+ * to it, or import a copy under a numbered name
+ */
+export type PlaylistCollision = 'merge' | 'duplicate';
+
+/**
+ * Versioned JSON export of one or more playlists
+ */
+export interface PlaylistExport {
+  format: 'aipc-ktv-playlists';
+  version: number;
+  exportedAt: number; // timestamp in milliseconds
+  playlists: { name: string; createdAt: number; songs: Song[] }[];
+}
+
+/**
+ * A playlist read from an import file, before it is saved
+ */
+export interface ImportedPlaylist {
+  name: string;
+  songs: Song[];
+}
+
+/**
+ * A row of an import file that was left out
+ */
+export interface SkippedRow {
+  playlist: string;
+  row: number; // line number in M3U and CSV files; song number in the playlist for JSON (0: the whole playlist)
+  reason: string;
+}
+
+/**
+ * How an imported playlist was saved
+ */
+export interface ImportedPlaylistResult {
+  id: string;
+  name: string;
+  added: number; // songs saved; merging leaves out songs the playlist already has
+  merged: boolean;
+}
+
+/**
+ * How a song left the stage: played to the end, or skipped/cleared
+ */
+export type SongEndReason = 'completed' | 'skipped';
+
+/**
+ * One played queue entry. `song` keeps the entry's singer and source playlist.
+ */
+export interface HistoryEntry {
+  id: string;
+  song: Song;
+  startedAt: number; // timestamp in milliseconds
+  endedAt: number | null; // null while the song is still playing
+  endReason: SongEndReason | null;
+}
+
+/**
+ * History filter used by the history panel and the Skill API
+ */
+export interface HistoryQuery {
+  date?: string; // YYYY-MM-DD, local time of the KTV machine
+  limit?: number;
+}
+
+/**
+ * What to do when a song that's already queued (or, with a recent window,
+ * was just sung) is added again
+ */
+export interface DuplicatePolicy {
+  mode: 'allow' | 'warn' | 'reject';
+  recentSongs: number; // also count the last N songs sung (0 = queue only)
+  recentMinutes: number; // also count songs started in the last N minutes
+}
+
+/**
+ * Why a song counts as a duplicate
+ */
+export type DuplicateReason = 'playing' | 'queued' | 'recently-sung';
+
+/**
+ * Result of checking a song against the duplicate policy. `rejected` songs
+ * are not added; otherwise `duplicate` is a warning (or absent).
+ */
+export interface DuplicateCheck {
+  rejected: boolean;
+  duplicate?: {
+    reason: DuplicateReason;
+    message: string;
+  };
+}
+
+/**
+ * Per-singer request limits; 0 turns a limit off. Songs nobody is credited
+ * with only count against `maxDuration`.
+ */
+export interface QueueLimits {
+  maxSongsPerSinger: number; // upcoming songs one singer may have queued
+  maxDuration: number; // longest song allowed, in seconds (unknown lengths pass)
+  cooldownMinutes: number; // time between one singer's adds
+}
+
+/**
+ * Which limit a song broke
+ */
+export type LimitReason = 'singer-queue-full' | 'song-too-long' | 'singer-cooldown' | 'room-time-up';
+
+/**
+ * Result of adding a song: the duplicate check, plus the limit it broke.
+ * A song over a limit is `rejected` with `limit` set.
+ */
+export interface AddCheck extends DuplicateCheck {
+  limit?: {
+    reason: LimitReason;
+    message: string;
+  };
+}
+
+/**
+ * A song the add checks left out of a playlist load, with the duplicate or
+ * limit reason that rejected it
+ */
+export interface RejectedSong {
+  videoId: string;
+  title: string;
+  reason: DuplicateReason | LimitReason;
+  message: string;
+}
+
+/**
+ * Paid time slot of a KTV room, started by the host
+ */
+export interface RoomTimer {
+  startedAt: number; // timestamp in milliseconds
+  endsAt: number; // timestamp in milliseconds; extensions move it
+  warnMinutes: number; // announce the last song this long before the end
+}
+
+/**
+ * Where a room timer is: counting down, into the last song, or over (no more adds)
+ */
+export type RoomPhase = 'running' | 'last-song' | 'expired';
+
+/**
+ * Room timer with the time left, as the display and the Skill API show it
+ */
+export interface RoomStatus extends RoomTimer {
+  remaining: number; // seconds; 0 once expired
+  phase: RoomPhase;
+}
+
+/**
+ * Where auto-fill picks a song from when the queue runs dry
+ */
+export type AutoFillSource = 'playlist' | 'favourites' | 'history';
+
+/**
+ * Auto-fill keeps the party going with a song nobody asked for
+ */
+export interface AutoFillSettings {
+  enabled: boolean;
+  source: AutoFillSource;
+  playlistId: string | null; // for the 'playlist' source
+}
+
+/**
+ * Where a new song goes: the end of the queue, straight after the current
+ * song (插歌), or on stage now, interrupting the current song
+ */
+export type QueuePosition = 'end' | 'next' | 'now';
+
+/**
+ * A song asked for through the Skill API or the phone remote while host
+ * mode is on, waiting for the host to approve or reject it
+ */
+export interface PendingSong {
+  id: string;
+  song: Song;
+  position: QueuePosition; // where it goes once approved
+  requestedBy: string; // name of the API token that asked
+  requestedAt: number; // timestamp in milliseconds
+}
+
+/**
+ * The next few songs, shown on the display window
+ */
+export interface UpNext {
+  songs: {
+    title: string;
+    singer: Singer | null;
+    startsAt: number; // estimated, timestamp in milliseconds
+  }[];
+  more: number; // upcoming songs not listed
+  endsAt: number; // estimated end of the whole queue, timestamp in milliseconds
+}
+
+/**
+ * A party (one evening, one event). History, stats and singer counts can be
+ * scoped to the songs started between `startedAt` and `endedAt`.
+ */
+export interface PartySession {
+  id: string;
+  name: string;
+  startedAt: number; // timestamp in milliseconds
+  endedAt: number | null; // null while the session is running
+}
+
+/**
+ * End-of-session report, shown on the display and exportable as HTML/JSON
+ */
+export interface SessionSummary {
+  session: PartySession;
+  songsSung: number; // entries played to the end
+  songsSkipped: number;
+  duration: number; // length of the session, seconds
+  singingTime: number; // time songs were on stage, seconds
+  singers: {
+    singer: Singer | null; // null: songs nobody was credited with
+    songs: number;
+  }[]; // most songs first
+  mostSkipped: {
+    videoId: string;
+    title: string;
+    skips: number;
+  }[]; // at most 3, most skips first
+}
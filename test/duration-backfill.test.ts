@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createDurationBackfill } from '../electron/main/api/durations'
+
+const song = (videoId: string, duration = 0) => ({ videoId, title: videoId, channel: '', thumbnail: '', duration })
+
+describe('createDurationBackfill', () => {
+  it('looks up songs without a duration once and reports what it finds', async () => {
+    const fetchDuration = vi.fn(async (videoId: string) => (videoId === 'a' ? 215 : 0))
+    const onDuration = vi.fn()
+    const backfill = createDurationBackfill({ fetchDuration, onDuration })
+
+    await backfill.backfill([song('a'), song('b'), song('c', 180), song('a')])
+    expect(fetchDuration.mock.calls.map(([id]) => id)).toEqual(['a', 'b'])
+    expect(onDuration).toHaveBeenCalledTimes(1)
+    expect(onDuration).toHaveBeenCalledWith('a', 215)
+
+    // Found durations are replayed for new entries; misses aren't retried
+    await backfill.backfill([song('a'), song('b')])
+    expect(fetchDuration).toHaveBeenCalledTimes(2)
+    expect(onDuration).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not start a second lookup while one is pending', async () => {
+    let finish!: (duration: number) => void
+    const fetchDuration = vi.fn(() => new Promise<number>(resolve => { finish = resolve }))
+    const backfill = createDurationBackfill({ fetchDuration, onDuration: vi.fn() })
+
+    const first = backfill.backfill([song('a')])
+    await backfill.backfill([song('a')])
+    finish(100)
+    await first
+    expect(fetchDuration).toHaveBeenCalledTimes(1)
+  })
+
+  it('tries a failed lookup again after a while', async () => {
+    vi.useFakeTimers()
+    try {
+      const onDuration = vi.fn()
+      const fetchDuration = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(240)
+      const backfill = createDurationBackfill({ fetchDuration, onDuration })
+      await expect(backfill.backfill([song('a')])).resolves.toBeUndefined()
+      expect(onDuration).not.toHaveBeenCalled()
+
+      await backfill.backfill([song('a')])
+      expect(fetchDuration).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(60_000)
+      await backfill.backfill([song('a')])
+      expect(fetchDuration).toHaveBeenCalledTimes(2)
+      expect(onDuration).toHaveBeenCalledWith('a', 240)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useHistoryStore, queryHistory, localDate, MAX_HISTORY } from '../src/renderer/store/historyStore';
+import { usePlaylistStore } from '../src/renderer/store/playlistStore';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { Song } from '../src/renderer/types';
+
+describe('HistoryStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 20, 0));
+    useHistoryStore.setState({ entries: [] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const entry = (videoId: string, entryId: string): Song => ({
+    videoId,
+    title: `Song ${videoId}`,
+    channel: 'Test Channel',
+    thumbnail: 'https://example.com/thumb.jpg',
+    duration: 180,
+    entryId,
+  });
+
+  const entries = () => useHistoryStore.getState().entries;
+
+  describe('recordStart / recordEnd', () => {
+    it('should record start, end and how the song ended', () => {
+      const { recordStart, recordEnd } = useHistoryStore.getState();
+      recordStart(entry('a', 'e1'));
+      vi.advanceTimersByTime(60_000);
+      recordEnd('completed');
+
+      expect(entries()).toEqual([{
+        id: expect.any(String),
+        song: entry('a', 'e1'),
+        startedAt: new Date(2026, 9, 19, 20, 0).getTime(),
+        endedAt: new Date(2026, 9, 19, 20, 1).getTime(),
+        endReason: 'completed',
+      }]);
+    });
+
+    it('should close a song that is replaced before it ends as skipped', () => {
+      const { recordStart } = useHistoryStore.getState();
+      recordStart(entry('a', 'e1'));
+      recordStart(entry('b', 'e2'));
+
+      expect(entries().map((e) => [e.song.videoId, e.endReason])).toEqual([['b', null], ['a', 'skipped']]);
+    });
+
+    it('should not record the same entry twice', () => {
+      const { recordStart } = useHistoryStore.getState();
+      recordStart(entry('a', 'e1'));
+      recordStart({ ...entry('a', 'e1'), singer: { id: 's1', name: 'Alice', color: '#000000', avatar: 'A' } });
+
+      expect(entries()).toHaveLength(1);
+      expect(entries()[0].song.singer?.name).toBe('Alice');
+    });
+
+    it('should record the same video again as a new entry', () => {
+      const { recordStart } = useHistoryStore.getState();
+      recordStart(entry('a', 'e1'));
+      recordStart(entry('a', 'e2'));
+
+      expect(entries()).toHaveLength(2);
+    });
+
+    it('should ignore an end with nothing playing', () => {
+      const { recordStart, recordEnd } = useHistoryStore.getState();
+      recordStart(entry('a', 'e1'));
+      recordEnd('completed');
+      recordEnd('skipped');
+
+      expect(entries()[0].endReason).toBe('completed');
+    });
+
+    it('should keep at most MAX_HISTORY entries', () => {
+      useHistoryStore.setState({
+        entries: Array.from({ length: MAX_HISTORY }, (_, i) => ({
+          id: `h${i}`, song: entry('old', `old${i}`), startedAt: 0, endedAt: 0, endReason: 'completed' as const,
+        })),
+      });
+      useHistoryStore.getState().recordStart(entry('a', 'e1'));
+
+      expect(entries()).toHaveLength(MAX_HISTORY);
+      expect(entries()[0].song.videoId).toBe('a');
+    });
+  });
+
+  describe('queryHistory', () => {
+    it('should filter by local date and limit', () => {
+      const { recordStart } = useHistoryStore.getState();
+      recordStart(entry('a', 'e1'));
+      vi.setSystemTime(new Date(2026, 9, 20, 1, 0));
+      recordStart(entry('b', 'e2'));
+      recordStart(entry('c', 'e3'));
+
+      expect(queryHistory(entries(), { date: '2026-10-19' }).map((e) => e.song.videoId)).toEqual(['a']);
+      expect(queryHistory(entries(), { limit: 2 }).map((e) => e.song.videoId)).toEqual(['c', 'b']);
+      expect(localDate(new Date(2026, 0, 5, 23, 59).getTime())).toBe('2026-01-05');
+    });
+  });
+
+  describe('source playlist', () => {
+    it('should tag songs loaded from a playlist', () => {
+      useQueueStore.getState().clearQueue();
+      const { createPlaylist, loadPlaylistToQueue } = usePlaylistStore.getState();
+      const playlist = createPlaylist('Friday', [entry('a', 'old')]);
+      loadPlaylistToQueue(playlist.id);
+
+      expect(useQueueStore.getState().currentSong?.fromPlaylist).toEqual({ id: playlist.id, name: 'Friday' });
+    });
+  });
+});
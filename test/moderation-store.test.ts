@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useModerationStore } from '../src/renderer/store/moderationStore';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { DEFAULT_DUPLICATE_POLICY } from '../src/renderer/store/duplicates';
+import { Song } from '../src/renderer/types';
+
+describe('ModerationStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useModerationStore.setState({ hostMode: false, queueLocked: false, pendingSongs: [] });
+    useQueueStore.getState().clearQueue();
+    useQueueStore.setState({ duplicatePolicy: DEFAULT_DUPLICATE_POLICY, rotationMode: false });
+  });
+
+  const song = (videoId: string): Song => ({
+    videoId,
+    title: `Song ${videoId}`,
+    channel: 'Test Channel',
+    thumbnail: 'https://example.com/thumb.jpg',
+    duration: 180,
+  });
+
+  const pending = () => useModerationStore.getState().pendingSongs;
+  const queue = () => useQueueStore.getState();
+
+  it('should hold requests without queueing them', () => {
+    const request = useModerationStore.getState().requestSong(song('a'), 'end', 'Guest');
+
+    expect(request).toMatchObject({ song: song('a'), position: 'end', requestedBy: 'Guest' });
+    expect(pending()).toEqual([request]);
+    expect(queue().currentSong).toBeNull();
+  });
+
+  it('should queue an approved song at its requested position', () => {
+    const { requestSong, approve } = useModerationStore.getState();
+    queue().addSong(song('playing'));
+    queue().addSong(song('queued'));
+    const later = requestSong(song('later'), 'end', 'Guest');
+    const next = requestSong(song('next'), 'next', 'Guest');
+
+    expect(approve(later.id)).toEqual({ rejected: false });
+    expect(approve(next.id)).toEqual({ rejected: false });
+
+    expect(queue().upcomingSongs.map((s) => s.videoId)).toEqual(['next', 'queued', 'later']);
+    expect(pending()).toEqual([]);
+  });
+
+  it('should keep a request the duplicate policy rejects', () => {
+    useQueueStore.setState({ duplicatePolicy: { ...DEFAULT_DUPLICATE_POLICY, mode: 'reject' } });
+    queue().addSong(song('a'));
+    const request = useModerationStore.getState().requestSong(song('a'), 'end', 'Guest');
+
+    expect(useModerationStore.getState().approve(request.id)).toMatchObject({ rejected: true });
+    expect(pending()).toHaveLength(1);
+  });
+
+  it('should drop a rejected request', () => {
+    const { requestSong, reject, approve } = useModerationStore.getState();
+    const request = requestSong(song('a'), 'end', 'Guest');
+    reject(request.id);
+
+    expect(pending()).toEqual([]);
+    expect(approve(request.id)).toBeNull();
+    expect(queue().currentSong).toBeNull();
+  });
+});
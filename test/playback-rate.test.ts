@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { normalizePlaybackRate } from '../src/shared/playbackRate';
+import { rememberRate, rememberedRate } from '../src/renderer/services/playbackRates';
+
+describe('normalizePlaybackRate', () => {
+  it('should snap to the nearest practice speed', () => {
+    expect(normalizePlaybackRate(0.8)).toBe(0.75);
+    expect(normalizePlaybackRate(1.1)).toBe(1);
+    expect(normalizePlaybackRate(1.4)).toBe(1.5);
+  });
+
+  it('should clamp to 0.5-1.5', () => {
+    expect(normalizePlaybackRate(0.25)).toBe(0.5);
+    expect(normalizePlaybackRate(2)).toBe(1.5);
+    expect(normalizePlaybackRate(NaN)).toBe(1);
+  });
+});
+
+describe('playback rate memory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should remember a rate per video', () => {
+    rememberRate('a', 0.75);
+    rememberRate('b', 1.25);
+
+    expect(rememberedRate('a')).toBe(0.75);
+    expect(rememberedRate('b')).toBe(1.25);
+    expect(rememberedRate('c')).toBe(1);
+  });
+
+  it('should forget a video set back to normal speed', () => {
+    rememberRate('a', 0.75);
+    rememberRate('a', 1);
+
+    expect(rememberedRate('a')).toBe(1);
+    expect(JSON.parse(localStorage.getItem('ktv-playback-rates')!)).toEqual({});
+  });
+
+  it('should ignore unreadable storage', () => {
+    localStorage.setItem('ktv-playback-rates', 'not json');
+    expect(rememberedRate('a')).toBe(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { syncPlayerState } from '../src/renderer/services/playerStateSync';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { diffQueueState } from '../electron/main/api/events';
+import { PlaybackState, PlayerStateInfo, Song } from '../src/shared/types';
+
+const song = (videoId: string): Song => ({
+  videoId,
+  title: `Song ${videoId}`,
+  channel: '',
+  thumbnail: '',
+  duration: 200,
+});
+
+const report = (state: PlaybackState, videoId: string): PlayerStateInfo => ({
+  state,
+  videoId,
+  currentTime: 10,
+  duration: 200,
+  volume: 50,
+  isMuted: false,
+});
+
+// The control window's ipcRenderer, with the display's messages sent through emit
+const fakeIpc = () => {
+  const listeners = new Map<string, (...args: any[]) => void>();
+  return {
+    on: (channel: string, listener: (...args: any[]) => void) => { listeners.set(channel, listener); },
+    removeAllListeners: (channel: string) => { listeners.delete(channel); },
+    emit: (channel: string, ...args: unknown[]) => listeners.get(channel)?.(...args),
+  };
+};
+
+describe('syncPlayerState', () => {
+  let display: ReturnType<typeof fakeIpc>;
+  let stop: () => void;
+
+  beforeEach(() => {
+    localStorage.clear();
+    useQueueStore.getState().clearQueue();
+    display = fakeIpc();
+    stop = syncPlayerState(display);
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  it('follows the display through playing, paused and error', () => {
+    useQueueStore.getState().addSong(song('a'));
+    expect(useQueueStore.getState().playbackState).toBe(PlaybackState.LOADING);
+
+    for (const state of [PlaybackState.PLAYING, PlaybackState.PAUSED, PlaybackState.PLAYING, PlaybackState.ERROR]) {
+      display.emit('player-state-changed', report(state, 'a'));
+      expect(useQueueStore.getState().playbackState).toBe(state);
+    }
+  });
+
+  it('ignores reports about another video or with nothing queued', () => {
+    display.emit('player-state-changed', report(PlaybackState.PLAYING, 'a'));
+    expect(useQueueStore.getState().playbackState).toBe(PlaybackState.IDLE);
+
+    useQueueStore.getState().addSong(song('b'));
+    display.emit('player-state-changed', report(PlaybackState.PAUSED, 'a'));
+    expect(useQueueStore.getState().playbackState).toBe(PlaybackState.LOADING);
+  });
+
+  it('stops listening when asked', () => {
+    useQueueStore.getState().addSong(song('a'));
+    stop();
+    display.emit('player-state-changed', report(PlaybackState.PLAYING, 'a'));
+    expect(useQueueStore.getState().playbackState).toBe(PlaybackState.LOADING);
+  });
+
+  it('gives the API a playback-state event for each change the display reports', () => {
+    useQueueStore.getState().addSong(song('a'));
+    const snapshot = () => {
+      const { currentSong, upcomingSongs, playbackState } = useQueueStore.getState();
+      return { currentSong, upcomingSongs, playbackState };
+    };
+    const loading = snapshot();
+    display.emit('player-state-changed', report(PlaybackState.PLAYING, 'a'));
+    const playing = snapshot();
+    display.emit('player-state-changed', report(PlaybackState.PAUSED, 'a'));
+
+    expect(diffQueueState(loading, playing)).toEqual([{ type: 'playback-state', data: { playbackState: 'playing' } }]);
+    expect(diffQueueState(playing, snapshot())).toEqual([{ type: 'playback-state', data: { playbackState: 'paused' } }]);
+  });
+});
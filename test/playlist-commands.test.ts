@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runPlaylistCommand } from '../src/renderer/services/playlistCommands';
+import { usePlaylistStore } from '../src/renderer/store/playlistStore';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { PlaybackState } from '../src/shared/types';
+import type { Playlist, Song } from '../src/shared/types';
+
+describe('runPlaylistCommand', () => {
+  const song = (videoId: string): Song => ({
+    videoId,
+    title: `Song ${videoId}`,
+    channel: 'Channel',
+    thumbnail: '',
+    duration: 200,
+  });
+
+  let friday: Playlist;
+
+  beforeEach(() => {
+    localStorage.clear();
+    usePlaylistStore.setState({ playlists: [] });
+    useQueueStore.setState({ currentSong: null, upcomingSongs: [], playbackState: PlaybackState.IDLE });
+    friday = usePlaylistStore.getState().createPlaylist('Friday night', [song('a'), song('b')]);
+  });
+
+  it('lists playlists without their songs', () => {
+    expect(runPlaylistCommand({ action: 'list' })).toEqual([
+      { id: friday.id, name: 'Friday night', songCount: 2, createdAt: friday.createdAt },
+    ]);
+  });
+
+  it('returns null for unknown playlists', () => {
+    expect(runPlaylistCommand({ action: 'get', playlistId: 'nope' })).toBeNull();
+    expect(runPlaylistCommand({ action: 'rename', playlistId: 'nope', name: 'x' })).toBeNull();
+    expect(runPlaylistCommand({ action: 'delete', playlistId: 'nope' })).toBeNull();
+    expect(runPlaylistCommand({ action: 'add-song', playlistId: 'nope', song: song('c') })).toBeNull();
+    expect(runPlaylistCommand({ action: 'load', playlistId: 'nope', replace: false })).toBeNull();
+    expect(usePlaylistStore.getState().playlists).toHaveLength(1);
+  });
+
+  it('creates, renames and deletes playlists', () => {
+    const created = runPlaylistCommand({ action: 'create', name: 'Ballads' }) as Playlist;
+    expect(created.songs).toEqual([]);
+
+    const renamed = runPlaylistCommand({ action: 'rename', playlistId: created.id, name: 'Slow songs' }) as Playlist;
+    expect(renamed.name).toBe('Slow songs');
+
+    runPlaylistCommand({ action: 'delete', playlistId: created.id });
+    expect(usePlaylistStore.getState().playlists.map((p) => p.name)).toEqual(['Friday night']);
+  });
+
+  it('adds and removes songs', () => {
+    runPlaylistCommand({ action: 'add-song', playlistId: friday.id, song: song('c') });
+    const updated = runPlaylistCommand({ action: 'remove-song', playlistId: friday.id, index: 0 }) as Playlist;
+    expect(updated.songs.map((s) => s.videoId)).toEqual(['b', 'c']);
+  });
+
+  it('appends a playlist to the queue', () => {
+    useQueueStore.getState().addSong(song('x'));
+
+    const result = runPlaylistCommand({ action: 'load', playlistId: friday.id, replace: false });
+    expect(result).toMatchObject({ queued: 2, playlist: { id: friday.id, songCount: 2 } });
+
+    const { currentSong, upcomingSongs } = useQueueStore.getState();
+    expect(currentSong?.videoId).toBe('x');
+    expect(upcomingSongs.map((s) => s.videoId)).toEqual(['a', 'b']);
+  });
+
+  it('replaces the queue with a playlist', () => {
+    useQueueStore.getState().addSong(song('x'));
+    useQueueStore.getState().addSong(song('y'));
+
+    runPlaylistCommand({ action: 'load', playlistId: friday.id, replace: true });
+
+    const { currentSong, upcomingSongs } = useQueueStore.getState();
+    expect(currentSong?.videoId).toBe('a');
+    expect(upcomingSongs.map((s) => s.videoId)).toEqual(['b']);
+  });
+});
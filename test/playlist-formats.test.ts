@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  detectPlaylistFormat,
+  exportPlaylists,
+  parsePlaylists,
+  playlistFilename,
+  PlaylistFileError,
+  PLAYLIST_EXPORT_VERSION,
+  videoIdFromUrl,
+} from '../src/shared/playlistFormats';
+import { usePlaylistStore } from '../src/renderer/store/playlistStore';
+import { runPlaylistCommand } from '../src/renderer/services/playlistCommands';
+import { Playlist, PlaylistFormat, Song } from '../src/renderer/types';
+
+const song = (videoId: string, title = `Song ${videoId}`, duration = 200): Song => ({
+  videoId,
+  title,
+  channel: 'Channel',
+  thumbnail: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+  duration,
+});
+
+const A = 'aaaaaaaaaaa';
+const B = 'bbbbbbbbbbb';
+const C = 'ccccccccccc';
+
+const party: Playlist = {
+  id: 'p1',
+  name: 'Friday Night',
+  songs: [song(A, 'Say "Hi", again'), song(B)],
+  createdAt: 1000,
+};
+const ballads: Playlist = { id: 'p2', name: 'Ballads', songs: [song(C, 'Slow', 0)], createdAt: 2000 };
+
+describe('playlist export', () => {
+  it('writes a versioned JSON export without queue bookkeeping', () => {
+    const withEntry = { ...party, songs: [{ ...party.songs[0], entryId: 'e1', singer: undefined, pinned: true }] };
+    const data = JSON.parse(exportPlaylists([withEntry], 'json', 5000));
+    expect(data).toEqual({
+      format: 'aipc-ktv-playlists',
+      version: PLAYLIST_EXPORT_VERSION,
+      exportedAt: 5000,
+      playlists: [{ name: 'Friday Night', createdAt: 1000, songs: [song(A, 'Say "Hi", again')] }],
+    });
+  });
+
+  it('writes M3U with YouTube URLs, one #PLAYLIST per playlist', () => {
+    expect(exportPlaylists([party, ballads], 'm3u')).toBe([
+      '#EXTM3U',
+      '#PLAYLIST:Friday Night',
+      '#EXTINF:200,Say "Hi", again',
+      `https://www.youtube.com/watch?v=${A}`,
+      '#EXTINF:200,Song bbbbbbbbbbb',
+      `https://www.youtube.com/watch?v=${B}`,
+      '#PLAYLIST:Ballads',
+      '#EXTINF:-1,Slow',
+      `https://www.youtube.com/watch?v=${C}`,
+      '',
+    ].join('\n'));
+  });
+
+  it('writes CSV with quoted fields where needed', () => {
+    expect(exportPlaylists([party], 'csv')).toBe([
+      'playlist,videoId,title,channel,duration',
+      `Friday Night,${A},"Say ""Hi"", again",Channel,200`,
+      `Friday Night,${B},Song bbbbbbbbbbb,Channel,200`,
+      '',
+    ].join('\r\n'));
+  });
+
+  it('keeps CSV fields from running as spreadsheet formulas', () => {
+    const risky: Playlist = { ...party, name: '@party', songs: [song(A, '=HYPERLINK("x")'), song(B, '-1 +1')] };
+    const csv = exportPlaylists([risky], 'csv');
+    expect(csv.split('\r\n').slice(1, 3)).toEqual([
+      `'@party,${A},"'=HYPERLINK(""x"")",Channel,200`,
+      `'@party,${B},'-1 +1,Channel,200`,
+    ]);
+
+    const { playlists } = parsePlaylists(csv, 'csv');
+    expect(playlists[0].name).toBe('@party');
+    expect(playlists[0].songs.map((s) => s.title)).toEqual(['=HYPERLINK("x")', '-1 +1']);
+  });
+
+  it('names files after the playlist', () => {
+    expect(playlistFilename('Friday Night!', 'm3u')).toBe('friday-night.m3u');
+    expect(playlistFilename('週末', 'csv')).toBe('playlist.csv');
+    expect(playlistFilename(null, 'json')).toBe('ktv-playlists.json');
+  });
+});
+
+describe('playlist import', () => {
+  it.each<PlaylistFormat>(['json', 'm3u', 'csv'])('reads back its own %s export', (format) => {
+    const { playlists, skipped } = parsePlaylists(exportPlaylists([party, ballads], format), format);
+    expect(skipped).toEqual([]);
+    expect(playlists.map((p) => p.name)).toEqual(['Friday Night', 'Ballads']);
+    expect(playlists[0].songs.map((s) => [s.videoId, s.title, s.duration])).toEqual([
+      [A, 'Say "Hi", again', 200],
+      [B, 'Song bbbbbbbbbbb', 200],
+    ]);
+    expect(playlists[1].songs[0].duration).toBe(0);
+  });
+
+  it('skips invalid JSON entries and reports them', () => {
+    const file = JSON.stringify({
+      format: 'aipc-ktv-playlists',
+      version: 1,
+      playlists: [
+        { name: 'Mix', songs: [{ videoId: A, title: 'Ok' }, { title: 'No id' }, { videoId: 'short' }, { videoId: B, duration: 'long' }] },
+        { name: 'Broken' },
+        { songs: [] },
+      ],
+    });
+    const { playlists, skipped } = parsePlaylists(file, 'json');
+    expect(playlists).toEqual([
+      { name: 'Mix', songs: [{ ...song(A, 'Ok', 0), channel: '' }] },
+      { name: 'Imported 3', songs: [] },
+    ]);
+    expect(skipped).toEqual([
+      { playlist: 'Mix', row: 2, reason: 'Missing videoId' },
+      { playlist: 'Mix', row: 3, reason: 'Invalid videoId "short"' },
+      { playlist: 'Mix', row: 4, reason: 'Invalid duration "long"' },
+      { playlist: 'Broken', row: 0, reason: 'No song list' },
+    ]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parsePlaylists('{ nope', 'json')).toThrow(PlaylistFileError);
+    expect(() => parsePlaylists('{"playlists": []}', 'json')).toThrow('not an AIPC KTV playlist export');
+    expect(() => parsePlaylists('{"format": "aipc-ktv-playlists", "version": 2, "playlists": []}', 'json'))
+      .toThrow('newer version');
+    expect(() => parsePlaylists('#EXTM3U\n', 'm3u')).toThrow('No playlists found');
+    expect(() => parsePlaylists('name,artist\nx,y\n', 'csv')).toThrow('videoId or url column');
+  });
+
+  it('reads M3U URLs of any YouTube form and skips other lines', () => {
+    const file = [
+      '#EXTM3U',
+      '#EXTINF:180,First',
+      `https://youtu.be/${A}`,
+      'https://example.com/song.mp3',
+      `https://music.youtube.com/watch?v=${B}&list=x`,
+    ].join('\r\n');
+    const { playlists, skipped } = parsePlaylists(file, 'm3u');
+    expect(playlists).toHaveLength(1);
+    expect(playlists[0].name).toBe('Imported');
+    expect(playlists[0].songs.map((s) => [s.videoId, s.title, s.duration])).toEqual([
+      [A, 'First', 180],
+      [B, 'YouTube Video', 0],
+    ]);
+    expect(skipped).toEqual([{ playlist: 'Imported', row: 4, reason: 'Not a YouTube video URL' }]);
+  });
+
+  it('reads CSV with a url column, quoted newlines and line numbers', () => {
+    const file = `Playlist,URL,Title\nMix,https://www.youtube.com/watch?v=${A},"Two\nlines"\nMix,nope,Bad\n,https://youtu.be/${B},\n`;
+    const { playlists, skipped } = parsePlaylists(file, 'csv');
+    expect(playlists.map((p) => [p.name, p.songs.map((s) => s.title)])).toEqual([
+      ['Mix', ['Two lines']],
+      ['Imported', ['YouTube Video']],
+    ]);
+    expect(skipped).toEqual([{ playlist: 'Mix', row: 4, reason: 'Not a YouTube video URL' }]);
+  });
+
+  it('guesses the format from the file name, then the content', () => {
+    expect(detectPlaylistFormat('', 'list.M3U8')).toBe('m3u');
+    expect(detectPlaylistFormat('{}', 'list.csv')).toBe('csv');
+    expect(detectPlaylistFormat('  {"format": 1}')).toBe('json');
+    expect(detectPlaylistFormat(`https://youtu.be/${A}`)).toBe('m3u');
+    expect(detectPlaylistFormat('playlist,videoId')).toBe('csv');
+  });
+
+  it('finds video IDs in YouTube URLs only', () => {
+    expect(videoIdFromUrl(`https://www.youtube.com/embed/${A}`)).toBe(A);
+    expect(videoIdFromUrl(`https://youtube.com/shorts/${A}`)).toBe(A);
+    expect(videoIdFromUrl(`https://vimeo.com/watch?v=${A}`)).toBeNull();
+    expect(videoIdFromUrl('not a url')).toBeNull();
+  });
+});
+
+describe('PlaylistStore import', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    usePlaylistStore.setState({ playlists: [party] });
+  });
+
+  it('merges into a playlist with the same name, adding only new songs', () => {
+    const results = usePlaylistStore.getState().importPlaylists(
+      [{ name: 'friday night', songs: [song(B), song(C), song(C)] }],
+      'merge'
+    );
+    expect(results).toEqual([{ id: 'p1', name: 'Friday Night', added: 1, merged: true }]);
+    expect(usePlaylistStore.getState().playlists).toHaveLength(1);
+    expect(usePlaylistStore.getState().playlists[0].songs.map((s) => s.videoId)).toEqual([A, B, C]);
+  });
+
+  it('imports a numbered copy when asked to keep both', () => {
+    const { importPlaylists } = usePlaylistStore.getState();
+    importPlaylists([{ name: 'Friday Night', songs: [song(C)] }], 'duplicate');
+    const [result] = importPlaylists([{ name: 'Friday Night', songs: [] }], 'duplicate');
+    expect(result).toMatchObject({ name: 'Friday Night (3)', added: 0, merged: false });
+    expect(usePlaylistStore.getState().playlists.map((p) => p.name)).toEqual([
+      'Friday Night',
+      'Friday Night (2)',
+      'Friday Night (3)',
+    ]);
+  });
+
+  it('runs export and import commands from the Skill API', () => {
+    expect(runPlaylistCommand({ action: 'export' })).toEqual([party]);
+    expect(runPlaylistCommand({ action: 'export', playlistId: 'p1' })).toEqual([party]);
+    expect(runPlaylistCommand({ action: 'export', playlistId: 'gone' })).toBeNull();
+
+    const results = runPlaylistCommand({ action: 'import', playlists: [{ name: 'New', songs: [song(C)] }], onCollision: 'merge' });
+    expect(results).toEqual([expect.objectContaining({ name: 'New', added: 1, merged: false })]);
+  });
+});
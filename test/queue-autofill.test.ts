@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DEFAULT_AUTO_FILL, mostSung, pickAutoFill, RECENT_SONGS } from '../src/renderer/store/autoFill';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { useHistoryStore } from '../src/renderer/store/historyStore';
+import { usePlaylistStore } from '../src/renderer/store/playlistStore';
+import { useFavouritesStore } from '../src/renderer/store/favouritesStore';
+import { AutoFillSettings, HistoryEntry, Playlist, Singer, Song } from '../src/renderer/types';
+import { PlaybackState } from '../src/shared/types';
+import { syncPlayerState } from '../src/renderer/services/playerStateSync';
+
+const alice: Singer = { id: 's1', name: 'Alice', color: '#ff0000', avatar: 'A' };
+
+const song = (videoId: string, singer?: Singer): Song => ({
+  videoId,
+  title: `Song ${videoId}`,
+  channel: '',
+  thumbnail: '',
+  duration: 200,
+  singer,
+});
+
+let nextId = 0;
+const played = (s: Song, endReason: HistoryEntry['endReason'] = 'completed'): HistoryEntry => ({
+  id: `h${nextId++}`,
+  song: s,
+  startedAt: 0,
+  endedAt: 1,
+  endReason,
+});
+
+const playlist = (id: string, songs: Song[]): Playlist => ({ id, name: id, songs, createdAt: 0 });
+
+// The control window's ipcRenderer, with the display's messages sent through emit
+const fakeIpc = () => {
+  const listeners = new Map<string, (...args: any[]) => void>();
+  return {
+    on: (channel: string, listener: (...args: any[]) => void) => { listeners.set(channel, listener); },
+    removeAllListeners: (channel: string) => { listeners.delete(channel); },
+    emit: (channel: string, ...args: unknown[]) => listeners.get(channel)?.(...args),
+  };
+};
+
+const settings = (extra: Partial<AutoFillSettings>): AutoFillSettings => ({ ...DEFAULT_AUTO_FILL, enabled: true, ...extra });
+
+const noSources = { playlists: [], favourites: [], history: [] };
+
+describe('mostSung', () => {
+  it('ranks completed songs by how often they were sung', () => {
+    const history = [
+      played(song('a')),
+      played(song('b')),
+      played(song('b')),
+      played(song('c'), 'skipped'),
+      played(song('c'), 'skipped'),
+      played({ ...song('d'), autoAdded: true }),
+    ];
+    expect(mostSung(history).map((s) => s.videoId)).toEqual(['b', 'a']);
+  });
+
+  it('keeps the most recently sung first on a tie and stops at the limit', () => {
+    const history = [played(song('a')), played(song('b')), played(song('c'))];
+    expect(mostSung(history, 2).map((s) => s.videoId)).toEqual(['a', 'b']);
+  });
+});
+
+describe('pickAutoFill', () => {
+  it('picks from the chosen playlist', () => {
+    const sources = { ...noSources, playlists: [playlist('p1', [song('a')]), playlist('p2', [song('b')])] };
+    expect(pickAutoFill(settings({ source: 'playlist', playlistId: 'p2' }), sources)?.videoId).toBe('b');
+    expect(pickAutoFill(settings({ source: 'playlist', playlistId: 'gone' }), sources)).toBeNull();
+  });
+
+  it('picks from favourites', () => {
+    const sources = { ...noSources, favourites: [song('a'), song('b')] };
+    expect(pickAutoFill(settings({ source: 'favourites' }), sources, () => 0.99)?.videoId).toBe('b');
+    expect(pickAutoFill(settings({ source: 'favourites' }), noSources)).toBeNull();
+  });
+
+  it('avoids recently played songs while there are others', () => {
+    const history = [played(song('a')), played(song('b'))];
+    const sources = { ...noSources, history, favourites: [song('a'), song('b'), song('c')] };
+    expect(pickAutoFill(settings({ source: 'favourites' }), sources, () => 0)?.videoId).toBe('c');
+
+    const onlyRecent = { ...sources, favourites: [song('a')] };
+    expect(pickAutoFill(settings({ source: 'favourites' }), onlyRecent, () => 0)?.videoId).toBe('a');
+
+    const longAgo = [...Array.from({ length: RECENT_SONGS }, (_, i) => played(song(`x${i}`))), played(song('a'))];
+    expect(pickAutoFill(settings({ source: 'favourites' }), { ...onlyRecent, history: longAgo })?.videoId).toBe('a');
+  });
+
+  it('returns the song without a singer or queue bookkeeping', () => {
+    const sources = { ...noSources, history: [played({ ...song('a', alice), entryId: 'e1', pinned: true })] };
+    expect(pickAutoFill(settings({ source: 'history' }), sources)).toEqual({
+      videoId: 'a',
+      title: 'Song a',
+      channel: '',
+      thumbnail: '',
+      duration: 200,
+    });
+  });
+});
+
+describe('QueueStore auto-fill', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useQueueStore.getState().clearQueue();
+    useQueueStore.setState({ autoFill: DEFAULT_AUTO_FILL });
+    useHistoryStore.setState({ entries: [] });
+    usePlaylistStore.setState({ playlists: [playlist('p1', [song('filler')])] });
+    useFavouritesStore.setState({ songs: [] });
+  });
+
+  it('goes idle when the queue runs dry and auto-fill is off', () => {
+    const { addSong, nextSong } = useQueueStore.getState();
+    addSong(song('a'));
+    nextSong();
+    expect(useQueueStore.getState().currentSong).toBeNull();
+    expect(useQueueStore.getState().playbackState).toBe(PlaybackState.IDLE);
+  });
+
+  it('plays an auto-added pick when the queue runs dry', () => {
+    const { addSong, nextSong, setAutoFill } = useQueueStore.getState();
+    setAutoFill(settings({ source: 'playlist', playlistId: 'p1' }));
+    addSong(song('a'));
+    nextSong();
+
+    const { currentSong, playbackState } = useQueueStore.getState();
+    expect(currentSong).toMatchObject({ videoId: 'filler', autoAdded: true });
+    expect(currentSong?.entryId).toBeDefined();
+    expect(playbackState).toBe(PlaybackState.LOADING);
+  });
+
+  it('goes idle when the source has nothing to pick', () => {
+    const { addSong, nextSong, setAutoFill } = useQueueStore.getState();
+    setAutoFill(settings({ source: 'favourites' }));
+    addSong(song('a'));
+    nextSong();
+    expect(useQueueStore.getState().currentSong).toBeNull();
+  });
+
+  it('lets a real request take over from an auto-added song that has not started', () => {
+    const { addSong, insertNext, nextSong, setAutoFill } = useQueueStore.getState();
+    setAutoFill(settings({ source: 'playlist', playlistId: 'p1' }));
+    nextSong();
+    expect(useQueueStore.getState().currentSong?.autoAdded).toBe(true);
+
+    addSong(song('real', alice));
+    expect(useQueueStore.getState().currentSong).toMatchObject({ videoId: 'real', autoAdded: undefined });
+    expect(useQueueStore.getState().upcomingSongs).toEqual([]);
+
+    // A real song playing is not taken over
+    insertNext(song('b'));
+    expect(useQueueStore.getState().currentSong?.videoId).toBe('real');
+
+    useQueueStore.setState({ upcomingSongs: [] });
+    nextSong();
+    insertNext(song('c'));
+    expect(useQueueStore.getState().currentSong?.videoId).toBe('c');
+  });
+
+  it('queues a real request after an auto-added song the display reports playing', () => {
+    const display = fakeIpc();
+    const stop = syncPlayerState(display);
+    const { addSong, insertNext, nextSong, setAutoFill } = useQueueStore.getState();
+    setAutoFill(settings({ source: 'playlist', playlistId: 'p1' }));
+    nextSong();
+    display.emit('player-state-changed', { state: PlaybackState.PLAYING, videoId: 'filler', currentTime: 3, duration: 200, volume: 50, isMuted: false });
+
+    addSong(song('real', alice));
+    insertNext(song('b'));
+    const { currentSong, upcomingSongs, playbackState } = useQueueStore.getState();
+    expect(currentSong).toMatchObject({ videoId: 'filler', autoAdded: true });
+    expect(playbackState).toBe(PlaybackState.PLAYING);
+    expect(upcomingSongs.map((s) => s.videoId)).toEqual(['b', 'real']);
+
+    nextSong();
+    expect(useQueueStore.getState().currentSong?.videoId).toBe('b');
+    stop();
+  });
+
+  it('queues an auto-added song again as a real request', () => {
+    const { addSong } = useQueueStore.getState();
+    addSong({ ...song('a'), autoAdded: true });
+    expect(useQueueStore.getState().currentSong?.autoAdded).toBeUndefined();
+  });
+});
+
+describe('FavouritesStore', () => {
+  beforeEach(() => {
+    useFavouritesStore.setState({ songs: [] });
+  });
+
+  it('stars and unstars a song once per video, without queue bookkeeping', () => {
+    const { toggleFavourite, isFavourite } = useFavouritesStore.getState();
+    toggleFavourite({ ...song('a', alice), entryId: 'e1', autoAdded: true });
+    toggleFavourite(song('b'));
+    expect(useFavouritesStore.getState().songs).toEqual([
+      song('b'),
+      { videoId: 'a', title: 'Song a', channel: '', thumbnail: '', duration: 200 },
+    ]);
+    expect(isFavourite('a')).toBe(true);
+
+    toggleFavourite(song('a'));
+    expect(isFavourite('a')).toBe(false);
+  });
+});
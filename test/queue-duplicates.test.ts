@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkDuplicate, DEFAULT_DUPLICATE_POLICY } from '../src/renderer/store/duplicates';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { useHistoryStore } from '../src/renderer/store/historyStore';
+import { usePlaylistStore } from '../src/renderer/store/playlistStore';
+import { DuplicatePolicy, HistoryEntry, Song } from '../src/renderer/types';
+
+const song = (videoId: string): Song => ({
+  videoId,
+  title: `Song ${videoId}`,
+  channel: '',
+  thumbnail: '',
+  duration: 0,
+});
+
+const NOW = new Date(2026, 9, 19, 21, 0).getTime();
+
+// Sung `minutesAgo` before NOW
+const sung = (videoId: string, minutesAgo: number): HistoryEntry => ({
+  id: `h-${videoId}`,
+  song: song(videoId),
+  startedAt: NOW - minutesAgo * 60_000,
+  endedAt: NOW - minutesAgo * 60_000 + 1,
+  endReason: 'completed',
+});
+
+const policy = (extra: Partial<DuplicatePolicy>): DuplicatePolicy => ({ ...DEFAULT_DUPLICATE_POLICY, ...extra });
+
+describe('checkDuplicate', () => {
+  const queue = { currentSong: song('a'), upcomingSongs: [song('b'), song('c')] };
+
+  it('allows everything by default', () => {
+    expect(checkDuplicate(song('a'), queue, [], DEFAULT_DUPLICATE_POLICY)).toEqual({ rejected: false });
+  });
+
+  it('finds the current song and queued songs', () => {
+    expect(checkDuplicate(song('a'), queue, [], policy({ mode: 'reject' }))).toEqual({
+      rejected: true,
+      duplicate: { reason: 'playing', message: '"Song a" is playing now' },
+    });
+    expect(checkDuplicate(song('c'), queue, [], policy({ mode: 'warn' }))).toEqual({
+      rejected: false,
+      duplicate: { reason: 'queued', message: '"Song c" is already queued (#2 up next)' },
+    });
+    expect(checkDuplicate(song('d'), queue, [], policy({ mode: 'reject' }))).toEqual({ rejected: false });
+  });
+
+  it('only counts history inside the recent window', () => {
+    const history = [sung('x', 5), sung('y', 20), sung('z', 90)];
+    const reject = (videoId: string, extra: Partial<DuplicatePolicy>) =>
+      checkDuplicate(song(videoId), queue, history, policy({ mode: 'reject', ...extra }), NOW).rejected;
+
+    expect(reject('x', {})).toBe(false);
+    expect(reject('y', { recentSongs: 2 })).toBe(true);
+    expect(reject('z', { recentSongs: 2 })).toBe(false);
+    expect(reject('y', { recentMinutes: 30 })).toBe(true);
+    expect(reject('z', { recentMinutes: 30 })).toBe(false);
+    expect(checkDuplicate(song('y'), queue, history, policy({ mode: 'reject', recentMinutes: 30 }), NOW).duplicate)
+      .toEqual({ reason: 'recently-sung', message: '"Song y" was sung 20 min ago' });
+  });
+
+  it('counts only finished, sung songs towards the last N', () => {
+    const playing: HistoryEntry = { ...sung('a', 1), endedAt: null, endReason: null };
+    const skipped: HistoryEntry = { ...sung('s', 3), endReason: 'skipped' };
+    const history = [playing, skipped, sung('x', 5), sung('y', 20)];
+    const reject = (videoId: string) =>
+      checkDuplicate(song(videoId), queue, history, policy({ mode: 'reject', recentSongs: 1 }), NOW).rejected;
+
+    expect(reject('x')).toBe(true);
+    expect(reject('y')).toBe(false);
+    expect(reject('s')).toBe(false);
+  });
+});
+
+describe('QueueStore duplicate policy', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useQueueStore.getState().setDuplicatePolicy(DEFAULT_DUPLICATE_POLICY);
+    useQueueStore.getState().clearQueue();
+    useHistoryStore.setState({ entries: [] });
+  });
+
+  const videoIds = () => {
+    const { currentSong, upcomingSongs } = useQueueStore.getState();
+    return [currentSong?.videoId, ...upcomingSongs.map((s) => s.videoId)];
+  };
+
+  it('queues repeats when allowed', () => {
+    const { addSong } = useQueueStore.getState();
+    addSong(song('a'));
+    expect(addSong(song('a'))).toEqual({ rejected: false });
+    expect(videoIds()).toEqual(['a', 'a']);
+  });
+
+  it('queues repeats with a warning in warn mode', () => {
+    const { addSong, setDuplicatePolicy } = useQueueStore.getState();
+    setDuplicatePolicy(policy({ mode: 'warn' }));
+    addSong(song('a'));
+    expect(addSong(song('a')).duplicate?.reason).toBe('playing');
+    expect(videoIds()).toEqual(['a', 'a']);
+  });
+
+  it('leaves rejected songs out of the queue and the undo stack', () => {
+    const { addSong, insertNext, setDuplicatePolicy } = useQueueStore.getState();
+    setDuplicatePolicy(policy({ mode: 'reject' }));
+    addSong(song('a'));
+    addSong(song('b'));
+    const undoSteps = useQueueStore.getState().undoStack.length;
+
+    expect(addSong(song('b')).rejected).toBe(true);
+    expect(insertNext(song('a')).rejected).toBe(true);
+    expect(videoIds()).toEqual(['a', 'b']);
+    expect(useQueueStore.getState().undoStack).toHaveLength(undoSteps);
+  });
+
+  it('rejects songs sung recently when the window covers them', () => {
+    const { addSong, setDuplicatePolicy } = useQueueStore.getState();
+    setDuplicatePolicy(policy({ mode: 'reject', recentSongs: 5 }));
+    useHistoryStore.getState().recordStart(song('a'));
+    useHistoryStore.getState().recordEnd('completed');
+
+    expect(addSong(song('a')).duplicate?.reason).toBe('recently-sung');
+    expect(videoIds()).toEqual([undefined]);
+  });
+
+  it('skips rejected songs when loading a playlist', () => {
+    useQueueStore.getState().setDuplicatePolicy(policy({ mode: 'reject' }));
+    useQueueStore.getState().addSong(song('b'));
+    const { createPlaylist, loadPlaylistToQueue } = usePlaylistStore.getState();
+    const playlist = createPlaylist('Friday', [song('a'), song('b'), song('a')]);
+
+    expect(loadPlaylistToQueue(playlist.id)).toEqual({
+      queued: 1,
+      skipped: [
+        { videoId: 'b', title: 'Song b', reason: 'playing', message: '"Song b" is playing now' },
+        { videoId: 'a', title: 'Song a', reason: 'queued', message: '"Song a" is already queued (#1 up next)' },
+      ],
+    });
+    expect(videoIds()).toEqual(['b', 'a']);
+  });
+});
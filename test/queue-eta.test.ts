@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { estimateQueue, formatRemaining, FALLBACK_DURATION } from '../src/shared/eta';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { Song } from '../src/renderer/types';
+
+const song = (videoId: string, duration: number): Song => ({
+  videoId,
+  title: `Song ${videoId}`,
+  channel: '',
+  thumbnail: '',
+  duration,
+});
+
+describe('estimateQueue', () => {
+  it('starts each song when the ones before it have played', () => {
+    const eta = estimateQueue(song('a', 200), [song('b', 180), song('c', 300)], 50);
+    expect(eta).toEqual({ startsIn: [150, 330], remaining: 630, unknownDurations: 0 });
+  });
+
+  it('counts unknown durations at the fallback length', () => {
+    const eta = estimateQueue(song('a', 0), [song('b', 0), song('c', 100)]);
+    expect(eta.startsIn).toEqual([FALLBACK_DURATION, 2 * FALLBACK_DURATION]);
+    expect(eta.unknownDurations).toBe(2);
+  });
+
+  it('starts right away with nothing playing', () => {
+    expect(estimateQueue(null, [song('b', 180)]).startsIn).toEqual([0]);
+    expect(estimateQueue(song('a', 100), [], 250).remaining).toBe(0);
+  });
+
+  it('formats the remaining time', () => {
+    expect(formatRemaining(20)).toBe('<1 min');
+    expect(formatRemaining(12 * 60)).toBe('12 min');
+    expect(formatRemaining(65 * 60)).toBe('1 h 05 min');
+  });
+});
+
+describe('QueueStore setDuration', () => {
+  beforeEach(() => {
+    useQueueStore.getState().clearQueue();
+  });
+
+  it('fills in every entry of the video that has no duration', () => {
+    const { addSong, setDuration } = useQueueStore.getState();
+    addSong(song('a', 0));
+    addSong(song('b', 0));
+    addSong(song('a', 0));
+    setDuration('a', 215);
+
+    const { currentSong, upcomingSongs } = useQueueStore.getState();
+    expect(currentSong?.duration).toBe(215);
+    expect(upcomingSongs.map((s) => s.duration)).toEqual([0, 215]);
+  });
+
+  it('keeps durations that are already known', () => {
+    const { addSong, setDuration } = useQueueStore.getState();
+    addSong(song('a', 180));
+    setDuration('a', 215);
+    expect(useQueueStore.getState().currentSong?.duration).toBe(180);
+  });
+});
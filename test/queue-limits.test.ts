@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { checkLimits, DEFAULT_QUEUE_LIMITS } from '../src/renderer/store/limits';
+import { DEFAULT_DUPLICATE_POLICY } from '../src/renderer/store/duplicates';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { QueueLimits, Singer, Song } from '../src/renderer/types';
+
+const alice: Singer = { id: 's1', name: 'Alice', color: '#ff0000', avatar: 'A' };
+const bob: Singer = { id: 's2', name: 'Bob', color: '#0000ff', avatar: 'B' };
+
+const song = (videoId: string, singer?: Singer, duration = 200): Song => ({
+  videoId,
+  title: `Song ${videoId}`,
+  channel: '',
+  thumbnail: '',
+  duration,
+  singer,
+});
+
+const limits = (extra: Partial<QueueLimits>): QueueLimits => ({ ...DEFAULT_QUEUE_LIMITS, ...extra });
+
+const NOW = new Date(2026, 9, 19, 21, 0).getTime();
+
+describe('checkLimits', () => {
+  it('allows everything by default', () => {
+    expect(checkLimits(song('a', alice, 9999), [song('b', alice)], NOW, DEFAULT_QUEUE_LIMITS, NOW)).toBeUndefined();
+  });
+
+  it('rejects songs over the length limit, unless the length is unknown', () => {
+    expect(checkLimits(song('a', undefined, 301), [], undefined, limits({ maxDuration: 300 }), NOW)).toEqual({
+      reason: 'song-too-long',
+      message: '"Song a" is longer than the 5 min limit',
+    });
+    expect(checkLimits(song('a', undefined, 0), [], undefined, limits({ maxDuration: 300 }), NOW)).toBeUndefined();
+  });
+
+  it('counts only the singer\'s own upcoming songs', () => {
+    const upcoming = [song('b', alice), song('c', bob), song('d', alice)];
+    expect(checkLimits(song('a', alice), upcoming, undefined, limits({ maxSongsPerSinger: 2 }), NOW)).toEqual({
+      reason: 'singer-queue-full',
+      message: 'Alice already has 2 songs queued (limit 2)',
+    });
+    expect(checkLimits(song('a', bob), upcoming, undefined, limits({ maxSongsPerSinger: 2 }), NOW)).toBeUndefined();
+    expect(checkLimits(song('a'), upcoming, undefined, limits({ maxSongsPerSinger: 1 }), NOW)).toBeUndefined();
+  });
+
+  it('enforces the cooldown since the singer\'s last add', () => {
+    const cooldown = limits({ cooldownMinutes: 10 });
+    expect(checkLimits(song('a', alice), [], NOW - 4 * 60_000, cooldown, NOW)).toEqual({
+      reason: 'singer-cooldown',
+      message: 'Alice can add another song in 6 min',
+    });
+    expect(checkLimits(song('a', alice), [], NOW - 10 * 60_000, cooldown, NOW)).toBeUndefined();
+    expect(checkLimits(song('a', alice), [], undefined, cooldown, NOW)).toBeUndefined();
+  });
+});
+
+describe('QueueStore request limits', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    useQueueStore.getState().clearQueue();
+    useQueueStore.setState({ duplicatePolicy: DEFAULT_DUPLICATE_POLICY, queueLimits: DEFAULT_QUEUE_LIMITS, lastAddBySinger: {} });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const videoIds = () => useQueueStore.getState().upcomingSongs.map((s) => s.videoId);
+
+  it('rejects adds over the per-singer limit with the reason', () => {
+    const { addSong, insertNext, setQueueLimits } = useQueueStore.getState();
+    setQueueLimits(limits({ maxSongsPerSinger: 1 }));
+    addSong(song('playing', bob));
+    addSong(song('a', alice));
+    const undoSteps = useQueueStore.getState().undoStack.length;
+
+    expect(addSong(song('b', alice))).toMatchObject({ rejected: true, limit: { reason: 'singer-queue-full' } });
+    expect(insertNext(song('c', alice)).limit?.reason).toBe('singer-queue-full');
+    expect(addSong(song('d', bob))).toEqual({ rejected: false });
+    expect(videoIds()).toEqual(['a', 'd']);
+    expect(useQueueStore.getState().undoStack).toHaveLength(undoSteps + 1);
+  });
+
+  it('starts the cooldown when a singer adds a song', () => {
+    const { addSong, playNow, setQueueLimits } = useQueueStore.getState();
+    setQueueLimits(limits({ cooldownMinutes: 5 }));
+    addSong(song('a', alice));
+
+    expect(playNow(song('b', alice)).limit?.reason).toBe('singer-cooldown');
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(addSong(song('c', alice)).rejected).toBe(false);
+  });
+
+  it('checks limits before the duplicate policy', () => {
+    const { addSong, setQueueLimits, setDuplicatePolicy } = useQueueStore.getState();
+    setDuplicatePolicy({ ...DEFAULT_DUPLICATE_POLICY, mode: 'reject' });
+    setQueueLimits(limits({ maxDuration: 100 }));
+    addSong(song('a', undefined, 50));
+
+    expect(useQueueStore.getState().checkAdd(song('a', undefined, 150))).toMatchObject({ limit: { reason: 'song-too-long' } });
+    expect(useQueueStore.getState().checkAdd(song('a', undefined, 50))).toMatchObject({ duplicate: { reason: 'playing' } });
+  });
+});
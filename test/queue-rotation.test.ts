@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fairOrder } from '../src/renderer/store/rotation';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { Song, Singer } from '../src/renderer/types';
+
+const singer = (id: string): Singer => ({ id, name: id, color: '#000000', avatar: id[0] });
+
+// Song `A1` is sung by singer `A`
+const song = (label: string, extra: Partial<Song> = {}): Song => ({
+  videoId: label,
+  title: label,
+  channel: '',
+  thumbnail: '',
+  duration: 0,
+  singer: singer(label[0]),
+  ...extra,
+});
+
+const labels = (songs: Song[]) => songs.map((s) => s.title);
+
+describe('fairOrder', () => {
+  it('interleaves singers one song per round, keeping each singer\'s order', () => {
+    const order = fairOrder(['A1', 'A2', 'A3', 'B1', 'C1', 'B2'].map((l) => song(l)), null);
+    expect(labels(order)).toEqual(['A1', 'B1', 'C1', 'A2', 'B2', 'A3']);
+  });
+
+  it('sends the singer who is singing now to the back of the round', () => {
+    const order = fairOrder(['A2', 'A3', 'B1'].map((l) => song(l)), song('A1'));
+    expect(labels(order)).toEqual(['B1', 'A2', 'A3']);
+  });
+
+  it('fits a new singer into the next round', () => {
+    const order = fairOrder(['B1', 'A2', 'B2', 'A3', 'C1'].map((l) => song(l)), song('A1'));
+    expect(labels(order)).toEqual(['B1', 'C1', 'A2', 'B2', 'A3']);
+  });
+
+  it('treats songs without a singer as one more singer', () => {
+    const anon = (label: string) => song(label, { singer: undefined });
+    const order = fairOrder([song('A1'), song('A2'), anon('x1'), anon('x2')], null);
+    expect(labels(order)).toEqual(['A1', 'x1', 'A2', 'x2']);
+  });
+
+  it('keeps pinned entries at their index and rotates around them', () => {
+    const order = fairOrder(
+      [song('A1'), song('A2'), song('A3', { pinned: true }), song('B1'), song('B2')],
+      null
+    );
+    expect(labels(order)).toEqual(['A1', 'B1', 'A3', 'A2', 'B2']);
+  });
+});
+
+describe('QueueStore fair rotation', () => {
+  beforeEach(() => {
+    useQueueStore.getState().setRotationMode(false);
+    useQueueStore.getState().clearQueue();
+  });
+
+  const upcoming = () => labels(useQueueStore.getState().upcomingSongs);
+
+  it('leaves the queue in insertion order when off', () => {
+    const { addSong } = useQueueStore.getState();
+    ['A1', 'A2', 'A3', 'B1'].forEach((l) => addSong(song(l)));
+    expect(upcoming()).toEqual(['A2', 'A3', 'B1']);
+  });
+
+  it('rebalances as songs are added, and when switched on', () => {
+    const { addSong, setRotationMode } = useQueueStore.getState();
+    ['A1', 'A2', 'A3', 'B1'].forEach((l) => addSong(song(l)));
+
+    setRotationMode(true);
+    expect(upcoming()).toEqual(['B1', 'A2', 'A3']);
+
+    addSong(song('C1'));
+    expect(upcoming()).toEqual(['B1', 'C1', 'A2', 'A3']);
+
+    useQueueStore.getState().nextSong();
+    expect(useQueueStore.getState().currentSong?.title).toBe('B1');
+    expect(upcoming()).toEqual(['C1', 'A2', 'A3']);
+  });
+
+  it('pins manual reorders and drops the pins when switched off', () => {
+    const { addSong, setRotationMode } = useQueueStore.getState();
+    setRotationMode(true);
+    ['A1', 'A2', 'A3', 'B1', 'B2'].forEach((l) => addSong(song(l)));
+    expect(upcoming()).toEqual(['B1', 'A2', 'B2', 'A3']);
+
+    useQueueStore.getState().reorderQueue(3, 0);
+    expect(upcoming()).toEqual(['A3', 'B1', 'A2', 'B2']);
+    expect(useQueueStore.getState().upcomingSongs[0].pinned).toBe(true);
+
+    addSong(song('C1'));
+    expect(upcoming()).toEqual(['A3', 'B1', 'C1', 'A2', 'B2']);
+
+    useQueueStore.getState().setRotationMode(false);
+    expect(useQueueStore.getState().upcomingSongs.some((s) => s.pinned)).toBe(false);
+  });
+
+  it('pins play-next entries and lets them go on unpin', () => {
+    const { addSong, insertNext, setRotationMode } = useQueueStore.getState();
+    setRotationMode(true);
+    ['A1', 'B1', 'A2'].forEach((l) => addSong(song(l)));
+    insertNext(song('A3'));
+    expect(upcoming()).toEqual(['A3', 'B1', 'A2']);
+
+    const pinned = useQueueStore.getState().upcomingSongs[0];
+    useQueueStore.getState().unpinEntry(pinned.entryId!);
+    expect(upcoming()).toEqual(['B1', 'A3', 'A2']);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { useQueueStore } from '../src/renderer/store/queueStore';
+import { useQueueStore, POSITION_CHECKPOINT_SECONDS } from '../src/renderer/store/queueStore';
 import { Song, PlaybackState } from '../src/renderer/types';
 
 describe('QueueStore', () => {
@@ -24,6 +24,9 @@ describe('QueueStore', () => {
     duration: 240,
   };
 
+  // Songs come out of the queue stamped with an entry ID
+  const queued = (song: Song) => ({ ...song, entryId: expect.any(String) });
+
   describe('initial state', () => {
     it('should have correct initial state', () => {
       const state = useQueueStore.getState();
@@ -41,7 +44,7 @@ describe('QueueStore', () => {
       addSong(mockSong);
 
       const state = useQueueStore.getState();
-      expect(state.currentSong).toEqual(mockSong);
+      expect(state.currentSong).toEqual(queued(mockSong));
       expect(state.upcomingSongs).toHaveLength(0);
       expect(state.playbackState).toBe(PlaybackState.LOADING);
     });
@@ -53,9 +56,9 @@ describe('QueueStore', () => {
       addSong(mockSong2);
 
       const state = useQueueStore.getState();
-      expect(state.currentSong).toEqual(mockSong);
+      expect(state.currentSong).toEqual(queued(mockSong));
       expect(state.upcomingSongs).toHaveLength(1);
-      expect(state.upcomingSongs[0]).toEqual(mockSong2);
+      expect(state.upcomingSongs[0]).toEqual(queued(mockSong2));
     });
   });
 
@@ -71,7 +74,7 @@ describe('QueueStore', () => {
 
       const state = useQueueStore.getState();
       expect(state.upcomingSongs).toHaveLength(1);
-      expect(state.upcomingSongs[0]).toEqual(song3);
+      expect(state.upcomingSongs[0]).toEqual(queued(song3));
     });
   });
 
@@ -98,7 +101,7 @@ describe('QueueStore', () => {
       nextSong();
 
       const state = useQueueStore.getState();
-      expect(state.currentSong).toEqual(mockSong2);
+      expect(state.currentSong).toEqual(queued(mockSong2));
       expect(state.upcomingSongs).toHaveLength(0);
       expect(state.playbackState).toBe(PlaybackState.LOADING);
     });
@@ -139,8 +142,8 @@ describe('QueueStore', () => {
       reorderQueue(0, 2); // Move upcoming[0] to upcoming[2]
 
       const state = useQueueStore.getState();
-      expect(state.upcomingSongs[0]).toEqual(song3);
-      expect(state.upcomingSongs[2]).toEqual(mockSong2);
+      expect(state.upcomingSongs[0]).toEqual(queued(song3));
+      expect(state.upcomingSongs[2]).toEqual(queued(mockSong2));
     });
   });
 
@@ -172,4 +175,199 @@ describe('QueueStore', () => {
       expect(state.upcomingSongs).toEqual([]);
     });
   });
+
+  describe('entry IDs', () => {
+    it('should give every queued occurrence its own entry ID', () => {
+      const { addSong } = useQueueStore.getState();
+
+      addSong(mockSong);
+      addSong(mockSong2);
+      addSong(mockSong2);
+
+      const { currentSong, upcomingSongs } = useQueueStore.getState();
+      const ids = [currentSong!.entryId, ...upcomingSongs.map((s) => s.entryId)];
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it('should restamp songs that already carry an entry ID', () => {
+      const { addSong } = useQueueStore.getState();
+
+      addSong(mockSong);
+      addSong({ ...mockSong2, entryId: 'from-playlist' });
+      addSong({ ...mockSong2, entryId: 'from-playlist' });
+
+      const { upcomingSongs } = useQueueStore.getState();
+      expect(upcomingSongs[0].entryId).not.toBe('from-playlist');
+      expect(upcomingSongs[0].entryId).not.toBe(upcomingSongs[1].entryId);
+    });
+  });
+
+  describe('insertNext', () => {
+    it('should put the song directly after the current one', () => {
+      const { addSong, insertNext } = useQueueStore.getState();
+      const song3 = { ...mockSong, videoId: 'test789', title: 'Song 3' };
+
+      addSong(mockSong);
+      addSong(mockSong2);
+      insertNext(song3);
+
+      const state = useQueueStore.getState();
+      expect(state.currentSong).toEqual(queued(mockSong));
+      expect(state.upcomingSongs.map((s) => s.videoId)).toEqual(['test789', 'test456']);
+    });
+
+    it('should start playing when nothing is current', () => {
+      useQueueStore.getState().insertNext(mockSong);
+
+      const state = useQueueStore.getState();
+      expect(state.currentSong).toEqual(queued(mockSong));
+      expect(state.playbackState).toBe(PlaybackState.LOADING);
+    });
+  });
+
+  describe('playNow', () => {
+    const song3 = { ...mockSong, videoId: 'test789', title: 'Song 3' };
+
+    it('should interrupt the current song with a new one', () => {
+      const { addSong, playNow } = useQueueStore.getState();
+      addSong(mockSong);
+      addSong(mockSong2);
+      useQueueStore.getState().setPlaybackState(PlaybackState.PLAYING);
+      playNow(song3);
+
+      const state = useQueueStore.getState();
+      expect(state.currentSong).toEqual(queued(song3));
+      expect(state.upcomingSongs.map((s) => s.videoId)).toEqual(['test456']);
+      expect(state.playbackState).toBe(PlaybackState.LOADING);
+    });
+
+    it('should take an upcoming entry out of the queue', () => {
+      const { addSong, playNow } = useQueueStore.getState();
+      addSong(mockSong);
+      addSong(mockSong2);
+      addSong(song3);
+      const entry = useQueueStore.getState().upcomingSongs[1];
+      playNow(entry);
+
+      const state = useQueueStore.getState();
+      expect(state.currentSong).toEqual(entry);
+      expect(state.upcomingSongs.map((s) => s.videoId)).toEqual(['test456']);
+    });
+  });
+
+  describe('playback position', () => {
+    it('should checkpoint the position in the current entry', () => {
+      const { addSong, setPlaybackPosition } = useQueueStore.getState();
+      addSong(mockSong);
+      setPlaybackPosition(151.4);
+
+      const { currentSong, playbackPosition } = useQueueStore.getState();
+      expect(playbackPosition).toEqual({ entry: currentSong!.entryId, time: 151.4 });
+    });
+
+    it('should only move the checkpoint by POSITION_CHECKPOINT_SECONDS or more', () => {
+      const { addSong, setPlaybackPosition } = useQueueStore.getState();
+      addSong(mockSong);
+      setPlaybackPosition(10);
+      setPlaybackPosition(10 + POSITION_CHECKPOINT_SECONDS - 1);
+      expect(useQueueStore.getState().playbackPosition?.time).toBe(10);
+
+      setPlaybackPosition(10 + POSITION_CHECKPOINT_SECONDS);
+      expect(useQueueStore.getState().playbackPosition?.time).toBe(10 + POSITION_CHECKPOINT_SECONDS);
+    });
+
+    it('should start a new checkpoint for the next song', () => {
+      const { addSong, setPlaybackPosition, nextSong } = useQueueStore.getState();
+      addSong(mockSong);
+      addSong(mockSong2);
+      setPlaybackPosition(100);
+      nextSong();
+      setPlaybackPosition(2);
+
+      const { currentSong, playbackPosition } = useQueueStore.getState();
+      expect(playbackPosition).toEqual({ entry: currentSong!.entryId, time: 2 });
+    });
+
+    it('should be persisted with the queue', () => {
+      const { addSong, setPlaybackPosition } = useQueueStore.getState();
+      addSong(mockSong);
+      setPlaybackPosition(42);
+
+      const persisted = JSON.parse(localStorage.getItem('ktv-queue')!);
+      expect(persisted.state.playbackPosition.time).toBe(42);
+    });
+  });
+
+  describe('removeEntry / moveEntry', () => {
+    const song3 = { ...mockSong, videoId: 'test789', title: 'Song 3' };
+
+    beforeEach(() => {
+      const { addSong } = useQueueStore.getState();
+      addSong(mockSong);
+      addSong(mockSong2);
+      addSong(song3);
+    });
+
+    it('should remove an entry by ID', () => {
+      const [first] = useQueueStore.getState().upcomingSongs;
+      useQueueStore.getState().removeEntry(first.entryId!);
+
+      expect(useQueueStore.getState().upcomingSongs.map((s) => s.videoId)).toEqual(['test789']);
+    });
+
+    it('should ignore unknown entry IDs', () => {
+      useQueueStore.getState().removeEntry('missing');
+      useQueueStore.getState().moveEntry('missing', 0);
+
+      expect(useQueueStore.getState().upcomingSongs).toHaveLength(2);
+    });
+
+    it('should move an entry to a clamped index', () => {
+      const last = useQueueStore.getState().upcomingSongs[1];
+      useQueueStore.getState().moveEntry(last.entryId!, -5);
+
+      expect(useQueueStore.getState().upcomingSongs.map((s) => s.videoId)).toEqual(['test789', 'test456']);
+    });
+  });
+
+  describe('singers', () => {
+    const alice = { id: 's1', name: 'Alice', color: '#ef4444', avatar: 'A' };
+
+    it('should keep the singer on queued entries', () => {
+      const { addSong } = useQueueStore.getState();
+      addSong({ ...mockSong, singer: alice });
+      addSong(mockSong2);
+
+      const state = useQueueStore.getState();
+      expect(state.currentSong?.singer).toEqual(alice);
+      expect(state.upcomingSongs[0].singer).toBeUndefined();
+    });
+
+    it('should assign and clear the singer of one entry', () => {
+      const { addSong } = useQueueStore.getState();
+      addSong(mockSong);
+      addSong(mockSong2);
+      addSong(mockSong2);
+      const [first, second] = useQueueStore.getState().upcomingSongs;
+
+      useQueueStore.getState().setEntrySinger(first.entryId!, alice);
+      expect(useQueueStore.getState().upcomingSongs.map((s) => s.singer?.name)).toEqual(['Alice', undefined]);
+
+      useQueueStore.getState().setEntrySinger(first.entryId!, null);
+      expect(useQueueStore.getState().upcomingSongs[0].singer).toBeUndefined();
+      expect(useQueueStore.getState().upcomingSongs[1].entryId).toBe(second.entryId);
+    });
+
+    it('should refresh edited singer profiles on every entry', () => {
+      const { addSong } = useQueueStore.getState();
+      addSong({ ...mockSong, singer: alice });
+      addSong({ ...mockSong2, singer: alice });
+
+      useQueueStore.getState().syncSinger({ ...alice, name: 'Alicia' });
+
+      const state = useQueueStore.getState();
+      expect(state.currentSong?.singer?.name).toBe('Alicia');
+      expect(state.upcomingSongs[0].singer?.name).toBe('Alicia');
+    });
+  });
 });
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useQueueStore, MAX_UNDO } from '../src/renderer/store/queueStore';
+import { usePlaylistStore } from '../src/renderer/store/playlistStore';
+import { PlaybackState, Song } from '../src/renderer/types';
+
+const song = (title: string): Song => ({
+  videoId: title,
+  title,
+  channel: '',
+  thumbnail: '',
+  duration: 0,
+});
+
+const titles = () => {
+  const { currentSong, upcomingSongs } = useQueueStore.getState();
+  return [currentSong?.title ?? null, ...upcomingSongs.map((s) => s.title)];
+};
+
+describe('QueueStore undo/redo', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useQueueStore.getState().setRotationMode(false);
+    useQueueStore.getState().clearQueue();
+    useQueueStore.setState({ undoStack: [], redoStack: [] });
+    ['a', 'b', 'c'].forEach((t) => useQueueStore.getState().addSong(song(t)));
+  });
+
+  it('undoes and redoes a removal, returning what it was', () => {
+    const { removeSong, undo, redo } = useQueueStore.getState();
+    removeSong(0);
+    expect(titles()).toEqual(['a', 'c']);
+
+    expect(undo()).toBe('Removed b');
+    expect(titles()).toEqual(['a', 'b', 'c']);
+
+    expect(redo()).toBe('Removed b');
+    expect(titles()).toEqual(['a', 'c']);
+  });
+
+  it('brings back a cleared queue with the same entries', () => {
+    const before = useQueueStore.getState().upcomingSongs;
+    useQueueStore.getState().clearQueue();
+    expect(useQueueStore.getState().playbackState).toBe(PlaybackState.IDLE);
+
+    useQueueStore.getState().undo();
+    expect(titles()).toEqual(['a', 'b', 'c']);
+    expect(useQueueStore.getState().upcomingSongs).toEqual(before);
+    expect(useQueueStore.getState().playbackState).toBe(PlaybackState.LOADING);
+  });
+
+  it('undoes moves and shuffles', () => {
+    const { reorderQueue, shuffleQueue, undo } = useQueueStore.getState();
+    reorderQueue(1, 0);
+    shuffleQueue();
+    expect(undo()).toBe('Shuffled the queue');
+    expect(titles()).toEqual(['a', 'c', 'b']);
+    expect(undo()).toBe('Moved c');
+    expect(titles()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('returns null with nothing to undo or redo', () => {
+    const { undo, redo } = useQueueStore.getState();
+    expect(redo()).toBeNull();
+    ['c', 'b', 'a'].forEach(() => undo());
+    expect(titles()).toEqual([null]);
+    expect(undo()).toBeNull();
+  });
+
+  it('drops the redo steps on a new edit', () => {
+    const { removeSong, undo, addSong, redo } = useQueueStore.getState();
+    removeSong(0);
+    undo();
+    addSong(song('d'));
+    expect(redo()).toBeNull();
+  });
+
+  it('keeps at most MAX_UNDO steps', () => {
+    for (let i = 0; i < MAX_UNDO + 10; i++) useQueueStore.getState().addSong(song(`x${i}`));
+    expect(useQueueStore.getState().undoStack).toHaveLength(MAX_UNDO);
+    expect(useQueueStore.getState().undoStack[MAX_UNDO - 1].label).toBe(`Added x${MAX_UNDO + 9}`);
+  });
+
+  it('undoes a playlist load as one step', () => {
+    const { createPlaylist, loadPlaylistToQueue } = usePlaylistStore.getState();
+    const playlist = createPlaylist('Friday', [song('p1'), song('p2')]);
+    loadPlaylistToQueue(playlist.id, true);
+    expect(titles()).toEqual(['p1', 'p2']);
+
+    expect(useQueueStore.getState().undo()).toBe('Loaded Friday');
+    expect(titles()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('cannot undo past a song change', () => {
+    useQueueStore.getState().nextSong();
+    expect(useQueueStore.getState().undo()).toBeNull();
+    expect(titles()).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { extendRoom, formatCountdown, roomStatus } from '../src/shared/roomTimer';
+import { useRoomStore } from '../src/renderer/store/roomStore';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { usePlaylistStore } from '../src/renderer/store/playlistStore';
+import { DEFAULT_AUTO_FILL } from '../src/renderer/store/autoFill';
+import { DEFAULT_QUEUE_LIMITS } from '../src/renderer/store/limits';
+import { DEFAULT_DUPLICATE_POLICY } from '../src/renderer/store/duplicates';
+import { RoomTimer, Song } from '../src/renderer/types';
+
+const NOW = new Date(2026, 9, 19, 21, 0).getTime();
+const MINUTE = 60_000;
+
+const timer = (endsInMinutes: number, warnMinutes = 10): RoomTimer => ({
+  startedAt: NOW - 60 * MINUTE,
+  endsAt: NOW + endsInMinutes * MINUTE,
+  warnMinutes,
+});
+
+const song = (videoId: string): Song => ({
+  videoId,
+  title: `Song ${videoId}`,
+  channel: '',
+  thumbnail: '',
+  duration: 200,
+});
+
+describe('roomStatus', () => {
+  it('counts down and announces the last song at the threshold', () => {
+    expect(roomStatus(timer(30), NOW)).toMatchObject({ remaining: 1800, phase: 'running' });
+    expect(roomStatus(timer(10), NOW)).toMatchObject({ remaining: 600, phase: 'last-song' });
+    expect(roomStatus(timer(10, 0), NOW).phase).toBe('running');
+  });
+
+  it('expires at the end of the slot', () => {
+    expect(roomStatus(timer(0), NOW)).toMatchObject({ remaining: 0, phase: 'expired' });
+    expect(roomStatus(timer(-5), NOW)).toMatchObject({ remaining: 0, phase: 'expired' });
+  });
+});
+
+describe('extendRoom', () => {
+  it('adds time to the end of the slot', () => {
+    expect(extendRoom(timer(5), 30, NOW).endsAt).toBe(NOW + 35 * MINUTE);
+  });
+
+  it('adds time from now once the slot has run out', () => {
+    expect(extendRoom(timer(-20), 30, NOW).endsAt).toBe(NOW + 30 * MINUTE);
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows minutes and seconds, with hours when needed', () => {
+    expect(formatCountdown(0)).toBe('0:00');
+    expect(formatCountdown(309.2)).toBe('5:10');
+    expect(formatCountdown(3909)).toBe('1:05:09');
+  });
+});
+
+describe('RoomStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    useRoomStore.setState({ timer: null, warnMinutes: 10 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts, extends and stops the timer', () => {
+    const { startTimer, extendTimer, stopTimer } = useRoomStore.getState();
+    expect(extendTimer(30)).toBeNull();
+
+    expect(startTimer(120)).toEqual({ startedAt: NOW, endsAt: NOW + 120 * MINUTE, warnMinutes: 10 });
+    expect(extendTimer(30)?.endsAt).toBe(NOW + 150 * MINUTE);
+    expect(useRoomStore.getState().timer?.endsAt).toBe(NOW + 150 * MINUTE);
+
+    stopTimer();
+    expect(useRoomStore.getState().timer).toBeNull();
+  });
+
+  it('applies a new threshold to the running timer and the next one', () => {
+    const { startTimer, setWarnMinutes } = useRoomStore.getState();
+    startTimer(60);
+    setWarnMinutes(5);
+    expect(useRoomStore.getState().timer?.warnMinutes).toBe(5);
+    expect(useRoomStore.getState().startTimer(60).warnMinutes).toBe(5);
+  });
+});
+
+describe('QueueStore with a room timer', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    useQueueStore.getState().clearQueue();
+    useQueueStore.setState({
+      duplicatePolicy: DEFAULT_DUPLICATE_POLICY,
+      queueLimits: DEFAULT_QUEUE_LIMITS,
+      lastAddBySinger: {},
+      autoFill: DEFAULT_AUTO_FILL,
+    });
+    useRoomStore.setState({ timer: null, warnMinutes: 10 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('takes songs until the time is up', () => {
+    const { addSong, insertNext, playNow } = useQueueStore.getState();
+    useRoomStore.setState({ timer: timer(5) });
+    expect(addSong(song('a')).rejected).toBe(false);
+
+    vi.setSystemTime(NOW + 5 * MINUTE);
+    const expired = { rejected: true, limit: { reason: 'room-time-up', message: 'Room time is up; extend it to add more songs' } };
+    expect(addSong(song('b'))).toEqual(expired);
+    expect(insertNext(song('c'))).toEqual(expired);
+    expect(playNow(song('d'))).toEqual(expired);
+    expect(useQueueStore.getState().currentSong?.videoId).toBe('a');
+    expect(useQueueStore.getState().upcomingSongs).toEqual([]);
+
+    useRoomStore.getState().extendTimer(15);
+    expect(addSong(song('b')).rejected).toBe(false);
+  });
+
+  it('stops auto-filling once the time is up', () => {
+    usePlaylistStore.setState({ playlists: [{ id: 'p1', name: 'p1', songs: [song('filler')], createdAt: 0 }] });
+    useQueueStore.getState().setAutoFill({ enabled: true, source: 'playlist', playlistId: 'p1' });
+    useRoomStore.setState({ timer: timer(-1) });
+    useQueueStore.getState().nextSong();
+    expect(useQueueStore.getState().currentSong).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useSessionStore, sessionEntries, summarizeSession } from '../src/renderer/store/sessionStore';
+import { useHistoryStore } from '../src/renderer/store/historyStore';
+import { summaryToHtml, reportFilename } from '../src/renderer/services/sessionReport';
+import { Singer, Song } from '../src/renderer/types';
+
+describe('SessionStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 20, 0));
+    useSessionStore.setState({ sessions: [] });
+    useHistoryStore.setState({ entries: [] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const alice: Singer = { id: 's1', name: 'Alice', color: '#ff0000', avatar: 'A' };
+  const bob: Singer = { id: 's2', name: 'Bob', color: '#0000ff', avatar: 'B' };
+
+  const entry = (videoId: string, entryId: string, singer?: Singer): Song => ({
+    videoId,
+    title: `Song ${videoId}`,
+    channel: 'Test Channel',
+    thumbnail: 'https://example.com/thumb.jpg',
+    duration: 180,
+    entryId,
+    singer,
+  });
+
+  // Play `song` for `minutes`, then end it
+  const sing = (song: Song, minutes: number, reason: 'completed' | 'skipped' = 'completed') => {
+    useHistoryStore.getState().recordStart(song);
+    vi.advanceTimersByTime(minutes * 60_000);
+    useHistoryStore.getState().recordEnd(reason);
+  };
+
+  describe('startSession / endSession', () => {
+    it('should start, end and report the running session', () => {
+      const { startSession, endSession } = useSessionStore.getState();
+      const session = startSession(' Friday ');
+
+      expect(session).toEqual({ id: expect.any(String), name: 'Friday', startedAt: Date.now(), endedAt: null });
+      expect(useSessionStore.getState().getActiveSession()).toEqual(session);
+
+      vi.advanceTimersByTime(60_000);
+      const ended = endSession();
+
+      expect(ended?.endedAt).toBe(session.startedAt + 60_000);
+      expect(useSessionStore.getState().getActiveSession()).toBeNull();
+      expect(useSessionStore.getState().endSession()).toBeNull();
+    });
+
+    it('should end the running session when another starts', () => {
+      const { startSession } = useSessionStore.getState();
+      startSession('First');
+      vi.advanceTimersByTime(60_000);
+      startSession('Second');
+
+      const sessions = useSessionStore.getState().sessions;
+      expect(sessions.map((s) => [s.name, s.endedAt])).toEqual([['First', Date.now()], ['Second', null]]);
+    });
+
+    it('should name an unnamed session after its date', () => {
+      const session = useSessionStore.getState().startSession('');
+      expect(session.name).toBe(new Date(2026, 9, 19).toLocaleDateString());
+    });
+  });
+
+  describe('sessionEntries', () => {
+    it('should keep only songs started during the session', () => {
+      sing(entry('before', 'e1'), 5);
+      const session = useSessionStore.getState().startSession('Party');
+      sing(entry('during', 'e2'), 5);
+      useSessionStore.getState().endSession();
+      sing(entry('after', 'e3'), 5);
+
+      const ended = useSessionStore.getState().sessions[0];
+      expect(sessionEntries(useHistoryStore.getState().entries, ended).map((e) => e.song.videoId)).toEqual(['during']);
+      expect(session.endedAt).toBeNull();
+    });
+  });
+
+  describe('summarizeSession', () => {
+    it('should count songs, singers, time and skips', () => {
+      const session = useSessionStore.getState().startSession('Party');
+      sing(entry('a', 'e1', alice), 4);
+      sing(entry('b', 'e2', bob), 1, 'skipped');
+      sing(entry('c', 'e3', alice), 3);
+      sing(entry('b', 'e4', alice), 1, 'skipped');
+      sing(entry('d', 'e5'), 2);
+      vi.advanceTimersByTime(60_000);
+      const ended = useSessionStore.getState().endSession()!;
+
+      expect(summarizeSession(ended, useHistoryStore.getState().entries)).toEqual({
+        session: ended,
+        songsSung: 3,
+        songsSkipped: 2,
+        duration: 12 * 60,
+        singingTime: 11 * 60,
+        singers: [{ singer: alice, songs: 2 }, { singer: null, songs: 1 }],
+        mostSkipped: [{ videoId: 'b', title: 'Song b', skips: 2 }],
+      });
+      expect(session.name).toBe('Party');
+    });
+
+    it('should count a running session and song up to now', () => {
+      const session = useSessionStore.getState().startSession('Party');
+      useHistoryStore.getState().recordStart(entry('a', 'e1', alice));
+      vi.advanceTimersByTime(2 * 60_000);
+
+      const summary = summarizeSession(session, useHistoryStore.getState().entries);
+      expect(summary.duration).toBe(120);
+      expect(summary.singingTime).toBe(120);
+      expect(summary.songsSung).toBe(0);
+    });
+  });
+
+  describe('report', () => {
+    it('should escape names in the HTML export', () => {
+      const session = useSessionStore.getState().startSession('<b>Fri & Sat</b>');
+      sing(entry('a', 'e1', { ...alice, name: '<script>' }), 3);
+      const summary = summarizeSession(useSessionStore.getState().endSession()!, useHistoryStore.getState().entries);
+      const html = summaryToHtml(summary);
+
+      expect(html).toContain('&lt;b&gt;Fri &amp; Sat&lt;/b&gt;');
+      expect(html).toContain('&lt;script&gt;');
+      expect(html).not.toContain('<script>');
+      expect(reportFilename(summary, 'json')).toBe('b-fri-sat-b-2026-10-19.json');
+      expect(session.endedAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSingerStore, SINGER_COLORS } from '../src/renderer/store/singerStore';
+import { useQueueStore } from '../src/renderer/store/queueStore';
+import { Song } from '../src/renderer/types';
+
+describe('SingerStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useSingerStore.setState({ singers: [], activeSingerId: null });
+    useQueueStore.getState().clearQueue();
+  });
+
+  const mockSong: Song = {
+    videoId: 'test123',
+    title: 'Test Song',
+    channel: 'Test Channel',
+    thumbnail: 'https://example.com/thumb.jpg',
+    duration: 180,
+  };
+
+  describe('addSinger', () => {
+    it('should create a profile with the next colour and an initial as avatar', () => {
+      const { addSinger } = useSingerStore.getState();
+      const alice = addSinger('  alice ');
+      const bob = addSinger('Bob', '🎸');
+
+      expect(alice).toEqual({ id: expect.any(String), name: 'alice', color: SINGER_COLORS[0], avatar: 'A' });
+      expect(bob.color).toBe(SINGER_COLORS[1]);
+      expect(bob.avatar).toBe('🎸');
+      expect(useSingerStore.getState().singers).toHaveLength(2);
+    });
+  });
+
+  describe('findOrCreateSinger', () => {
+    it('should match existing names case-insensitively', () => {
+      const { addSinger, findOrCreateSinger } = useSingerStore.getState();
+      const alice = addSinger('Alice');
+
+      expect(findOrCreateSinger(' ALICE')).toEqual(alice);
+      expect(findOrCreateSinger('Carol').name).toBe('Carol');
+      expect(useSingerStore.getState().singers).toHaveLength(2);
+    });
+  });
+
+  describe('active singer', () => {
+    it('should return the active profile and forget it when removed', () => {
+      const { addSinger, setActiveSinger } = useSingerStore.getState();
+      const alice = addSinger('Alice');
+      setActiveSinger(alice.id);
+      expect(useSingerStore.getState().getActiveSinger()).toEqual(alice);
+
+      useSingerStore.getState().removeSinger(alice.id);
+      expect(useSingerStore.getState().activeSingerId).toBeNull();
+      expect(useSingerStore.getState().getActiveSinger()).toBeNull();
+    });
+  });
+
+  describe('updateSinger', () => {
+    it('should update queued entries sung by that singer', () => {
+      const alice = useSingerStore.getState().addSinger('Alice');
+      useQueueStore.getState().addSong({ ...mockSong, singer: alice });
+
+      useSingerStore.getState().updateSinger(alice.id, { color: '#000000', avatar: '🎤' });
+
+      expect(useSingerStore.getState().singers[0]).toMatchObject({ color: '#000000', avatar: '🎤' });
+      expect(useQueueStore.getState().currentSong?.singer).toMatchObject({ name: 'Alice', color: '#000000' });
+    });
+
+    it('should leave queued entries alone when the singer is removed', () => {
+      const alice = useSingerStore.getState().addSinger('Alice');
+      useQueueStore.getState().addSong({ ...mockSong, singer: alice });
+
+      useSingerStore.getState().removeSinger(alice.id);
+
+      expect(useQueueStore.getState().currentSong?.singer).toEqual(alice);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { createTokenStore, hasScope } from '../electron/main/api/auth'
+import type { ApiToken } from '../src/shared/types'
+
+describe('Skill API token store', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ktv-auth-'))
+    filePath = path.join(dir, 'api-tokens.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('creates an admin host token on first use and persists it', () => {
+    const store = createTokenStore(filePath)
+    const [host] = store.list()
+    expect(host.scopes).toEqual(['admin'])
+    expect(host.host).toBe(true)
+    expect(host.token.length).toBeGreaterThan(20)
+
+    const reloaded = createTokenStore(filePath)
+    expect(reloaded.list()).toEqual([host])
+    expect(reloaded.create('Agent', ['admin']).host).toBeUndefined()
+  })
+
+  it('flags the first-use host token in files from before the host flag', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    const token = (name: string, id: string) => ({ id, name, token: `secret-${id}`, scopes: ['admin'], createdAt: 0 })
+    fs.writeFileSync(filePath, JSON.stringify({ tokens: [token('Agent', 'a'), token('Host', 'h')] }))
+    const store = createTokenStore(filePath)
+    expect(store.list().map(t => t.host)).toEqual([undefined, true])
+  })
+
+  it('authenticates bearer headers', () => {
+    const store = createTokenStore(filePath)
+    const guest = store.create('Guest', ['read'])
+
+    expect(store.authenticate(`Bearer ${guest.token}`)?.id).toBe(guest.id)
+    expect(store.authenticate(`bearer ${guest.token}`)?.id).toBe(guest.id)
+    expect(store.authenticate(guest.token)).toBeNull()
+    expect(store.authenticate('Bearer wrong')).toBeNull()
+    expect(store.authenticate(undefined)).toBeNull()
+  })
+
+  it('invalidates the old secret on rotate', () => {
+    const store = createTokenStore(filePath)
+    const guest = store.create('Guest', ['queue-add'])
+    const rotated = store.rotate(guest.id)!
+
+    expect(rotated.token).not.toBe(guest.token)
+    expect(store.authenticate(`Bearer ${guest.token}`)).toBeNull()
+    expect(store.authenticate(`Bearer ${rotated.token}`)?.id).toBe(guest.id)
+    expect(store.rotate('missing')).toBeNull()
+  })
+
+  it('revokes tokens', () => {
+    const store = createTokenStore(filePath)
+    const guest = store.create('Guest', ['read'])
+    expect(store.revoke(guest.id)).toBe(true)
+    expect(store.authenticate(`Bearer ${guest.token}`)).toBeNull()
+    expect(store.revoke(guest.id)).toBe(false)
+  })
+
+  it('updates scopes in place without changing the secret', () => {
+    const store = createTokenStore(filePath)
+    const guest = store.create('Guest', ['queue-add'])
+    const updated = store.setScopes(guest.id, ['queue-add', 'skip'])!
+
+    expect(updated.token).toBe(guest.token)
+    expect(createTokenStore(filePath).authenticate(`Bearer ${guest.token}`)?.scopes).toEqual(['queue-add', 'skip'])
+  })
+
+  it('ignores unknown scopes', () => {
+    const store = createTokenStore(filePath)
+    const token = store.create('Odd', ['read', 'root' as any])
+    expect(token.scopes).toEqual(['read'])
+  })
+})
+
+describe('hasScope', () => {
+  const token = (scopes: ApiToken['scopes']): ApiToken => ({
+    id: 't', name: 't', token: 'x', scopes, createdAt: 0,
+  })
+
+  it('lets admin do everything', () => {
+    expect(hasScope(token(['admin']), 'read')).toBe(true)
+    expect(hasScope(token(['admin']), 'queue-add')).toBe(true)
+    expect(hasScope(token(['admin']), 'admin')).toBe(true)
+  })
+
+  it('lets queue-add read and add but not administer', () => {
+    expect(hasScope(token(['queue-add']), 'read')).toBe(true)
+    expect(hasScope(token(['queue-add']), 'queue-add')).toBe(true)
+    expect(hasScope(token(['queue-add']), 'admin')).toBe(false)
+  })
+
+  it('lets skip tokens skip without adding songs', () => {
+    expect(hasScope(token(['skip']), 'skip')).toBe(true)
+    expect(hasScope(token(['skip']), 'read')).toBe(true)
+    expect(hasScope(token(['skip']), 'queue-add')).toBe(false)
+    expect(hasScope(token(['admin']), 'skip')).toBe(true)
+    expect(hasScope(token(['queue-add']), 'skip')).toBe(false)
+  })
+
+  it('keeps read-only tokens read-only', () => {
+    expect(hasScope(token(['read']), 'read')).toBe(true)
+    expect(hasScope(token(['read']), 'queue-add')).toBe(false)
+  })
+})
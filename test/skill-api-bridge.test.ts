@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createRendererBridge, RendererTimeoutError } from '../electron/main/api/bridge'
+
+describe('createRendererBridge', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('sends a request ID and resolves with the matching response', async () => {
+    const send = vi.fn(() => true)
+    const bridge = createRendererBridge(send)
+
+    const result = bridge.request('api-playlist', { action: 'list' })
+    expect(send).toHaveBeenCalledWith('api-playlist', expect.any(String), { action: 'list' })
+
+    const requestId = (send.mock.calls[0] as unknown[])[1] as string
+    bridge.respond('someone-else', ['wrong'])
+    bridge.respond(requestId, [{ id: 'p1' }])
+
+    await expect(result).resolves.toEqual([{ id: 'p1' }])
+    expect(bridge.pendingCount).toBe(0)
+  })
+
+  it('rejects when the renderer does not answer in time', async () => {
+    vi.useFakeTimers()
+    const bridge = createRendererBridge(() => true, 1000)
+
+    const result = bridge.request('api-playlist')
+    vi.advanceTimersByTime(1000)
+
+    await expect(result).rejects.toBeInstanceOf(RendererTimeoutError)
+    expect(bridge.pendingCount).toBe(0)
+  })
+
+  it('rejects right away when there is no window to ask', async () => {
+    const bridge = createRendererBridge(() => false)
+    await expect(bridge.request('api-playlist')).rejects.toBeInstanceOf(RendererTimeoutError)
+    expect(bridge.pendingCount).toBe(0)
+  })
+})
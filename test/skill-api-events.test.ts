@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { EventEmitter } from 'node:events'
+import { createEventHub, diffQueueState } from '../electron/main/api/events'
+
+const song = (videoId: string) => ({
+  videoId,
+  title: `Song ${videoId}`,
+  channel: 'Ch',
+  thumbnail: '',
+  duration: 180,
+})
+
+// Minimal stand-in for http.ServerResponse
+function fakeResponse() {
+  const res = new EventEmitter() as any
+  res.writeHead = vi.fn()
+  res.chunks = [] as string[]
+  res.write = vi.fn((chunk: string) => res.chunks.push(chunk))
+  return res
+}
+
+function parseEvents(chunks: string[]) {
+  return chunks
+    .filter(c => c.startsWith('id:'))
+    .map(c => JSON.parse(c.split('\n').find(l => l.startsWith('data: '))!.slice(6)))
+}
+
+describe('diffQueueState', () => {
+  const idle = { currentSong: null, upcomingSongs: [], playbackState: 'idle' }
+
+  it('emits song-started, queue-changed and playback-state when a song starts', () => {
+    const events = diffQueueState(idle, {
+      currentSong: song('a'), upcomingSongs: [], playbackState: 'loading',
+    })
+    expect(events.map(e => e.type)).toEqual(['song-started', 'queue-changed', 'playback-state'])
+    expect(events[0].data).toEqual({ song: song('a') })
+    expect(events[2].data).toEqual({ playbackState: 'loading' })
+  })
+
+  it('emits only queue-changed when upcoming songs change', () => {
+    const prev = { currentSong: song('a'), upcomingSongs: [], playbackState: 'playing' }
+    const events = diffQueueState(prev, { ...prev, upcomingSongs: [song('b')] })
+    expect(events.map(e => e.type)).toEqual(['queue-changed'])
+  })
+
+  it('emits nothing for an identical state', () => {
+    const state = { currentSong: song('a'), upcomingSongs: [song('b')], playbackState: 'playing' }
+    expect(diffQueueState(state, JSON.parse(JSON.stringify(state)))).toEqual([])
+  })
+
+  it('treats a repeat of the same video as a new song', () => {
+    const prev = { currentSong: { ...song('a'), entryId: 'e1' }, upcomingSongs: [], playbackState: 'playing' }
+    const events = diffQueueState(prev, { ...prev, currentSong: { ...song('a'), entryId: 'e2' } })
+    expect(events.map(e => e.type)).toEqual(['song-started', 'queue-changed'])
+  })
+
+  it('does not emit song-started when the queue empties', () => {
+    const prev = { currentSong: song('a'), upcomingSongs: [], playbackState: 'playing' }
+    const events = diffQueueState(prev, idle)
+    expect(events.map(e => e.type)).toEqual(['queue-changed', 'playback-state'])
+  })
+})
+
+describe('createEventHub', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('opens an SSE stream and sends the initial snapshot', () => {
+    const hub = createEventHub()
+    const res = fakeResponse()
+    hub.subscribe(res, null, [{ type: 'queue-changed', data: { upcomingSongs: [] } }])
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
+      'Content-Type': 'text/event-stream',
+    }))
+    const [event] = parseEvents(res.chunks)
+    expect(event.type).toBe('queue-changed')
+    expect(event.data).toEqual({ upcomingSongs: [] })
+    res.emit('close')
+  })
+
+  it('publishes typed events with increasing ids', () => {
+    const hub = createEventHub()
+    const res = fakeResponse()
+    hub.subscribe(res)
+    hub.publish('song-started', { song: song('a') })
+    hub.publish('volume-changed', { volume: 40 })
+
+    const events = parseEvents(res.chunks)
+    expect(events.map(e => e.type)).toEqual(['song-started', 'volume-changed'])
+    expect(events[1].id).toBeGreaterThan(events[0].id)
+    expect(res.chunks.some((c: string) => c.includes('event: volume-changed\n'))).toBe(true)
+    res.emit('close')
+  })
+
+  it('filters events per client', () => {
+    const hub = createEventHub()
+    const res = fakeResponse()
+    hub.subscribe(res, ['song-ended'])
+    hub.publish('song-started', { song: song('a') })
+    hub.publish('song-ended', { song: song('a'), reason: 'completed' })
+
+    expect(parseEvents(res.chunks).map(e => e.type)).toEqual(['song-ended'])
+    res.emit('close')
+  })
+
+  it('ends the streams of a rotated token only', () => {
+    const hub = createEventHub()
+    const guest = fakeResponse()
+    guest.end = vi.fn()
+    const host = fakeResponse()
+    hub.subscribe(guest, null, [], 'guest-token')
+    hub.subscribe(host, null, [], 'host-token')
+
+    hub.disconnectToken('guest-token')
+    expect(guest.end).toHaveBeenCalled()
+    expect(hub.clientCount).toBe(1)
+
+    hub.publish('display-closed', {})
+    expect(parseEvents(guest.chunks)).toEqual([])
+    expect(parseEvents(host.chunks).map(e => e.type)).toEqual(['display-closed'])
+    host.emit('close')
+  })
+
+  it('drops clients when the connection closes', () => {
+    vi.useFakeTimers()
+    const hub = createEventHub()
+    const res = fakeResponse()
+    hub.subscribe(res)
+    expect(hub.clientCount).toBe(1)
+
+    vi.advanceTimersByTime(15000)
+    expect(res.chunks).toContain(': ping\n\n')
+
+    res.emit('close')
+    expect(hub.clientCount).toBe(0)
+    hub.publish('display-opened', {})
+    expect(parseEvents(res.chunks)).toEqual([])
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createMcpServer, toolName, toolRequest } from '../electron/main/api/mcp'
+import type { ApiRouteSpec } from '../electron/main/api/schema'
+import type { ApiToken } from '../src/shared/types'
+
+const token = (scopes: ApiToken['scopes']): ApiToken => ({
+  id: 't1', name: 'Agent', token: 'secret', scopes, createdAt: 0,
+})
+
+const routes: ApiRouteSpec[] = [
+  { method: 'GET', path: '/api/queue', summary: 'List the queue', scope: 'read' },
+  {
+    method: 'POST',
+    path: '/api/queue/add',
+    summary: 'Add a song',
+    scope: 'queue-add',
+    body: {
+      type: 'object',
+      required: ['videoId'],
+      properties: { videoId: { type: 'string' } },
+      additionalProperties: false,
+    },
+  },
+  { method: 'POST', path: '/api/player/skip', summary: 'Skip', scope: 'skip' },
+]
+
+function setup() {
+  const call = vi.fn(async (route: ApiRouteSpec, args: Record<string, unknown>) =>
+    route.path === '/api/queue/add' && args.videoId === 'missing'
+      ? { status: 404, data: { error: 'No results found' } }
+      : { status: 200, data: { route: route.path, args } })
+  const server = createMcpServer({
+    info: { name: 'aipc-ktv', version: '1.0.0' },
+    listRoutes: () => routes,
+    call,
+    resources: [{
+      uri: 'ktv://queue', name: 'Queue', description: 'The queue',
+      read: () => ({ upcomingSongs: [] }),
+    }],
+  })
+  const rpc = (method: string, params?: unknown, scopes: ApiToken['scopes'] = ['admin']) =>
+    server.handle({ jsonrpc: '2.0', id: 1, method, params }, token(scopes), 'ctx') as Promise<any>
+  return { server, call, rpc }
+}
+
+describe('toolRequest', () => {
+  it('moves arguments into the URL for routes with query parameters', () => {
+    const url = new URL('http://127.0.0.1:8800/mcp?access_token=secret')
+    const query = [{ name: 'limit', description: 'Maximum', schema: { type: 'integer' as const } }]
+    const request = toolRequest({ query }, { limit: 5 }, url)
+    expect(request.url.pathname).toBe('/mcp')
+    expect(request.url.search).toBe('?limit=5')
+    expect(request.body).toEqual({})
+    expect(toolRequest({}, { limit: 5 }, url)).toEqual({ url, body: { limit: 5 } })
+  })
+})
+
+describe('toolName', () => {
+  it('derives snake_case names from routes', () => {
+    expect(toolName({ method: 'POST', path: '/api/queue/play-next' })).toBe('queue_play_next')
+    expect(toolName({ method: 'GET', path: '/api/status' })).toBe('get_status')
+  })
+})
+
+describe('createMcpServer', () => {
+  it('negotiates the protocol version on initialize', async () => {
+    const { rpc } = setup()
+    const known = await rpc('initialize', { protocolVersion: '2025-03-26' })
+    expect(known.result.protocolVersion).toBe('2025-03-26')
+    expect(known.result.serverInfo).toEqual({ name: 'aipc-ktv', version: '1.0.0' })
+
+    const unknown = await rpc('initialize', { protocolVersion: '1999-01-01' })
+    expect(unknown.result.protocolVersion).toBe('2025-06-18')
+  })
+
+  it('lists only the tools the token may call, with route schemas as input schemas', async () => {
+    const { rpc } = setup()
+    const guest = await rpc('tools/list', {}, ['queue-add'])
+    expect(guest.result.tools.map((t: any) => t.name)).toEqual(['get_queue', 'queue_add'])
+    expect(guest.result.tools[1].inputSchema).toBe(routes[1].body)
+    expect(guest.result.tools[0].inputSchema.type).toBe('object')
+  })
+
+  it('runs tool calls through the route handler with the context', async () => {
+    const { rpc, call } = setup()
+    const reply = await rpc('tools/call', { name: 'queue_add', arguments: { videoId: 'abc' } })
+    expect(call).toHaveBeenCalledWith(routes[1], { videoId: 'abc' }, 'ctx')
+    expect(reply.result.isError).toBe(false)
+    expect(reply.result.structuredContent).toEqual({ route: '/api/queue/add', args: { videoId: 'abc' } })
+    expect(JSON.parse(reply.result.content[0].text)).toEqual(reply.result.structuredContent)
+  })
+
+  it('reports validation, scope and handler failures as tool errors', async () => {
+    const { rpc, call } = setup()
+
+    const invalid = await rpc('tools/call', { name: 'queue_add', arguments: { videoId: 1 } })
+    expect(invalid.result.isError).toBe(true)
+    expect(invalid.result.content[0].text).toContain('arguments.videoId')
+
+    const forbidden = await rpc('tools/call', { name: 'player_skip' }, ['read'])
+    expect(JSON.parse(forbidden.result.content[0].text)).toEqual({ error: 'Forbidden', requiredScope: 'skip' })
+    expect(call).not.toHaveBeenCalled()
+
+    const notFound = await rpc('tools/call', { name: 'queue_add', arguments: { videoId: 'missing' } })
+    expect(notFound.result.isError).toBe(true)
+  })
+
+  it('lists and reads resources', async () => {
+    const { rpc } = setup()
+    const list = await rpc('resources/list')
+    expect(list.result.resources[0]).toMatchObject({ uri: 'ktv://queue', mimeType: 'application/json' })
+
+    const read = await rpc('resources/read', { uri: 'ktv://queue' })
+    expect(JSON.parse(read.result.contents[0].text)).toEqual({ upcomingSongs: [] })
+  })
+
+  it('returns JSON-RPC errors for unknown methods, tools and resources', async () => {
+    const { rpc } = setup()
+    expect((await rpc('sampling/createMessage')).error.code).toBe(-32601)
+    expect((await rpc('tools/call', { name: 'nope' })).error.code).toBe(-32602)
+    expect((await rpc('resources/read', { uri: 'ktv://nope' })).error.code).toBe(-32602)
+  })
+
+  it('does not reply to notifications and rejects malformed messages', async () => {
+    const { server } = setup()
+    expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' }, token(['read']), 'ctx')).toBeNull()
+    expect(await server.handle({ id: 1, method: 'ping' }, token(['read']), 'ctx')).toMatchObject({
+      error: { code: -32600 },
+    })
+  })
+})
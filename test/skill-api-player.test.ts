@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createPlayerStateTracker, resolveSeekTarget } from '../electron/main/api/player'
+import { PlaybackState } from '../src/shared/types'
+
+describe('createPlayerStateTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts idle and merges updates', () => {
+    const tracker = createPlayerStateTracker()
+    expect(tracker.get().state).toBe(PlaybackState.IDLE)
+
+    tracker.update({ state: PlaybackState.PLAYING, videoId: 'abc' })
+    tracker.update({ currentTime: 42 })
+    expect(tracker.get()).toMatchObject({ state: PlaybackState.PLAYING, videoId: 'abc', currentTime: 42 })
+  })
+
+  it('resolves a waiter once the display reports the expected state', async () => {
+    const tracker = createPlayerStateTracker()
+    const paused = tracker.waitFor(s => s.state === PlaybackState.PAUSED)
+
+    tracker.update({ state: PlaybackState.PLAYING })
+    tracker.update({ state: PlaybackState.PAUSED, currentTime: 12 })
+
+    await expect(paused).resolves.toMatchObject({ state: PlaybackState.PAUSED, currentTime: 12 })
+  })
+
+  it('resolves immediately when the state already matches', async () => {
+    const tracker = createPlayerStateTracker()
+    await expect(tracker.waitFor(s => s.state === PlaybackState.IDLE)).resolves.toMatchObject({
+      state: PlaybackState.IDLE,
+    })
+  })
+
+  it('falls back to the last known state after the timeout', async () => {
+    vi.useFakeTimers()
+    const tracker = createPlayerStateTracker()
+    tracker.update({ isMuted: false })
+    const muted = tracker.waitFor(s => s.isMuted, 1000)
+
+    vi.advanceTimersByTime(1000)
+    await expect(muted).resolves.toMatchObject({ isMuted: false })
+  })
+
+  it('resets to idle', () => {
+    const tracker = createPlayerStateTracker()
+    tracker.update({ state: PlaybackState.PLAYING, videoId: 'abc', currentTime: 30 })
+    tracker.reset()
+    expect(tracker.get()).toMatchObject({ state: PlaybackState.IDLE, videoId: null, currentTime: 0 })
+  })
+})
+
+describe('resolveSeekTarget', () => {
+  const state = { currentTime: 60, duration: 200 }
+
+  it('uses an absolute position', () => {
+    expect(resolveSeekTarget(state, { position: 90 })).toBe(90)
+  })
+
+  it('applies a relative offset', () => {
+    expect(resolveSeekTarget(state, { offset: 15 })).toBe(75)
+    expect(resolveSeekTarget(state, { offset: -10 })).toBe(50)
+  })
+
+  it('clamps to the start and end of the video', () => {
+    expect(resolveSeekTarget(state, { offset: -120 })).toBe(0)
+    expect(resolveSeekTarget(state, { position: 500 })).toBe(200)
+  })
+
+  it('does not clamp the end while the duration is unknown', () => {
+    expect(resolveSeekTarget({ currentTime: 0, duration: 0 }, { position: 500 })).toBe(500)
+  })
+})
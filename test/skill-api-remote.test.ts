@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { createRemoteSettingsStore } from '../electron/main/api/settings'
+import { REMOTE_PAGE_HTML } from '../electron/main/api/remotePage'
+
+describe('Phone remote settings', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ktv-remote-'))
+    filePath = path.join(dir, 'remote-settings.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('defaults to loopback only, no guest skip', () => {
+    expect(createRemoteSettingsStore(filePath).get()).toEqual({
+      lanAccess: false,
+      guestSkip: false,
+      cornerQr: false,
+      guestTokenId: null,
+    })
+  })
+
+  it('persists updates', () => {
+    createRemoteSettingsStore(filePath).update({ lanAccess: true, guestTokenId: 'tok-1' })
+    expect(createRemoteSettingsStore(filePath).get()).toEqual({
+      lanAccess: true,
+      guestSkip: false,
+      cornerQr: false,
+      guestTokenId: 'tok-1',
+    })
+  })
+
+  it('falls back to defaults for a corrupt file', () => {
+    fs.writeFileSync(filePath, '{not json')
+    expect(createRemoteSettingsStore(filePath).get().lanAccess).toBe(false)
+  })
+})
+
+describe('Phone remote page', () => {
+  it('drives the Skill API with the guest token', () => {
+    expect(REMOTE_PAGE_HTML).toContain("'/api/search'")
+    expect(REMOTE_PAGE_HTML).toContain("'/api/queue/add'")
+    expect(REMOTE_PAGE_HTML).toContain("'/api/player/skip'")
+    expect(REMOTE_PAGE_HTML).toContain("'Bearer ' + token")
+  })
+
+  it('credits added songs to the name entered on the phone', () => {
+    expect(REMOTE_PAGE_HTML).toContain('id="singer"')
+    expect(REMOTE_PAGE_HTML).toContain('body.singer = singer')
+  })
+
+  it('never renders song data as HTML', () => {
+    expect(REMOTE_PAGE_HTML).not.toContain('innerHTML')
+  })
+})
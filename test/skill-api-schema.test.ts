@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { buildOpenApiDocument, operationId, validate } from '../electron/main/api/schema'
+import type { ApiRouteSpec, JsonSchema } from '../electron/main/api/schema'
+
+const addSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    videoId: { type: 'string', pattern: '^[A-Za-z0-9_-]{1,64}$' },
+    duration: { type: 'number', minimum: 0 },
+    query: { type: 'string', minLength: 1 },
+  },
+  additionalProperties: false,
+  anyOf: [
+    { required: ['videoId'], description: 'videoId is required' },
+    { required: ['query'], description: 'query is required' },
+  ],
+}
+
+describe('validate', () => {
+  it('accepts valid bodies', () => {
+    expect(validate(addSchema, { videoId: 'dQw4w9WgXcQ', duration: 212 })).toEqual([])
+    expect(validate(addSchema, { query: '周杰倫 晴天' })).toEqual([])
+  })
+
+  it('reports wrong types with the property path', () => {
+    expect(validate(addSchema, { videoId: 42 })).toContainEqual({
+      path: 'body.videoId',
+      message: 'must be of type string',
+    })
+  })
+
+  it('reports range, length and pattern violations', () => {
+    const volume: JsonSchema = {
+      type: 'object',
+      properties: { volume: { type: 'integer', minimum: 0, maximum: 100 } },
+    }
+    expect(validate(volume, { volume: 150 })).toEqual([{ path: 'body.volume', message: 'must be <= 100' }])
+    expect(validate(volume, { volume: 2.5 })).toEqual([{ path: 'body.volume', message: 'must be an integer' }])
+    expect(validate(addSchema, { query: '' })[0].message).toBe('must be at least 1 characters')
+    expect(validate(addSchema, { videoId: 'bad id!' })[0].message).toContain('must match')
+  })
+
+  it('rejects unknown properties when additionalProperties is false', () => {
+    expect(validate(addSchema, { videoId: 'abc', volume: 3 })).toContainEqual({
+      path: 'body.volume',
+      message: 'is not allowed',
+    })
+  })
+
+  it('enforces anyOf alternatives', () => {
+    expect(validate(addSchema, {})).toEqual([{
+      path: 'body',
+      message: 'must satisfy one of: videoId is required | query is required',
+    }])
+  })
+
+  it('checks required properties, enums and array items', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['mode', 'ids'],
+      properties: {
+        mode: { type: 'string', enum: ['append', 'replace'] },
+        ids: { type: 'array', items: { type: 'string' } },
+      },
+    }
+    expect(validate(schema, { mode: 'merge', ids: ['a', 1] })).toEqual([
+      { path: 'body.mode', message: 'must be one of: append, replace' },
+      { path: 'body.ids[1]', message: 'must be of type string' },
+    ])
+    expect(validate(schema, {}).map(i => i.path)).toEqual(['body.mode', 'body.ids'])
+  })
+
+  it('rejects non-object bodies', () => {
+    expect(validate(addSchema, [])).toEqual([{ path: 'body', message: 'must be of type object' }])
+  })
+})
+
+describe('buildOpenApiDocument', () => {
+  const routes: ApiRouteSpec[] = [
+    { method: 'GET', path: '/api/openapi.json', summary: 'Spec', scope: null },
+    { method: 'POST', path: '/api/queue/add', summary: 'Add', scope: 'queue-add', body: addSchema },
+    { method: 'DELETE', path: '/api/queue/:entryId', summary: 'Remove', scope: 'admin' },
+  ]
+  const doc = buildOpenApiDocument(routes, { title: 'KTV', version: '1.0.0', serverUrl: 'http://127.0.0.1:18800' })
+
+  it('documents every route with its scope and body schema', () => {
+    const add = (doc.paths['/api/queue/add'] as any).post
+    expect(add.operationId).toBe('postQueueAdd')
+    expect(add['x-required-scope']).toBe('queue-add')
+    expect(add.security).toEqual([{ bearerAuth: [] }])
+    expect(add.requestBody.content['application/json'].schema).toBe(addSchema)
+    expect(add.responses[400]).toBeDefined()
+    expect(add.responses[403]).toBeDefined()
+  })
+
+  it('marks unauthenticated routes as public', () => {
+    const spec = (doc.paths['/api/openapi.json'] as any).get
+    expect(spec.security).toEqual([])
+    expect(spec.responses[401]).toBeUndefined()
+  })
+
+  it('converts path parameters', () => {
+    const remove = (doc.paths['/api/queue/{entryId}'] as any).delete
+    expect(remove.parameters).toEqual([{ name: 'entryId', in: 'path', required: true, schema: { type: 'string' } }])
+    expect(remove.operationId).toBe('deleteQueueByEntryId')
+  })
+
+  it('declares the bearer security scheme', () => {
+    expect(doc.openapi).toBe('3.1.0')
+    expect(doc.components.securitySchemes.bearerAuth).toEqual({ type: 'http', scheme: 'bearer' })
+  })
+})
+
+describe('operationId', () => {
+  it('camel-cases method and path', () => {
+    expect(operationId({ method: 'POST', path: '/api/player/skip' })).toBe('postPlayerSkip')
+    expect(operationId({ method: 'GET', path: '/api/status' })).toBe('getStatus')
+  })
+})
@@ -1,155 +1,103 @@
 import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest'
 import http from 'node:http'
-
-// --- Mocks for Electron globals used by the API server ---
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { createTokenStore } from '../electron/main/api/auth'
+import { createEventHub } from '../electron/main/api/events'
+import { createMcpServer, toolRequest } from '../electron/main/api/mcp'
+import { createPlayerStateTracker } from '../electron/main/api/player'
+import { loadPlugins } from '../electron/main/api/plugins'
+import { createRouteRegistry, matchPath } from '../electron/main/api/registry'
+import type { ApiRequestContext, ApiResult } from '../electron/main/api/registry'
+import { createBuiltinRoutes } from '../electron/main/api/routes'
+
+// --- Fakes for the Electron side of the built-in routes ---
 const mockWinSend = vi.fn()
 const mockDisplayWinSend = vi.fn()
+const mockSearchYouTube = vi.fn()
+const mockPlaylistCommand = vi.fn()
+const playerState = createPlayerStateTracker()
+const mockQueueUndo = vi.fn()
+const mockCheckAdd = vi.fn()
+const mockHistoryQuery = vi.fn()
+const mockResolveSinger = vi.fn(async (name: string) => ({ id: 's1', name, color: '#ef4444', avatar: name[0] }))
+const mockOpenDisplay = vi.fn(async () => {})
 
 let queueState = {
   currentSong: null as any,
   upcomingSongs: [] as any[],
   playbackState: 'idle',
+  hostMode: false,
+  queueLocked: false,
+  roomTimer: null as any,
 }
-let displayWin: any = null
-let win: any = null
-
-const mockSearchYouTube = vi.fn()
-
-// --- Recreate API handler logic (mirrors electron/main/index.ts) ---
-function parseBody(req: http.IncomingMessage): Promise<any> {
-  return new Promise((resolve, reject) => {
-    let body = ''
-    req.on('data', (chunk: string) => { body += chunk })
-    req.on('end', () => {
-      try { resolve(body ? JSON.parse(body) : {}) }
-      catch { reject(new Error('Invalid JSON')) }
-    })
-    req.on('error', reject)
-  })
-}
-
-function jsonResponse(res: http.ServerResponse, status: number, data: any) {
-  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' })
-  res.end(JSON.stringify(data))
-}
-
-async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
-  if (req.method === 'OPTIONS') {
-    res.writeHead(204, {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    })
-    return res.end()
-  }
+let displayOpen = true
 
-  const reqUrl = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
-  const pathname = reqUrl.pathname
-
-  try {
-    if (req.method === 'GET' && pathname === '/api/status') {
-      return jsonResponse(res, 200, {
-        currentSong: queueState.currentSong,
-        upcomingSongs: queueState.upcomingSongs,
-        playbackState: queueState.playbackState,
-        queueLength: queueState.upcomingSongs.length,
-        displayWindowOpen: !!displayWin,
-      })
-    }
-
-    if (req.method === 'GET' && pathname === '/api/queue') {
-      return jsonResponse(res, 200, {
-        currentSong: queueState.currentSong,
-        upcomingSongs: queueState.upcomingSongs,
-      })
-    }
-
-    if (req.method === 'POST' && pathname === '/api/queue/add') {
-      const body = await parseBody(req)
-      let song: any = null
-
-      if (body.videoId) {
-        song = {
-          videoId: body.videoId,
-          title: body.title || 'YouTube Video',
-          channel: body.channel || '',
-          thumbnail: `https://i.ytimg.com/vi/${body.videoId}/hqdefault.jpg`,
-          duration: body.duration || 0,
-        }
-      } else if (body.query) {
-        const results = await mockSearchYouTube(body.query, 1)
-        if (results.length > 0) {
-          song = results[0]
-        } else {
-          return jsonResponse(res, 404, { error: 'No results found', query: body.query })
-        }
-      } else {
-        return jsonResponse(res, 400, { error: 'Provide videoId or query' })
-      }
-
-      if (win && !win.isDestroyed()) {
-        win.webContents.send('api-add-song', song)
-      }
-      return jsonResponse(res, 200, { success: true, song })
-    }
-
-    if (req.method === 'POST' && pathname === '/api/search') {
-      const body = await parseBody(req)
-      if (!body.query) {
-        return jsonResponse(res, 400, { error: 'Provide query' })
-      }
-      const results = await mockSearchYouTube(body.query, body.maxResults || 5)
-      return jsonResponse(res, 200, { results })
-    }
+// --- The real registry and routes, as electron/main/index.ts wires them ---
+const tokenDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ktv-api-'))
+const tokenStore = createTokenStore(path.join(tokenDir, 'api-tokens.json'))
+const hostToken = tokenStore.list()[0]
+const readToken = tokenStore.create('Dashboard', ['read'])
 
-    if (req.method === 'POST' && pathname === '/api/player/skip') {
-      if (win && !win.isDestroyed()) {
-        win.webContents.send('api-skip-song')
-      }
-      return jsonResponse(res, 200, { success: true })
-    }
-
-    if (req.method === 'POST' && pathname === '/api/player/volume') {
-      const body = await parseBody(req)
-      if (displayWin) {
-        displayWin.webContents.send('youtube-player-control', 'set-volume', body.volume ?? 100)
-      }
-      return jsonResponse(res, 200, { success: true, volume: body.volume })
-    }
+const registry = createRouteRegistry({
+  authenticate: (req, url) => tokenStore.authenticate(req.headers.authorization)
+    ?? tokenStore.verify(url.searchParams.get('access_token')),
+})
 
-    if (req.method === 'POST' && pathname === '/api/queue/clear') {
-      if (win && !win.isDestroyed()) {
-        win.webContents.send('api-clear-queue')
-      }
-      return jsonResponse(res, 200, { success: true })
-    }
+const mcpServer = createMcpServer({
+  info: { name: 'aipc-ktv', version: 'test' },
+  listRoutes: () => registry.routes.filter(r => r.scope && !r.tags?.some(t => ['meta', 'events', 'mcp'].includes(t))),
+  call: async (route, args, ctx: ApiRequestContext) =>
+    (await route.handler({ ...ctx, ...toolRequest(route, args, ctx.url) })) as ApiResult,
+  resources: [],
+})
 
-    jsonResponse(res, 404, { error: 'Not found', endpoints: [
-      'GET  /api/status',
-      'GET  /api/queue',
-      'POST /api/queue/add    {videoId,title} or {query}',
-      'POST /api/queue/clear',
-      'POST /api/search       {query, maxResults?}',
-      'POST /api/player/skip',
-      'POST /api/player/volume {volume: 0-100}',
-    ]})
-  } catch (err) {
-    jsonResponse(res, 500, { error: String(err) })
-  }
+for (const route of createBuiltinRoutes({
+  appVersion: 'test',
+  apiPort: 18800,
+  getQueueState: () => queueState,
+  isDisplayOpen: () => displayOpen,
+  openDisplay: mockOpenDisplay,
+  sendToDisplay: (channel, ...args) => {
+    if (!displayOpen) return false
+    mockDisplayWinSend(channel, ...args)
+    return true
+  },
+  sendToRenderer: mockWinSend,
+  searchYouTube: mockSearchYouTube,
+  playlistCommand: mockPlaylistCommand,
+  queueUndo: mockQueueUndo,
+  checkAdd: mockCheckAdd,
+  historyQuery: mockHistoryQuery,
+  resolveSinger: mockResolveSinger,
+  eventHub: createEventHub(),
+  playerState,
+  mcpServer,
+  listRoutes: () => registry.routes,
+})) {
+  registry.register(route)
 }
 
 // --- Test infrastructure ---
 let server: http.Server
 let port: number
 
-function req(method: string, path: string, body?: any): Promise<{ status: number; data: any }> {
+function req(
+  method: string,
+  path: string,
+  body?: any,
+  secret: string | null = hostToken.token
+): Promise<{ status: number; data: any }> {
   return new Promise((resolve, reject) => {
+    const headers: http.OutgoingHttpHeaders = body ? { 'Content-Type': 'application/json' } : {}
+    if (secret) headers.Authorization = `Bearer ${secret}`
     const options: http.RequestOptions = {
       hostname: '127.0.0.1',
       port,
       path,
       method,
-      headers: body ? { 'Content-Type': 'application/json' } : {},
+      headers,
     }
 
     const r = http.request(options, (res) => {
@@ -172,7 +120,7 @@ function req(method: string, path: string, body?: any): Promise<{ status: number
 describe('Skill HTTP API', () => {
   beforeAll(() => {
     return new Promise<void>((resolve) => {
-      server = http.createServer(handleRequest)
+      server = http.createServer(registry.handle)
       server.listen(0, '127.0.0.1', () => {
         port = (server.address() as any).port
         resolve()
@@ -181,18 +129,44 @@ describe('Skill HTTP API', () => {
   })
 
   afterAll(() => {
+    fs.rmSync(tokenDir, { recursive: true, force: true })
     return new Promise<void>((resolve) => {
       server.close(() => resolve())
     })
   })
 
   beforeEach(() => {
-    queueState = { currentSong: null, upcomingSongs: [], playbackState: 'idle' }
-    win = { webContents: { send: mockWinSend }, isDestroyed: () => false }
-    displayWin = { webContents: { send: mockDisplayWinSend } }
+    queueState = { currentSong: null, upcomingSongs: [], playbackState: 'idle', hostMode: false, queueLocked: false, roomTimer: null }
+    displayOpen = true
     mockWinSend.mockClear()
     mockDisplayWinSend.mockClear()
+    mockOpenDisplay.mockClear()
     mockSearchYouTube.mockReset()
+    mockPlaylistCommand.mockReset()
+    mockResolveSinger.mockClear()
+    mockQueueUndo.mockReset()
+    mockCheckAdd.mockReset().mockResolvedValue({ rejected: false })
+    mockHistoryQuery.mockReset()
+  })
+
+  describe('authentication', () => {
+    it('rejects requests without a token', async () => {
+      const { status, data } = await req('GET', '/api/status', undefined, null)
+      expect(status).toBe(401)
+      expect(data.error).toBe('Unauthorized')
+    })
+
+    it('rejects tokens without the required scope', async () => {
+      const { status, data } = await req('POST', '/api/queue/clear', undefined, readToken.token)
+      expect(status).toBe(403)
+      expect(data.requiredScope).toBe('admin')
+    })
+
+    it('serves public routes without a token', async () => {
+      const { status, data } = await req('GET', '/api/openapi.json', undefined, null)
+      expect(status).toBe(200)
+      expect(data.paths['/api/queue/add'].post['x-required-scope']).toBe('queue-add')
+    })
   })
 
   describe('GET /api/status', () => {
@@ -219,7 +193,7 @@ describe('Skill HTTP API', () => {
     })
 
     it('reports displayWindowOpen=false when no display', async () => {
-      displayWin = null
+      displayOpen = false
       const { data } = await req('GET', '/api/status')
       expect(data.displayWindowOpen).toBe(false)
     })
@@ -238,6 +212,24 @@ describe('Skill HTTP API', () => {
       expect(data.currentSong.videoId).toBe('v1')
       expect(data.upcomingSongs).toHaveLength(2)
     })
+
+    it('estimates when each upcoming song starts', async () => {
+      queueState.currentSong = { videoId: 'v1', entryId: 'e1', duration: 200 }
+      queueState.upcomingSongs = [
+        { videoId: 'v2', entryId: 'e2', duration: 180 },
+        { videoId: 'v3', entryId: 'e3', duration: 0 },
+      ]
+      playerState.update({ videoId: 'v1', currentTime: 50 })
+
+      const { data } = await req('GET', '/api/queue')
+      expect(data.eta).toMatchObject({
+        remaining: 150 + 180 + 240,
+        unknownDurations: 1,
+        upcoming: [{ entryId: 'e2', startsIn: 150 }, { entryId: 'e3', startsIn: 330 }],
+      })
+      expect(data.eta.upcoming[1].startsAt - data.eta.upcoming[0].startsAt).toBe(180_000)
+      playerState.reset()
+    })
   })
 
   describe('POST /api/queue/add', () => {
@@ -252,6 +244,7 @@ describe('Skill HTTP API', () => {
       expect(data.song.title).toBe('My Song')
       expect(data.song.thumbnail).toContain('abc123')
       expect(mockWinSend).toHaveBeenCalledWith('api-add-song', data.song)
+      expect(mockOpenDisplay).toHaveBeenCalled()
     })
 
     it('defaults title to "YouTube Video" when not provided', async () => {
@@ -280,7 +273,114 @@ describe('Skill HTTP API', () => {
     it('returns 400 when no videoId or query', async () => {
       const { status, data } = await req('POST', '/api/queue/add', {})
       expect(status).toBe(400)
-      expect(data.error).toBe('Provide videoId or query')
+      expect(data.error).toBe('Invalid request body')
+      expect(data.issues[0].message).toBe('must satisfy one of: videoId is required | query is required')
+    })
+
+    it('credits the song to the named singer', async () => {
+      const { status, data } = await req('POST', '/api/queue/add', { videoId: 'abc', singer: ' Alice ' })
+      expect(status).toBe(200)
+      expect(mockResolveSinger).toHaveBeenCalledWith('Alice')
+      expect(data.song.singer).toEqual({ id: 's1', name: 'Alice', color: '#ef4444', avatar: 'A' })
+      expect(mockWinSend).toHaveBeenCalledWith('api-add-song', data.song)
+    })
+
+    it('rejects blank singer names', async () => {
+      const { status } = await req('POST', '/api/queue/add', { videoId: 'abc', singer: '   ' })
+      expect(status).toBe(400)
+      expect(mockResolveSinger).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 with the reason when the duplicate policy rejects the song', async () => {
+      const duplicate = { reason: 'queued', message: '"My Song" is already queued (#2 up next)' }
+      mockCheckAdd.mockResolvedValue({ rejected: true, duplicate })
+      const { status, data } = await req('POST', '/api/queue/add', { videoId: 'abc', title: 'My Song' })
+      expect(status).toBe(409)
+      expect(data).toMatchObject({ error: 'Duplicate song', ...duplicate, song: { videoId: 'abc' } })
+      expect(mockCheckAdd).toHaveBeenCalledWith(expect.objectContaining({ videoId: 'abc' }))
+      expect(mockWinSend).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 with the reason when a request limit is reached', async () => {
+      const limit = { reason: 'singer-cooldown', message: 'Alice can add another song in 3 min' }
+      mockCheckAdd.mockResolvedValue({ rejected: true, limit })
+      const { status, data } = await req('POST', '/api/queue/add', { videoId: 'abc', singer: 'Alice' })
+      expect(status).toBe(409)
+      expect(data).toMatchObject({ error: 'Limit reached', ...limit, song: { videoId: 'abc', singer: { name: 'Alice' } } })
+      expect(mockWinSend).not.toHaveBeenCalled()
+    })
+
+    it('adds a warned duplicate and passes the warning on', async () => {
+      const duplicate = { reason: 'recently-sung', message: '"My Song" was sung 5 min ago' }
+      mockCheckAdd.mockResolvedValue({ rejected: false, duplicate })
+      const { status, data } = await req('POST', '/api/queue/add', { videoId: 'abc', title: 'My Song' })
+      expect(status).toBe(200)
+      expect(data.duplicate).toEqual(duplicate)
+      expect(mockWinSend).toHaveBeenCalledWith('api-add-song', data.song)
+    })
+
+    it('queues next or plays now at the requested position', async () => {
+      const next = await req('POST', '/api/queue/add', { videoId: 'abc', position: 'next' })
+      expect(next.status).toBe(200)
+      expect(mockWinSend).toHaveBeenCalledWith('api-play-next', next.data.song)
+
+      const now = await req('POST', '/api/queue/add', { videoId: 'def', position: 'now' })
+      expect(now.status).toBe(200)
+      expect(mockWinSend).toHaveBeenCalledWith('api-play-now', now.data.song)
+    })
+
+    it('keeps jumping the queue to admin tokens', async () => {
+      const guest = tokenStore.create('Guest', ['queue-add'])
+      const { status, data } = await req('POST', '/api/queue/add', { videoId: 'abc', position: 'now' }, guest.token)
+      expect(status).toBe(403)
+      expect(data.requiredScope).toBe('admin')
+      expect(mockWinSend).not.toHaveBeenCalled()
+      tokenStore.revoke(guest.id)
+    })
+
+    it('rejects unknown positions', async () => {
+      const { status } = await req('POST', '/api/queue/add', { videoId: 'abc', position: 'first' })
+      expect(status).toBe(400)
+    })
+
+    it('is open to queue-add tokens', async () => {
+      const guest = tokenStore.create('Guest', ['queue-add'])
+      const { status } = await req('POST', '/api/queue/add', { videoId: 'abc' }, guest.token)
+      expect(status).toBe(200)
+      tokenStore.revoke(guest.id)
+    })
+  })
+
+  describe('queue editing', () => {
+    beforeEach(() => {
+      queueState.currentSong = { videoId: 'v1', entryId: 'e1' }
+      queueState.upcomingSongs = [{ videoId: 'v2', entryId: 'e2' }, { videoId: 'v3', entryId: 'e3' }]
+    })
+
+    it('removes an upcoming entry', async () => {
+      const { status, data } = await req('POST', '/api/queue/remove', { entryId: 'e3' })
+      expect(status).toBe(200)
+      expect(data.song.videoId).toBe('v3')
+      expect(mockWinSend).toHaveBeenCalledWith('api-remove-song', 'e3')
+    })
+
+    it('returns 404 for unknown entries and 409 for the current song', async () => {
+      expect((await req('POST', '/api/queue/remove', { entryId: 'nope' })).status).toBe(404)
+      expect((await req('POST', '/api/queue/remove', { entryId: 'e1' })).status).toBe(409)
+      expect(mockWinSend).not.toHaveBeenCalled()
+    })
+
+    it('toggles fair rotation in the control window', async () => {
+      const { status, data } = await req('POST', '/api/queue/rotation', { enabled: true })
+      expect(status).toBe(200)
+      expect(data.rotationMode).toBe(true)
+      expect(mockWinSend).toHaveBeenCalledWith('api-set-rotation', true)
+    })
+
+    it('clamps move targets to the end of the queue', async () => {
+      const { data } = await req('POST', '/api/queue/move', { entryId: 'e2', toIndex: 10 })
+      expect(data).toEqual({ success: true, fromIndex: 0, toIndex: 1 })
+      expect(mockWinSend).toHaveBeenCalledWith('api-move-song', 'e2', 1)
     })
   })
 
@@ -307,7 +407,7 @@ describe('Skill HTTP API', () => {
     it('returns 400 without query', async () => {
       const { status, data } = await req('POST', '/api/search', {})
       expect(status).toBe(400)
-      expect(data.error).toBe('Provide query')
+      expect(data.issues).toEqual([{ path: 'body.query', message: 'is required' }])
     })
   })
 
@@ -334,6 +434,144 @@ describe('Skill HTTP API', () => {
     })
   })
 
+  describe('host mode and queue lock', () => {
+    let guest: ReturnType<typeof tokenStore.create>
+    // Has every scope, but is not the host's own token
+    let agent: ReturnType<typeof tokenStore.create>
+
+    beforeEach(() => {
+      guest = tokenStore.create('Phone remote guests', ['queue-add'])
+      agent = tokenStore.create('Agent', ['admin'])
+    })
+
+    afterEach(() => {
+      tokenStore.revoke(guest.id)
+      tokenStore.revoke(agent.id)
+    })
+
+    it('sends guest adds to the host for approval in host mode', async () => {
+      queueState.hostMode = true
+      const { status, data } = await req('POST', '/api/queue/add', { videoId: 'abc', title: 'My Song' }, guest.token)
+      expect(status).toBe(202)
+      expect(data).toMatchObject({ success: true, pending: true, song: { videoId: 'abc' } })
+      expect(mockWinSend).toHaveBeenCalledWith('api-request-song', data.song, 'end', 'Phone remote guests')
+      expect(mockWinSend).not.toHaveBeenCalledWith('api-add-song', expect.anything())
+      expect(mockOpenDisplay).not.toHaveBeenCalled()
+    })
+
+    it('sends other admin tokens\' adds for approval too', async () => {
+      queueState.hostMode = true
+      const { status } = await req('POST', '/api/queue/play-next', { videoId: 'abc' }, agent.token)
+      expect(status).toBe(202)
+      expect(mockWinSend).toHaveBeenCalledWith('api-request-song', expect.objectContaining({ videoId: 'abc' }), 'next', 'Agent')
+    })
+
+    it('lets the host token add directly in host mode', async () => {
+      queueState.hostMode = true
+      const added = await req('POST', '/api/queue/add', { videoId: 'abc' })
+      expect(added.status).toBe(200)
+      expect(added.data.pending).toBeUndefined()
+      const next = await req('POST', '/api/queue/play-next', { videoId: 'def' })
+      expect(next.status).toBe(200)
+      expect(mockWinSend).toHaveBeenCalledWith('api-add-song', expect.objectContaining({ videoId: 'abc' }))
+      expect(mockWinSend).toHaveBeenCalledWith('api-play-next', expect.objectContaining({ videoId: 'def' }))
+      expect(mockWinSend).not.toHaveBeenCalledWith('api-request-song', expect.anything(), expect.anything(), expect.anything())
+    })
+
+    it('still applies the duplicate policy before asking the host', async () => {
+      queueState.hostMode = true
+      mockCheckAdd.mockResolvedValue({ rejected: true, duplicate: { reason: 'playing', message: 'playing now' } })
+      const { status } = await req('POST', '/api/queue/add', { videoId: 'abc' }, guest.token)
+      expect(status).toBe(409)
+      expect(mockWinSend).not.toHaveBeenCalled()
+    })
+
+    it('lets only the host token load playlists in host mode', async () => {
+      queueState.hostMode = true
+      const refused = await req('POST', '/api/playlists/load', { playlistId: 'p1' }, agent.token)
+      expect(refused.status).toBe(409)
+      expect(refused.data.error).toBe('Host mode')
+      expect(mockPlaylistCommand).not.toHaveBeenCalled()
+
+      mockPlaylistCommand.mockResolvedValue({ playlist: { id: 'p1', name: 'Mix', songCount: 1, createdAt: 0 }, queued: 1, skipped: [] })
+      const { status } = await req('POST', '/api/playlists/load', { playlistId: 'p1' })
+      expect(status).toBe(200)
+    })
+
+    const edits: [string, object][] = [
+      ['/api/queue/clear', {}],
+      ['/api/queue/remove', { entryId: 'e2' }],
+      ['/api/queue/move', { entryId: 'e2', toIndex: 0 }],
+      ['/api/queue/play-next', { entryId: 'e2' }],
+      ['/api/queue/shuffle', {}],
+      ['/api/queue/rotation', { enabled: true }],
+      ['/api/queue/undo', {}],
+      ['/api/playlists/load', { playlistId: 'p1', mode: 'replace' }],
+    ]
+
+    it('lets the host token edit a locked queue', async () => {
+      queueState.queueLocked = true
+      queueState.upcomingSongs = [{ videoId: 'v2', entryId: 'e2' }]
+      mockQueueUndo.mockResolvedValue('Added v2')
+      mockPlaylistCommand.mockResolvedValue({ playlist: { id: 'p1', name: 'Mix', songCount: 1, createdAt: 0 }, queued: 1, skipped: [] })
+      for (const [path, body] of edits) {
+        const { status } = await req('POST', path, body)
+        expect(status, path).toBe(200)
+      }
+    })
+
+    it('returns 423 to every other token while the queue is locked', async () => {
+      queueState.queueLocked = true
+      queueState.upcomingSongs = [{ videoId: 'v2', entryId: 'e2' }]
+      for (const [path, body] of edits) {
+        const { status, data } = await req('POST', path, body, agent.token)
+        expect(status, path).toBe(423)
+        expect(data.error).toBe('Queue locked')
+      }
+      expect(mockWinSend).not.toHaveBeenCalled()
+      expect(mockQueueUndo).not.toHaveBeenCalled()
+    })
+
+    it('still lets guests add songs to a locked queue', async () => {
+      queueState.queueLocked = true
+      const { status } = await req('POST', '/api/queue/add', { videoId: 'abc' }, guest.token)
+      expect(status).toBe(200)
+    })
+
+    it('reports host mode, the lock and pending songs in GET /api/queue', async () => {
+      const pending = { id: 'r1', song: { videoId: 'abc' }, position: 'end', requestedBy: 'Guest', requestedAt: 1 }
+      queueState = { ...queueState, hostMode: true, queueLocked: true, pendingSongs: [pending] } as typeof queueState
+      const { data } = await req('GET', '/api/queue')
+      expect(data).toMatchObject({ hostMode: true, queueLocked: true, pending: [pending] })
+    })
+  })
+
+  describe('POST /api/player/rate', () => {
+    afterEach(() => {
+      playerState.reset()
+    })
+
+    it('snaps the rate to a practice speed and returns the confirmed state', async () => {
+      playerState.update({ playbackRate: 0.75 })
+      const { status, data } = await req('POST', '/api/player/rate', { rate: 0.8 })
+      expect(status).toBe(200)
+      expect(data.player.playbackRate).toBe(0.75)
+      expect(mockDisplayWinSend).toHaveBeenCalledWith('youtube-player-control', 'set-playback-rate', 0.75)
+    })
+
+    it('rejects rates outside 0.5-1.5', async () => {
+      const { status } = await req('POST', '/api/player/rate', { rate: 2 })
+      expect(status).toBe(400)
+      expect(mockDisplayWinSend).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 while the display is closed', async () => {
+      displayOpen = false
+      const { status } = await req('POST', '/api/player/rate', { rate: 1 })
+      expect(status).toBe(409)
+    })
+  })
+
   describe('POST /api/queue/clear', () => {
     it('sends clear IPC to control window', async () => {
       const { status, data } = await req('POST', '/api/queue/clear')
@@ -343,13 +581,173 @@ describe('Skill HTTP API', () => {
     })
   })
 
+  describe('playlists', () => {
+    it('maps a missing playlist to 404', async () => {
+      mockPlaylistCommand.mockResolvedValue(null)
+      const { status, data } = await req('POST', '/api/playlists/load', { playlistId: 'p9' })
+      expect(status).toBe(404)
+      expect(data.error).toBe('Playlist not found')
+      expect(mockPlaylistCommand).toHaveBeenCalledWith({ action: 'load', playlistId: 'p9', replace: false })
+    })
+
+    it('exports playlists in the requested format', async () => {
+      const song = { videoId: 'aaaaaaaaaaa', title: 'One', channel: '', thumbnail: '', duration: 90 }
+      mockPlaylistCommand.mockResolvedValue([{ id: 'p1', name: 'Mix', songs: [song], createdAt: 0 }])
+      const { status, data } = await req('POST', '/api/playlists/export', { playlistId: 'p1', format: 'm3u' }, readToken.token)
+      expect(status).toBe(200)
+      expect(data.filename).toBe('mix.m3u')
+      expect(data.content).toContain('https://www.youtube.com/watch?v=aaaaaaaaaaa')
+      expect(mockPlaylistCommand).toHaveBeenCalledWith({ action: 'export', playlistId: 'p1' })
+    })
+
+    it('imports a file, reporting skipped rows', async () => {
+      mockPlaylistCommand.mockResolvedValue([{ id: 'p2', name: 'Mix', added: 1, merged: false }])
+      const content = 'playlist,videoId\nMix,aaaaaaaaaaa\nMix,bad\n'
+      const { status, data } = await req('POST', '/api/playlists/import', { content, filename: 'mix.csv', onCollision: 'duplicate' })
+      expect(status).toBe(200)
+      expect(data.playlists).toEqual([{ id: 'p2', name: 'Mix', added: 1, merged: false }])
+      expect(data.skipped).toEqual([{ playlist: 'Mix', row: 3, reason: 'Invalid videoId "bad"' }])
+      expect(mockPlaylistCommand).toHaveBeenCalledWith({
+        action: 'import',
+        playlists: [{ name: 'Mix', songs: [expect.objectContaining({ videoId: 'aaaaaaaaaaa' })] }],
+        onCollision: 'duplicate',
+      })
+    })
+
+    it('refuses files it cannot read, and callers without admin scope', async () => {
+      const bad = await req('POST', '/api/playlists/import', { content: '{ nope', format: 'json' })
+      expect(bad.status).toBe(400)
+      expect(bad.data.error).toBe('Invalid playlist file')
+      expect((await req('POST', '/api/playlists/import', { content: 'x' }, readToken.token)).status).toBe(403)
+      expect(mockPlaylistCommand).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/queue/undo and /redo', () => {
+    it('undoes the last edit in the control window and says what it was', async () => {
+      mockQueueUndo.mockResolvedValue('Removed Song 2')
+      const { status, data } = await req('POST', '/api/queue/undo', {})
+      expect(status).toBe(200)
+      expect(data).toEqual({ success: true, undone: 'Removed Song 2' })
+      expect(mockQueueUndo).toHaveBeenCalledWith('undo')
+    })
+
+    it('returns 409 when there is nothing to undo or redo', async () => {
+      mockQueueUndo.mockResolvedValue(null)
+      expect(await req('POST', '/api/queue/undo', {})).toMatchObject({ status: 409, data: { error: 'Nothing to undo' } })
+      expect(await req('POST', '/api/queue/redo', {})).toMatchObject({ status: 409, data: { error: 'Nothing to redo' } })
+      expect(mockQueueUndo).toHaveBeenLastCalledWith('redo')
+    })
+
+    it('is admin only', async () => {
+      const { status } = await req('POST', '/api/queue/undo', {}, readToken.token)
+      expect(status).toBe(403)
+      expect(mockQueueUndo).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/history', () => {
+    it('asks the control window for the filtered history', async () => {
+      mockHistoryQuery.mockResolvedValue([{ id: 'h1' }])
+      const { status, data } = await req('GET', '/api/history?date=2026-10-19&limit=5', undefined, readToken.token)
+      expect(status).toBe(200)
+      expect(data.history).toEqual([{ id: 'h1' }])
+      expect(mockHistoryQuery).toHaveBeenCalledWith({ date: '2026-10-19', limit: 5 })
+    })
+
+    it('defaults to the latest 50 entries', async () => {
+      mockHistoryQuery.mockResolvedValue([])
+      await req('GET', '/api/history')
+      expect(mockHistoryQuery).toHaveBeenCalledWith({ date: undefined, limit: 50 })
+    })
+
+    it('rejects bad dates and limits', async () => {
+      expect((await req('GET', '/api/history?date=yesterday')).status).toBe(400)
+      expect((await req('GET', '/api/history?limit=0')).status).toBe(400)
+      expect(mockHistoryQuery).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('room timer', () => {
+    it('reports no room without a timer', async () => {
+      const { status, data } = await req('GET', '/api/room', undefined, readToken.token)
+      expect(status).toBe(200)
+      expect(data.room).toBeNull()
+    })
+
+    it('reports the time left and the phase', async () => {
+      const now = Date.now()
+      queueState.roomTimer = { startedAt: now - 60_000, endsAt: now + 5 * 60_000, warnMinutes: 10 }
+      const { data } = await req('GET', '/api/room', undefined, readToken.token)
+      expect(data.room.phase).toBe('last-song')
+      expect(data.room.remaining).toBeGreaterThan(290)
+      expect(data.room.remaining).toBeLessThanOrEqual(300)
+    })
+
+    it('extends the room in the control window', async () => {
+      const now = Date.now()
+      queueState.roomTimer = { startedAt: now - 60_000, endsAt: now - 1000, warnMinutes: 10 }
+      const { status, data } = await req('POST', '/api/room/extend', { minutes: 30 })
+      expect(status).toBe(200)
+      expect(data.room.phase).toBe('running')
+      expect(data.room.endsAt).toBeGreaterThanOrEqual(now + 30 * 60_000)
+      expect(mockWinSend).toHaveBeenCalledWith('api-room-extend', 30)
+    })
+
+    it('refuses to extend without a timer, or without admin scope', async () => {
+      expect((await req('POST', '/api/room/extend', { minutes: 30 })).status).toBe(409)
+      expect((await req('POST', '/api/room/extend', { minutes: 0 })).status).toBe(400)
+      expect((await req('POST', '/api/room/extend', { minutes: 30 }, readToken.token)).status).toBe(403)
+      expect(mockWinSend).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /mcp', () => {
+    it('lists the built-in routes as tools', async () => {
+      const { status, data } = await req('POST', '/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      expect(status).toBe(200)
+      const names = data.result.tools.map((t: any) => t.name)
+      expect(names).toContain('queue_add')
+      expect(names).toContain('playlists_load')
+      expect(names).not.toContain('get_whoami')
+    })
+
+    it('runs tools through the route handlers', async () => {
+      const { data } = await req('POST', '/mcp', {
+        jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'player_skip', arguments: {} },
+      })
+      expect(data.result.isError).toBe(false)
+      expect(mockWinSend).toHaveBeenCalledWith('api-skip-song')
+    })
+
+    it('takes a GET route\'s query parameters as tool arguments', async () => {
+      mockHistoryQuery.mockResolvedValue([])
+      const list = await req('POST', '/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      const tool = list.data.result.tools.find((t: any) => t.name === 'get_history')
+      expect(Object.keys(tool.inputSchema.properties)).toEqual(['date', 'limit'])
+
+      const { data } = await req('POST', '/mcp', {
+        jsonrpc: '2.0', id: 2, method: 'tools/call',
+        params: { name: 'get_history', arguments: { date: '2026-10-19', limit: 5 } },
+      })
+      expect(data.result.isError).toBe(false)
+      expect(mockHistoryQuery).toHaveBeenCalledWith({ date: '2026-10-19', limit: 5 })
+
+      const invalid = await req('POST', '/mcp', {
+        jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'get_history', arguments: { limit: 'all' } },
+      })
+      expect(invalid.data.result.isError).toBe(true)
+    })
+  })
+
   describe('Unknown endpoints', () => {
     it('returns 404 with endpoint list', async () => {
       const { status, data } = await req('GET', '/api/unknown')
       expect(status).toBe(404)
       expect(data.error).toBe('Not found')
       expect(data.endpoints).toBeInstanceOf(Array)
-      expect(data.endpoints.length).toBe(7)
+      expect(data.endpoints).toHaveLength(registry.routes.length)
+      expect(data.endpoints).toContain('GET  /api/status')
     })
   })
 
@@ -374,3 +772,103 @@ describe('Skill HTTP API', () => {
     })
   })
 })
+
+describe('createRouteRegistry', () => {
+  it('matches path parameters', () => {
+    expect(matchPath('/api/queue/:entryId', '/api/queue/e%201')).toEqual({ entryId: 'e 1' })
+    expect(matchPath('/api/queue/:entryId', '/api/queue/')).toBeNull()
+    expect(matchPath('/api/queue/:entryId', '/api/queue/a/b')).toBeNull()
+  })
+
+  it('passes path parameters to handlers', () => {
+    const local = createRouteRegistry({ authenticate: () => null })
+    local.register({
+      method: 'DELETE', path: '/api/things/:id', summary: 'Delete', scope: 'admin',
+      handler: ({ params }) => ({ status: 200, data: params }),
+    })
+    const found = local.match('DELETE', '/api/things/42')
+    expect(found?.params).toEqual({ id: '42' })
+    expect(local.match('GET', '/api/things/42')).toBeNull()
+  })
+
+  it('refuses duplicate routes', () => {
+    const local = createRouteRegistry({ authenticate: () => null })
+    const route = { method: 'GET' as const, path: '/api/a/:x', summary: 'A', scope: 'read' as const, handler: () => {} }
+    local.register(route)
+    expect(() => local.register({ ...route, path: '/api/a/:y' })).toThrow('Route already registered')
+  })
+})
+
+describe('loadPlugins', () => {
+  let dir: string
+  const host = {
+    getQueueState: () => ({ currentSong: null, upcomingSongs: [], playbackState: 'idle' }),
+    addSong: vi.fn(),
+    searchYouTube: vi.fn(async () => []),
+  }
+
+  beforeEach(() => {
+    // Inside the project: vitest's module loader won't import files from os.tmpdir()
+    const cache = path.join(__dirname, '..', 'node_modules', '.cache')
+    fs.mkdirSync(cache, { recursive: true })
+    dir = fs.mkdtempSync(path.join(cache, 'ktv-plugins-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('returns nothing when the plugins folder does not exist', async () => {
+    const local = createRouteRegistry({ authenticate: () => null })
+    expect(await loadPlugins(path.join(dir, 'missing'), local, host)).toEqual([])
+  })
+
+  it('registers plugin routes under /api/plugins/<name>', async () => {
+    fs.writeFileSync(path.join(dir, 'lyrics.mjs'), `
+      export function register(api) {
+        api.route({
+          method: 'GET', path: '/songs/:videoId', summary: 'Lyrics', scope: 'read',
+          handler: ({ params }) => ({ status: 200, data: { videoId: params.videoId, plugin: api.name } }),
+        })
+      }
+    `)
+    const local = createRouteRegistry({ authenticate: () => null })
+    const [result] = await loadPlugins(dir, local, host)
+
+    expect(result).toMatchObject({ name: 'lyrics', routes: ['GET /api/plugins/lyrics/songs/:videoId'] })
+    expect(result.error).toBeUndefined()
+    const found = local.match('GET', '/api/plugins/lyrics/songs/abc')!
+    expect(found.route.tags).toEqual(['lyrics'])
+    expect(await found.route.handler({ params: found.params } as any)).toEqual({
+      status: 200, data: { videoId: 'abc', plugin: 'lyrics' },
+    })
+  })
+
+  it('reports broken plugins without registering any of their routes', async () => {
+    fs.writeFileSync(path.join(dir, 'public.mjs'), `
+      export default function (api) {
+        api.route({ method: 'GET', path: '/ok', summary: 'Ok', scope: 'read', handler: () => {} })
+        api.route({ method: 'GET', path: '/open', summary: 'Open', scope: null, handler: () => {} })
+      }
+    `)
+    fs.writeFileSync(path.join(dir, 'empty.mjs'), 'export const nothing = 1\n')
+    fs.writeFileSync(path.join(dir, 'clash.mjs'), `
+      export default {
+        register(api) {
+          api.route({ method: 'GET', path: '/fine', summary: 'Fine', scope: 'read', handler: () => {} })
+          api.route({ method: 'GET', path: '/:id', summary: 'Taken', scope: 'read', handler: () => {} })
+        },
+      }
+    `)
+    const local = createRouteRegistry({ authenticate: () => null })
+    local.register({ method: 'GET', path: '/api/plugins/clash/:x', summary: 'Host', scope: 'read', handler: () => {} })
+    const results = await loadPlugins(dir, local, host)
+
+    expect(results.map(r => [r.name, r.error])).toEqual([
+      ['clash', 'GET /api/plugins/clash/:id is already registered'],
+      ['empty', 'Plugin must export a register(api) function'],
+      ['public', 'GET /open: plugin routes need a scope'],
+    ])
+    expect(local.routes).toHaveLength(1)
+  })
+})